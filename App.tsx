@@ -1,18 +1,52 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Doctor, DailySchedule, ScheduleConfig, User } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Doctor, DailySchedule, ScheduleConfig, User, GenerationResult, GenerationScope, ShiftPeriod, WardKey, CellChange, DraftRevisions, ScheduleCandidate, ScheduleVersion, ScheduleVersionDetail } from './types';
 import DoctorManager from './components/DoctorManager';
 import ConfigPanel from './components/ConfigPanel';
 import ScheduleTable from './components/ScheduleTable';
 import Login from './components/Login';
-import { generateScheduleWithGemini } from './services/geminiService';
-import { dataService } from './services/dataService';
+import ValidationReport from './components/ValidationReport';
+import GenerationScopePicker from './components/GenerationScopePicker';
+import StatsDashboard from './components/StatsDashboard';
+import WardManager from './components/WardManager';
+import ShiftManager from './components/ShiftManager';
+import RotationRuleManager from './components/RotationRuleManager';
+import LeaveRequestPanel from './components/LeaveRequestPanel';
+import MyShiftsDashboard from './components/MyShiftsDashboard';
+import UserManager from './components/UserManager';
+import SwapPanel from './components/SwapPanel';
+import SubstituteFinder from './components/SubstituteFinder';
+import CandidateComparison from './components/CandidateComparison';
+import ScheduleVersionBar from './components/ScheduleVersionBar';
+import ScheduleDiffPanel from './components/ScheduleDiffPanel';
+import { generateScheduleWithGemini, MAX_ATTEMPTS } from './services/geminiService';
+import { generateScheduleLocally } from './services/localSolver';
+import { ApiError, dataService } from './services/dataService';
 import { exportToPDF, exportToDocx } from './utils/exportUtils';
+import { migrateLegacyLeave } from './utils/availability';
+import { applyCellChanges } from './utils/swaps';
+import { validateSchedule } from './utils/scheduleValidator';
+import { scoreSchedule } from './utils/scheduleQuality';
+import { diffSchedules } from './utils/scheduleDiff';
+import { DEFAULT_ROTATION_RULES, DEFAULT_SHIFTS, DEFAULT_WARDS, createEmptyDay, getHeldBlock, getLinkedCells, getNeighbourDays, isCellLocked, mergeGeneratedSchedule, setCell, suggestRotationRules } from './utils/scheduleCells';
 import { getDaysInMonth, format } from 'date-fns';
-import { Sparkles, FileText, Activity, CalendarDays, Users, LayoutDashboard, ChevronLeft, ChevronRight, LogOut, CheckCircle, Loader2 } from 'lucide-react';
+import { Sparkles, FileText, Activity, CalendarDays, Users, LayoutDashboard, ChevronLeft, ChevronRight, LogOut, CheckCircle, Loader2, Cpu, BarChart3, Settings, Inbox, CalendarCheck, ArrowLeftRight } from 'lucide-react';
 import th from 'date-fns/locale/th';
 
-type View = 'schedule' | 'doctors' | 'holidays';
+type View = 'schedule' | 'mine' | 'stats' | 'doctors' | 'leave' | 'swaps' | 'holidays' | 'settings';
 type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'error';
+type GeneratorMode = 'ai' | 'local';
+
+// Schedules made per Generate click, compared side by side before one is applied
+const CANDIDATE_COUNT = 3;
+// Every AI schedule costs up to MAX_ATTEMPTS Gemini calls, so AI mode makes fewer
+const AI_CANDIDATE_COUNT = 2;
+
+// Answers to saves and swaps may arrive out of order, so the highest revision of a month wins
+const mergeRevisions = (current: DraftRevisions, next: DraftRevisions): DraftRevisions => {
+  const merged = { ...current };
+  Object.entries(next).forEach(([month, revision]) => { merged[month] = Math.max(merged[month] || 0, revision); });
+  return merged;
+};
 
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -21,11 +55,36 @@ const App: React.FC = () => {
   const [config, setConfig] = useState<ScheduleConfig>({
     year: new Date().getFullYear(),
     month: new Date().getMonth(),
-    customHolidays: []
+    customHolidays: [],
+    wards: DEFAULT_WARDS,
+    shifts: DEFAULT_SHIFTS,
+    rotationRules: DEFAULT_ROTATION_RULES,
+    pairingConstraints: [],
+    swapApprovalRequired: true
   });
   const [schedule, setSchedule] = useState<DailySchedule[]>([]);
+  // Saved days of the previous/next month, used as read-only context for spacing and holiday fairness
+  const [neighbourDays, setNeighbourDays] = useState<DailySchedule[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generatorMode, setGeneratorMode] = useState<GeneratorMode>('ai');
+  const [lastGeneration, setLastGeneration] = useState<Omit<GenerationResult, 'schedule'> | null>(null);
+  const [generationScope, setGenerationScope] = useState<GenerationScope | null>(null);
+  // Generated schedules waiting for the admin to pick one (with the scope they were made for)
+  const [candidates, setCandidates] = useState<{ list: ScheduleCandidate[]; scope?: GenerationScope } | null>(null);
+  // Filled cell whose replacement is being looked for
+  const [substituteCell, setSubstituteCell] = useState<{ date: string; shift: ShiftPeriod; ward: WardKey } | null>(null);
   const [isExporting, setIsExporting] = useState(false);
+  // Published versions of the month on screen (newest first) and the latest one's days, to spot unpublished edits
+  const [versions, setVersions] = useState<ScheduleVersion[]>([]);
+  const [publishedDays, setPublishedDays] = useState<DailySchedule[]>([]);
+  // Older version shown read-only instead of the current schedule
+  const [viewedVersion, setViewedVersion] = useState<ScheduleVersionDetail | null>(null);
+  // Open comparison: the newer side is shown read-only with its changed cells outlined
+  const [isComparing, setIsComparing] = useState(false);
+  const [comparison, setComparison] = useState<{ after: DailySchedule[]; changes: CellChange[] } | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  // Bumped to reload the month from the database (e.g. after restoring a version)
+  const [reloadCount, setReloadCount] = useState(0);
   
   // Saving State
   const [isSaving, setIsSaving] = useState(false);
@@ -38,6 +97,10 @@ const App: React.FC = () => {
   const scheduleDirtyRef = useRef(false);
   // Ref for debounce timer
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Draft revisions the days on screen are based on, sent with every save
+  const draftRevisionsRef = useRef<DraftRevisions>({});
+  // Unavailability entries as of the last load or save, to tell the server which ones were removed here
+  const savedUnavailabilityIdsRef = useRef<Set<string>>(new Set());
 
   // 1. Load Data on Mount (Doctors & Config ONLY)
   useEffect(() => {
@@ -48,8 +111,22 @@ const App: React.FC = () => {
           dataService.getConfig()
         ]);
 
-        if (loadedDoctors.length > 0) setDoctors(loadedDoctors);
-        if (loadedConfig) setConfig(loadedConfig);
+        if (loadedDoctors.length > 0) setDoctors(loadedDoctors.map(migrateLegacyLeave));
+        savedUnavailabilityIdsRef.current = new Set(loadedDoctors.flatMap(d => (d.unavailability || []).map(e => e.id)));
+        // Configs saved before wards, shifts and rotation rules were configurable keep the original ones
+        if (loadedConfig) {
+          const wards = loadedConfig.wards?.length ? loadedConfig.wards : DEFAULT_WARDS;
+          const shifts = loadedConfig.shifts?.length ? loadedConfig.shifts : DEFAULT_SHIFTS;
+          setConfig({
+            ...loadedConfig,
+            wards,
+            shifts,
+            // An empty list is a valid choice (no linked cells), only a missing one is filled in
+            rotationRules: Array.isArray(loadedConfig.rotationRules) ? loadedConfig.rotationRules : suggestRotationRules({ wards, shifts }),
+            pairingConstraints: loadedConfig.pairingConstraints || [],
+            swapApprovalRequired: loadedConfig.swapApprovalRequired ?? true
+          });
+        }
         
         setIsDataLoaded(true);
       } catch (error) {
@@ -65,7 +142,10 @@ const App: React.FC = () => {
   // Doctors - Save immediately on change (usually infrequent)
   useEffect(() => {
     if (isDataLoaded) {
-      dataService.saveDoctors(doctors);
+      const current = new Set(doctors.flatMap(d => d.unavailability.map(e => e.id)));
+      const removed = [...savedUnavailabilityIdsRef.current].filter(id => !current.has(id));
+      savedUnavailabilityIdsRef.current = current;
+      dataService.saveDoctors(doctors, removed);
     }
   }, [doctors, isDataLoaded]);
 
@@ -81,7 +161,8 @@ const App: React.FC = () => {
     setIsSaving(true);
     setSaveStatus('saving');
     try {
-      await dataService.saveSchedule(currentSchedule);
+      const revisions = await dataService.saveSchedule(currentSchedule, draftRevisionsRef.current);
+      draftRevisionsRef.current = mergeRevisions(draftRevisionsRef.current, revisions);
       setSaveStatus('saved');
       // Mark as clean ONLY if we successfully saved
       // Note: In a race condition where user edits WHILE saving, 
@@ -91,6 +172,12 @@ const App: React.FC = () => {
     } catch (error) {
       console.error("Save failed:", error);
       setSaveStatus('error');
+      // A swap or absence re-plan changed the month since it was loaded: saving would undo it
+      if (error instanceof ApiError && error.status === 409) {
+        alert(`${error.message}\nระบบจะโหลดตารางเวรล่าสุดใหม่ การแก้ไขที่ยังไม่ได้บันทึกจะไม่ถูกบันทึก`);
+        scheduleDirtyRef.current = false;
+        setReloadCount(count => count + 1);
+      }
       return false;
     } finally {
       setIsSaving(false);
@@ -124,6 +211,13 @@ const App: React.FC = () => {
     };
   }, [schedule, isDataLoaded]);
 
+  // Versions of a month (YYYY-MM) and the days of the latest one
+  const loadVersions = async (month: string) => {
+    const loaded = await dataService.getScheduleVersions(month);
+    const latest = loaded.length > 0 ? await dataService.getScheduleVersion(loaded[0].id) : null;
+    return { loaded, days: latest ? latest.days : [] };
+  };
+
   // 3. Handle Month/Year Change OR Config Change
   useEffect(() => {
     if (!isDataLoaded) return;
@@ -132,8 +226,14 @@ const App: React.FC = () => {
 
     const syncScheduleWithDb = async () => {
       try {
-        // Always fetch the latest full schedule from DB to ensure we don't lose data
-        const dbSchedule = await dataService.getSchedule();
+        // Always fetch the latest full schedule from DB to ensure we don't lose data.
+        // Admins work on the draft, everyone else only sees what was published.
+        const [{ days: dbSchedule, revisions }, monthVersions] = await Promise.all([
+          user?.role === 'admin'
+            ? dataService.getSchedule()
+            : dataService.getPublishedSchedule().then(days => ({ days, revisions: {} })),
+          loadVersions(format(new Date(config.year, config.month, 1), 'yyyy-MM'))
+        ]);
         
         if (!isActive) return;
 
@@ -151,32 +251,28 @@ const App: React.FC = () => {
           // Try to find this date in the fetched DB data
           const existingDay = dbSchedule.find(s => s.date.split('T')[0] === dateStr);
 
-          if (existingDay) {
+          if (existingDay?.shifts) {
             newMonthSchedule.push({
               ...existingDay,
-              isHoliday: isHoliday,
-              holidayName: customHoliday?.name,
-              shifts: existingDay.shifts || {
-                morning: isHoliday ? { icu: null, general: null } : undefined,
-                afternoon: { icu: null, general: null },
-                night: { icu: null, general: null }
-              }
-            });
-          } else {
-            newMonthSchedule.push({
               date: dateStr,
               isHoliday: isHoliday,
-              holidayName: customHoliday?.name,
-              shifts: {
-                morning: isHoliday ? { icu: null, general: null } : undefined,
-                afternoon: { icu: null, general: null },
-                night: { icu: null, general: null }
-              }
+              holidayName: customHoliday?.name
             });
+          } else {
+            newMonthSchedule.push(createEmptyDay(dateStr, isHoliday, customHoliday?.name, config));
           }
         }
         
         setSchedule(newMonthSchedule);
+        draftRevisionsRef.current = revisions;
+        setNeighbourDays(getNeighbourDays(dbSchedule, config));
+        setVersions(monthVersions.loaded);
+        setPublishedDays(monthVersions.days);
+        setViewedVersion(null);
+        setIsComparing(false);
+        setComparison(null);
+        setLastGeneration(null);
+        setGenerationScope(null);
         scheduleDirtyRef.current = false;
         setSaveStatus('saved');
         
@@ -189,39 +285,61 @@ const App: React.FC = () => {
     
     return () => { isActive = false; };
 
-  }, [config.year, config.month, config.customHolidays, isDataLoaded]);
+  }, [config.year, config.month, config.customHolidays, isDataLoaded, user?.role, reloadCount]);
 
-  const updateSchedule = (date: string, shift: 'morning' | 'afternoon' | 'night', type: 'icu' | 'general', doctorId: string) => {
+  // Draft cells that differ from the latest published version
+  const unpublishedChanges = useMemo(() => diffSchedules(publishedDays, schedule).length, [publishedDays, schedule]);
+
+  // Re-validate after every generation and every manual edit
+  const violations = useMemo(
+    () => validateSchedule(schedule, doctors, config, neighbourDays),
+    [schedule, doctors, config, neighbourDays]
+  );
+
+  const updateSchedule = (date: string, shift: ShiftPeriod, ward: WardKey, doctorId: string) => {
     if (user?.role !== 'admin') return;
 
     setSchedule(prev => prev.map(day => {
-      if (day.date === date) {
-        const newShifts = { ...day.shifts };
-        
-        if (shift === 'morning' && newShifts.morning) {
-          newShifts.morning = { ...newShifts.morning, [type]: doctorId };
-          
-          if (type === 'general') {
-             newShifts.afternoon = { ...newShifts.afternoon, icu: doctorId };
-             newShifts.night = { ...newShifts.night, icu: doctorId };
-          }
-          else if (type === 'icu') {
-             newShifts.afternoon = { ...newShifts.afternoon, general: doctorId };
-             newShifts.night = { ...newShifts.night, general: doctorId };
-          }
+      if (day.date !== date || isCellLocked(day, shift, ward)) return day;
+      // The picked doctor also takes the linked cells (e.g. Afternoon -> Night),
+      // but auto-filled linked cells never overwrite a locked cell
+      return getLinkedCells(day.isHoliday, config, shift, ward)
+        .filter(([s, w]) => !isCellLocked(day, s, w))
+        .reduce((next, [s, w]) => setCell(next, s, w, doctorId), setCell(day, shift, ward, doctorId));
+    }));
+    
+    scheduleDirtyRef.current = true;
+    setSaveStatus('unsaved');
+  };
 
-        } else if (shift === 'afternoon') {
-          newShifts.afternoon = { ...newShifts.afternoon, [type]: doctorId };
-          newShifts.night = { ...newShifts.night, [type]: doctorId };
-        } else {
-          newShifts.night = { ...newShifts.night, [type]: doctorId };
-        }
+  // Hand a filled cell to another doctor together with the linked cells the same doctor works that day
+  // (e.g. Afternoon + Night, or the holiday pattern), so the linkage survives the replacement; locked cells stay
+  const replaceDoctor = (date: string, shift: ShiftPeriod, ward: WardKey, doctorId: string) => {
+    if (user?.role !== 'admin') return;
 
-        return { ...day, shifts: newShifts };
-      }
-      return day;
+    setSchedule(prev => prev.map(day => {
+      if (day.date !== date || isCellLocked(day, shift, ward)) return day;
+      return getHeldBlock(day, config, shift, ward)
+        .filter(([s, w]) => !isCellLocked(day, s, w))
+        .reduce((next, [s, w]) => setCell(next, s, w, doctorId), day);
     }));
-    
+
+    scheduleDirtyRef.current = true;
+    setSaveStatus('unsaved');
+    setSubstituteCell(null);
+  };
+
+  // Locked cells are kept as-is by every generator
+  const toggleLock = (date: string, shift: ShiftPeriod, ward: WardKey) => {
+    if (user?.role !== 'admin') return;
+
+    setSchedule(prev => prev.map(day => {
+      if (day.date !== date) return day;
+      const slot = day.shifts[shift] || { assignments: {} };
+      const locked = { ...slot.locked, [ward]: !slot.locked?.[ward] };
+      return { ...day, shifts: { ...day.shifts, [shift]: { ...slot, locked } } };
+    }));
+
     scheduleDirtyRef.current = true;
     setSaveStatus('unsaved');
   };
@@ -236,17 +354,33 @@ const App: React.FC = () => {
 
     setIsGenerating(true);
     try {
-      const generated = await generateScheduleWithGemini(doctors, config);
-      setSchedule(prev => prev.map(day => {
-        const genDay = generated.find(g => g.date === day.date);
-        if (!genDay) return day;
-        return {
-          ...day,
-          shifts: genDay.shifts
-        };
-      }));
-      scheduleDirtyRef.current = true;
-      setSaveStatus('unsaved');
+      // AI needs an API key and network; the local solver works offline
+      // Year-to-date totals from the server; generation still works without them
+      const ledger = await dataService.getStats(config.year, config.month);
+      const options = { current: schedule, scope: generationScope || undefined, context: neighbourDays, ledger: ledger || undefined };
+      const list: ScheduleCandidate[] = [];
+      // AI answers differ on every call; the local solver needs another variant for another schedule
+      const count = generatorMode === 'ai' ? AI_CANDIDATE_COUNT : CANDIDATE_COUNT;
+      for (let variant = 0; variant < count; variant++) {
+        let result: GenerationResult;
+        try {
+          if (generatorMode === 'ai') {
+            const answer = await generateScheduleWithGemini(doctors, config, options);
+            result = { ...answer, schedule: mergeGeneratedSchedule(schedule, answer.schedule, options.scope) };
+          } else {
+            const generated = mergeGeneratedSchedule(schedule, await generateScheduleLocally(doctors, config, { ...options, variant }), options.scope);
+            result = { schedule: generated, attempts: 1, repairedLocally: false, violations: validateSchedule(generated, doctors, config, neighbourDays) };
+          }
+        } catch (error) {
+          // Keep the candidates already made; only fail when there is none
+          if (list.length === 0) throw error;
+          console.error(error);
+          break;
+        }
+        if (list.some(c => JSON.stringify(c.result.schedule) === JSON.stringify(result.schedule))) continue;
+        list.push({ id: `candidate-${variant}`, result, quality: scoreSchedule(result.schedule, doctors, config, neighbourDays) });
+      }
+      setCandidates({ list, scope: options.scope });
     } catch (error: any) {
       console.error(error);
       alert("เกิดข้อผิดพลาดในการสร้างตาราง: " + error.message);
@@ -255,10 +389,85 @@ const App: React.FC = () => {
     }
   };
 
+  const applyCandidate = (candidate: ScheduleCandidate) => {
+    const { schedule: generated, ...summary } = candidate.result;
+    const scope = candidates?.scope;
+    setLastGeneration(summary);
+    setSchedule(prev => mergeGeneratedSchedule(prev, generated, scope));
+    scheduleDirtyRef.current = true;
+    setSaveStatus('unsaved');
+    setCandidates(null);
+  };
+
+  const handlePublish = async (note: string) => {
+    if (user?.role !== 'admin') return;
+    const month = format(new Date(config.year, config.month, 1), 'yyyy-MM');
+
+    setIsPublishing(true);
+    try {
+      // Publish snapshots the saved draft, so pending edits are saved first
+      if (scheduleDirtyRef.current) {
+        if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+        if (!(await saveScheduleToDb(schedule))) throw new Error("บันทึกตารางเวรไม่สำเร็จ");
+        scheduleDirtyRef.current = false;
+      }
+      await dataService.publishSchedule(month, note || undefined);
+      const { loaded, days } = await loadVersions(month);
+      setVersions(loaded);
+      setPublishedDays(days);
+    } catch (error: any) {
+      console.error(error);
+      alert("เกิดข้อผิดพลาดในการเผยแพร่ตารางเวร: " + error.message);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleViewVersion = async (version: ScheduleVersion | null) => {
+    closeComparison();
+    if (!version) {
+      setViewedVersion(null);
+      return;
+    }
+    try {
+      setViewedVersion(await dataService.getScheduleVersion(version.id));
+    } catch (error: any) {
+      console.error(error);
+      alert("ไม่สามารถเปิดฉบับที่เลือกได้: " + error.message);
+    }
+  };
+
+  const closeComparison = () => {
+    setIsComparing(false);
+    setComparison(null);
+  };
+
+  // The version becomes the month's draft again; it is only visible to others after publishing
+  const handleRestoreVersion = async (version: ScheduleVersion) => {
+    if (!window.confirm(`ต้องการแทนที่ฉบับร่างของเดือนนี้ด้วยฉบับที่ ${version.version} ใช่หรือไม่? การแก้ไขที่ยังไม่เผยแพร่จะหายไป`)) return;
+
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    scheduleDirtyRef.current = false;
+    setIsPublishing(true);
+    try {
+      await dataService.restoreScheduleVersion(version.id);
+      setReloadCount(count => count + 1);
+    } catch (error: any) {
+      console.error(error);
+      alert("เกิดข้อผิดพลาดในการกู้คืนตารางเวร: " + error.message);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  // Comparison, then an older version, take the table's place without touching the schedule
+  const displayedSchedule = comparison ? comparison.after : viewedVersion ? viewedVersion.days : schedule;
+  const isShowingOther = !!comparison || !!viewedVersion;
+
   const handleExportPDF = async () => {
     setIsExporting(true);
     try {
-      await exportToPDF(schedule, doctors, config);
+      await exportToPDF(displayedSchedule, doctors, config);
     } catch (error) {
       console.error("PDF Export failed:", error);
       alert("เกิดข้อผิดพลาดในการ Export PDF");
@@ -270,7 +479,7 @@ const App: React.FC = () => {
   const handleExportDocx = async () => {
     setIsExporting(true);
     try {
-      await exportToDocx(schedule, doctors, config);
+      await exportToDocx(displayedSchedule, doctors, config);
     } catch (error) {
       console.error("Docx Export failed:", error);
       alert("เกิดข้อผิดพลาดในการ Export Word");
@@ -292,7 +501,8 @@ const App: React.FC = () => {
         if (success) {
             scheduleDirtyRef.current = false;
         } else {
-            alert("กำลังบันทึกข้อมูล กรุณารอสักครู่แล้วลองใหม่");
+            // A conflicting save already told the user and reloads the month
+            if (scheduleDirtyRef.current) alert("กำลังบันทึกข้อมูล กรุณารอสักครู่แล้วลองใหม่");
             return;
         }
     }
@@ -310,12 +520,33 @@ const App: React.FC = () => {
     setConfig({ ...config, month: newMonth, year: newYear });
   };
 
+  // Swaps and absence re-plans are already written to the database, so patch the days on screen without marking them dirty.
+  // Taking the revisions they produced keeps the next save of these days from being refused.
+  const applySavedChanges = (changes: CellChange[], revisions: DraftRevisions) => {
+    setSchedule(prev => applyCellChanges(prev, changes));
+    setNeighbourDays(prev => applyCellChanges(prev, changes));
+    draftRevisionsRef.current = mergeRevisions(draftRevisionsRef.current, revisions);
+  };
+
+  // Applied swaps are also published as a new version of their month
+  const handleSwapApplied = async (changes: CellChange[], revisions: DraftRevisions) => {
+    applySavedChanges(changes, revisions);
+    try {
+      const { loaded, days } = await loadVersions(format(new Date(config.year, config.month, 1), 'yyyy-MM'));
+      setVersions(loaded);
+      setPublishedDays(days);
+    } catch (error) {
+      console.error("Failed to reload versions:", error);
+    }
+  };
+
   const handleLogin = (u: User) => {
     setUser(u);
     setCurrentView('schedule');
   };
 
   const handleLogout = () => {
+    dataService.logout();
     setUser(null);
   };
 
@@ -327,6 +558,8 @@ const App: React.FC = () => {
   const buddhistYear = config.year + 543;
   const isAdmin = user.role === 'admin';
   const isViewer = user.role === 'viewer';
+  // Doctor record linked to this account (by an admin), if any
+  const myDoctor = user.doctorId ? doctors.find(d => d.id === user.doctorId) : undefined;
 
   if (!isDataLoaded) {
     return <div className="min-h-screen flex items-center justify-center text-medical-600 font-bold">กำลังโหลดข้อมูล...</div>;
@@ -357,6 +590,20 @@ const App: React.FC = () => {
                 >
                   ตารางเวร
                 </button>
+                {myDoctor && (
+                  <button 
+                    onClick={() => setCurrentView('mine')}
+                    className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${currentView === 'mine' ? 'bg-white text-medical-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    เวรของฉัน
+                  </button>
+                )}
+                <button 
+                  onClick={() => setCurrentView('stats')}
+                  className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${currentView === 'stats' ? 'bg-white text-medical-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  สถิติ
+                </button>
                 {!isViewer && (
                   <>
                     <button 
@@ -365,12 +612,30 @@ const App: React.FC = () => {
                     >
                       รายชื่อแพทย์
                     </button>
+                    <button 
+                      onClick={() => setCurrentView('leave')}
+                      className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${currentView === 'leave' ? 'bg-white text-medical-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                    >
+                      คำขอลา
+                    </button>
+                    <button 
+                      onClick={() => setCurrentView('swaps')}
+                      className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${currentView === 'swaps' ? 'bg-white text-medical-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                    >
+                      แลกเวร
+                    </button>
                     <button 
                       onClick={() => setCurrentView('holidays')}
                       className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${currentView === 'holidays' ? 'bg-white text-medical-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
                     >
                       วันหยุด
                     </button>
+                    <button 
+                      onClick={() => setCurrentView('settings')}
+                      className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${currentView === 'settings' ? 'bg-white text-medical-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                    >
+                      ตั้งค่าเวร
+                    </button>
                   </>
                 )}
              </nav>
@@ -444,14 +709,40 @@ const App: React.FC = () => {
               <div className="flex flex-wrap items-center gap-2 w-full md:w-auto justify-center md:justify-end">
                 {isAdmin && (
                   <>
+                    {/* Generator Mode Switcher */}
+                    <div className="flex bg-gray-100 p-1 rounded-lg">
+                      <button
+                        onClick={() => setGeneratorMode('ai')}
+                        disabled={isGenerating}
+                        className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${generatorMode === 'ai' ? 'bg-white text-medical-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                        title={`สร้างด้วย Gemini AI (ต้องใช้อินเทอร์เน็ต) ${AI_CANDIDATE_COUNT} แบบ เรียก AI สูงสุด ${AI_CANDIDATE_COUNT * MAX_ATTEMPTS} ครั้งต่อการกด`}
+                      >
+                        AI
+                      </button>
+                      <button
+                        onClick={() => setGeneratorMode('local')}
+                        disabled={isGenerating}
+                        className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${generatorMode === 'local' ? 'bg-white text-medical-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                        title="สร้างด้วยระบบคำนวณในเครื่อง (ไม่ต้องใช้อินเทอร์เน็ต)"
+                      >
+                        ในเครื่อง
+                      </button>
+                    </div>
                     <button
                       onClick={handleGenerate}
-                      disabled={isGenerating || isSaving}
+                      disabled={isGenerating || isSaving || isShowingOther}
                       className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-medical-600 to-medical-500 text-white rounded-lg hover:from-medical-700 hover:to-medical-600 transition shadow-sm disabled:opacity-70 text-sm font-semibold"
                     >
-                      <Sparkles size={16} className={isGenerating ? "animate-spin" : ""} />
-                      {isGenerating ? 'กำลังสร้าง...' : 'สร้างตาราง (AI)'}
+                      {generatorMode === 'ai'
+                        ? <Sparkles size={16} className={isGenerating ? "animate-spin" : ""} />
+                        : <Cpu size={16} className={isGenerating ? "animate-spin" : ""} />}
+                      {isGenerating ? 'กำลังสร้าง...' : `${generationScope ? 'สร้างบางส่วน' : 'สร้างตาราง'} (${generatorMode === 'ai' ? 'AI' : 'ในเครื่อง'})`}
                     </button>
+                    {generatorMode === 'ai' && (
+                      <span className="text-[10px] text-gray-500">
+                        {AI_CANDIDATE_COUNT} แบบ · เรียก AI สูงสุด {AI_CANDIDATE_COUNT * MAX_ATTEMPTS} ครั้ง
+                      </span>
+                    )}
                     <div className="h-8 w-px bg-gray-300 hidden md:block mx-2"></div>
                   </>
                 )}
@@ -473,21 +764,131 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {isAdmin && (
+              <GenerationScopePicker
+                config={config}
+                scope={generationScope}
+                setScope={setGenerationScope}
+                disabled={isGenerating}
+              />
+            )}
+
+            <ScheduleVersionBar
+              versions={versions}
+              isAdmin={isAdmin}
+              unpublishedChanges={unpublishedChanges}
+              viewedVersionId={viewedVersion?.id || null}
+              isBusy={isPublishing || isSaving}
+              onPublish={handlePublish}
+              onView={handleViewVersion}
+              onRestore={handleRestoreVersion}
+              onCompare={() => { setViewedVersion(null); setIsComparing(true); }}
+            />
+
+            {isComparing && (
+              <ScheduleDiffPanel
+                versions={versions}
+                isAdmin={isAdmin}
+                draft={schedule}
+                doctors={doctors}
+                config={config}
+                onShow={(after, changes) => setComparison({ after, changes })}
+                onClose={closeComparison}
+              />
+            )}
+
+            {isAdmin && !isShowingOther && schedule.length > 0 && (
+              <ValidationReport violations={violations} generation={lastGeneration} />
+            )}
+
             <ScheduleTable 
-              schedule={schedule} 
+              schedule={displayedSchedule} 
               doctors={doctors} 
+              wards={config.wards}
+              shifts={config.shifts}
               updateSchedule={updateSchedule} 
-              readOnly={!isAdmin}
+              toggleLock={toggleLock}
+              onFindSubstitute={(date, shift, ward) => setSubstituteCell({ date, shift, ward })}
+              readOnly={!isAdmin || isShowingOther}
+              violations={isAdmin && !isShowingOther ? violations : []}
+              changes={comparison?.changes}
+              highlightDoctorId={myDoctor?.id}
             />
+
+            {isAdmin && substituteCell && (
+              <SubstituteFinder
+                schedule={schedule}
+                doctors={doctors}
+                config={config}
+                context={neighbourDays}
+                {...substituteCell}
+                onApply={(doctorId) => replaceDoctor(substituteCell.date, substituteCell.shift, substituteCell.ward, doctorId)}
+                onClose={() => setSubstituteCell(null)}
+              />
+            )}
+
+            {isAdmin && candidates && (
+              <CandidateComparison
+                candidates={candidates.list}
+                current={schedule}
+                doctors={doctors}
+                config={config}
+                onPick={applyCandidate}
+                onCancel={() => setCandidates(null)}
+              />
+            )}
           </div>
         )}
 
+        {currentView === 'mine' && myDoctor && (
+          <MyShiftsDashboard
+            doctor={myDoctor}
+            schedule={schedule}
+            config={config}
+            monthLabel={`${monthName} ${buddhistYear}`}
+            cycleMonth={cycleMonth}
+            disabled={isSaving}
+          />
+        )}
+
+        {currentView === 'stats' && (
+          <StatsDashboard
+            schedule={schedule}
+            doctors={doctors}
+            wards={config.wards}
+            shifts={config.shifts}
+            monthLabel={`${monthName} ${buddhistYear}`}
+            cycleMonth={cycleMonth}
+            disabled={isSaving}
+          />
+        )}
+
         {currentView === 'doctors' && !isViewer && (
           <DoctorManager 
             doctors={doctors} 
             setDoctors={setDoctors} 
             config={config}
+            setConfig={setConfig}
             isAdmin={isAdmin}
+            onScheduleChanged={applySavedChanges}
+          />
+        )}
+
+        {currentView === 'leave' && !isViewer && (
+          <LeaveRequestPanel
+            doctors={doctors}
+            setDoctors={setDoctors}
+            config={config}
+            user={user}
+          />
+        )}
+
+        {currentView === 'swaps' && !isViewer && (
+          <SwapPanel
+            doctors={doctors}
+            config={config}
+            user={user}
+            onApplied={handleSwapApplied}
           />
         )}
 
@@ -499,6 +900,36 @@ const App: React.FC = () => {
           />
         )}
 
+        {currentView === 'settings' && !isViewer && (
+          <div className="space-y-6">
+            <ShiftManager
+              config={config}
+              doctors={doctors}
+              setConfig={setConfig}
+              isAdmin={isAdmin}
+            />
+            <WardManager
+              config={config}
+              doctors={doctors}
+              setConfig={setConfig}
+              isAdmin={isAdmin}
+            />
+            <RotationRuleManager
+              config={config}
+              setConfig={setConfig}
+              isAdmin={isAdmin}
+            />
+            {isAdmin && (
+              <UserManager
+                doctors={doctors}
+                onLinked={(username, doctorId) => {
+                  if (username === user.username) setUser({ ...user, doctorId });
+                }}
+              />
+            )}
+          </div>
+        )}
+
       </main>
 
       {/* Mobile Navigation Bar */}
@@ -510,6 +941,22 @@ const App: React.FC = () => {
           <LayoutDashboard size={20} />
           <span className="text-[10px] mt-1 font-medium">ตารางเวร</span>
         </button>
+        {myDoctor && (
+          <button 
+            onClick={() => setCurrentView('mine')}
+            className={`flex flex-col items-center p-2 rounded-lg ${currentView === 'mine' ? 'text-medical-600' : 'text-gray-400'}`}
+          >
+            <CalendarCheck size={20} />
+            <span className="text-[10px] mt-1 font-medium">เวรของฉัน</span>
+          </button>
+        )}
+        <button 
+          onClick={() => setCurrentView('stats')}
+          className={`flex flex-col items-center p-2 rounded-lg ${currentView === 'stats' ? 'text-medical-600' : 'text-gray-400'}`}
+        >
+          <BarChart3 size={20} />
+          <span className="text-[10px] mt-1 font-medium">สถิติ</span>
+        </button>
         {!isViewer && (
           <>
             <button 
@@ -519,6 +966,20 @@ const App: React.FC = () => {
               <Users size={20} />
               <span className="text-[10px] mt-1 font-medium">แพทย์</span>
             </button>
+            <button 
+                onClick={() => setCurrentView('leave')}
+                className={`flex flex-col items-center p-2 rounded-lg ${currentView === 'leave' ? 'text-medical-600' : 'text-gray-400'}`}
+            >
+              <Inbox size={20} />
+              <span className="text-[10px] mt-1 font-medium">คำขอลา</span>
+            </button>
+            <button 
+                onClick={() => setCurrentView('swaps')}
+                className={`flex flex-col items-center p-2 rounded-lg ${currentView === 'swaps' ? 'text-medical-600' : 'text-gray-400'}`}
+            >
+              <ArrowLeftRight size={20} />
+              <span className="text-[10px] mt-1 font-medium">แลกเวร</span>
+            </button>
             <button 
                 onClick={() => setCurrentView('holidays')}
                 className={`flex flex-col items-center p-2 rounded-lg ${currentView === 'holidays' ? 'text-medical-600' : 'text-gray-400'}`}
@@ -526,6 +987,13 @@ const App: React.FC = () => {
               <CalendarDays size={20} />
               <span className="text-[10px] mt-1 font-medium">วันหยุด</span>
             </button>
+            <button 
+                onClick={() => setCurrentView('settings')}
+                className={`flex flex-col items-center p-2 rounded-lg ${currentView === 'settings' ? 'text-medical-600' : 'text-gray-400'}`}
+            >
+              <Settings size={20} />
+              <span className="text-[10px] mt-1 font-medium">ตั้งค่า</span>
+            </button>
           </>
         )}
       </div>
@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from 'react';
+import { AbsenceCover, CellChange, DailySchedule, Doctor, DraftRevisions, LeaveType, ScheduleConfig, UnavailabilityEntry, WardKey } from '../types';
+import { UserX, X, Loader2, AlertTriangle, Search, Check, Info } from 'lucide-react';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { dataService } from '../services/dataService';
+import { LEAVE_TYPES, addUnavailability } from '../utils/availability';
+import { dayNumber, getShiftName } from '../utils/scheduleCells';
+import { coverChanges, planAbsenceCover } from '../utils/absence';
+import { findIntroducedViolations } from '../utils/swaps';
+
+interface Props {
+  doctor: Doctor;
+  doctors: Doctor[];
+  setDoctors: React.Dispatch<React.SetStateAction<Doctor[]>>;
+  config: ScheduleConfig;
+  onScheduleChanged?: (changes: CellChange[], revisions: DraftRevisions) => void; // Lets the app patch the schedule on screen
+  onClose: () => void;
+}
+
+// Longest absence handled in one go
+const MAX_ABSENCE_DAYS = 62;
+
+// Per affected block: 'plan' keeps the proposal, otherwise a doctor id ('' = leave empty)
+const PLAN_CHOICE = 'plan';
+
+const KIND_STYLES: Record<AbsenceCover['kind'], { label: string; className: string }> = {
+  replace: { label: 'แทนโดยตรง', className: 'bg-green-100 text-green-700' },
+  swap: { label: 'สลับเวร', className: 'bg-blue-100 text-blue-700' },
+  unfilled: { label: 'ยังไม่มีผู้แทน', className: 'bg-red-100 text-red-700' }
+};
+
+// Admin only: a doctor is out at short notice. Adds the leave and re-plans their saved duties.
+const AbsencePlanner: React.FC<Props> = ({ doctor, doctors, setDoctors, config, onScheduleChanged, onClose }) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [type, setType] = useState<LeaveType>('sick');
+
+  // Filled in by "check": the new leave entries, the saved days they were checked against and the proposal
+  const [entries, setEntries] = useState<UnavailabilityEntry[]>([]);
+  const [savedDays, setSavedDays] = useState<DailySchedule[]>([]);
+  const [covers, setCovers] = useState<AbsenceCover[] | null>(null);
+  const [choices, setChoices] = useState<string[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const dayCount = startDate && endDate && endDate >= startDate ? dayNumber(endDate) - dayNumber(startDate) + 1 : 0;
+  const isValid = dayCount > 0 && dayCount <= MAX_ABSENCE_DAYS;
+
+  const withAbsence = useMemo(
+    () => doctors.map(d => (d.id === doctor.id ? addUnavailability(d, entries) : d)),
+    [doctors, doctor.id, entries]
+  );
+
+  const nameOf = (id: string | null) => (id ? doctors.find(d => d.id === id)?.name || '(ลบแล้ว)' : 'ว่าง');
+  const wardName = (id: WardKey) => config.wards.find(w => w.id === id)?.name || id;
+
+  const checkImpact = async () => {
+    if (!isValid) return;
+    setIsChecking(true);
+    try {
+      const days = (await dataService.getSchedule()).days.map(d => ({ ...d, date: d.date.split('T')[0] }));
+      const added = eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) })
+        .map(d => ({ id: crypto.randomUUID(), date: format(d, 'yyyy-MM-dd'), type }));
+      const planned = planAbsenceCover(
+        days,
+        doctors.map(d => (d.id === doctor.id ? addUnavailability(d, added) : d)),
+        config, doctor.id, startDate, endDate
+      );
+      setEntries(added);
+      setSavedDays(days);
+      setCovers(planned);
+      setChoices(planned.map(() => PLAN_CHOICE));
+    } catch (error: any) {
+      alert("ตรวจสอบตารางเวรไม่สำเร็จ: " + error.message);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const changesOf = (cover: AbsenceCover, choice: string) =>
+    choice === PLAN_CHOICE ? cover.changes : coverChanges(cover, doctor.id, choice || null);
+  const finalChanges = covers ? covers.flatMap((cover, i) => changesOf(cover, choices[i])) : [];
+
+  // Hard rules still broken by the whole plan, including the admin's picks
+  const remaining = useMemo(
+    () => (finalChanges.length > 0 ? findIntroducedViolations(savedDays, finalChanges, withAbsence, config) : []),
+    [covers, choices, savedDays, withAbsence, config]
+  );
+
+  const save = async (applyPlan: boolean) => {
+    setIsSaving(true);
+    try {
+      // Only the changed cells are sent; the server rejects them if the schedule changed since "check"
+      const changes = applyPlan ? finalChanges : [];
+      const revisions = await dataService.saveAbsence(doctor.id, entries, changes);
+      if (changes.length > 0) onScheduleChanged?.(changes, revisions);
+      setDoctors(prev => prev.map(d => (d.id === doctor.id ? addUnavailability(d, entries) : d)));
+      onClose();
+    } catch (error: any) {
+      alert("บันทึกไม่สำเร็จ: " + error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // "เวรบ่าย สามัญ: A → B" for every changed cell of a proposal
+  const describeChanges = (changes: CellChange[]) => changes.map(c =>
+    `เวร${getShiftName(config.shifts, c.shift)} ${wardName(c.ward)}: ${nameOf(c.from)} → ${nameOf(c.to)}`
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2">
+            <UserX className="text-red-500" size={20} />
+            แจ้งหยุดกะทันหัน: {doctor.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-lg transition"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">ตั้งแต่วันที่</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  if (e.target.value > endDate) setEndDate(e.target.value);
+                  setCovers(null);
+                }}
+                className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">ถึงวันที่</label>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => { setEndDate(e.target.value); setCovers(null); }}
+                className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-1.5">
+            {LEAVE_TYPES.map(t => (
+              <button
+                key={t.key}
+                type="button"
+                onClick={() => { setType(t.key); setCovers(null); }}
+                className={`px-3 py-1.5 rounded-full text-xs font-medium border transition ${type === t.key ? 'border-medical-600 bg-medical-600 text-white' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+
+          {!covers && (
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <p className="text-xs text-gray-500">
+                {dayCount > MAX_ABSENCE_DAYS ? `ระบุได้ไม่เกิน ${MAX_ABSENCE_DAYS} วัน` : dayCount > 0 ? `รวม ${dayCount} วัน` : ''}
+              </p>
+              <button
+                onClick={checkImpact}
+                disabled={!isValid || isChecking}
+                className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium flex items-center justify-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isChecking ? <Loader2 size={16} className="animate-spin" /> : <Search size={16} />} ตรวจสอบเวรที่ได้รับผลกระทบ
+              </button>
+            </div>
+          )}
+
+          {covers && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-gray-700">
+                เวรที่ได้รับผลกระทบ ({covers.length}) · เดือนนี้และเดือนถัดไปที่บันทึกแล้ว
+              </h4>
+
+              {covers.length === 0 && (
+                <p className="text-sm text-gray-400 text-center py-2">ไม่มีเวรที่จัดไว้ในช่วงนี้</p>
+              )}
+
+              {covers.map((cover, i) => {
+                const kind = KIND_STYLES[cover.kind];
+                const choice = choices[i];
+                return (
+                  <div key={`${cover.date}-${cover.cells.join()}`} className="p-3 border border-gray-200 rounded-xl space-y-2">
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                      <div>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-semibold text-gray-800">{format(parseISO(cover.date), 'EEE d MMM yy', { locale: th })}</span>
+                          {choice === PLAN_CHOICE && (
+                            <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${kind.className}`}>{kind.label}</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-0.5">
+                          {cover.cells.map(([s, w]) => `เวร${getShiftName(config.shifts, s)} ${wardName(w)}`).join(', ')}
+                        </div>
+                      </div>
+                      <select
+                        value={choice}
+                        onChange={(e) => setChoices(prev => prev.map((c, k) => (k === i ? e.target.value : c)))}
+                        className="w-full md:w-56 p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                      >
+                        <option value={PLAN_CHOICE}>ตามแผนที่เสนอ</option>
+                        {cover.options.map(o => <option key={o.doctorId} value={o.doctorId}>{nameOf(o.doctorId)}</option>)}
+                        <option value="">- เว้นว่างไว้ -</option>
+                      </select>
+                    </div>
+                    <div className="text-xs text-gray-600 space-y-0.5">
+                      {describeChanges(changesOf(cover, choice)).map(text => <p key={text}>{text}</p>)}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {remaining.length > 0 && (
+                <div className="text-sm bg-red-50 text-red-700 p-3 rounded-lg space-y-1">
+                  {remaining.map((v, i) => (
+                    <p key={i} className="flex items-start gap-1.5">
+                      <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" /> {v.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-start gap-2 text-xs text-gray-500 bg-gray-50 p-3 rounded-lg">
+                <Info size={14} className="mt-0.5 text-medical-600 flex-shrink-0" />
+                <p>แผนที่เสนอเปลี่ยนช่องอื่นให้น้อยที่สุด: ใช้แพทย์ที่ว่างแทนก่อน ถ้าไม่มีใครแทนได้โดยไม่ผิดกฎจึงสลับกับแพทย์ที่อยู่เวรวันนั้น</p>
+              </div>
+
+              <div className="flex flex-col md:flex-row justify-end gap-2">
+                <button
+                  onClick={() => save(false)}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium disabled:opacity-50"
+                >
+                  บันทึกเฉพาะวันลา
+                </button>
+                {covers.length > 0 && (
+                  <button
+                    onClick={() => save(true)}
+                    disabled={isSaving}
+                    className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium flex items-center justify-center gap-1 disabled:opacity-50"
+                  >
+                    {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />} บันทึกวันลาและแผนเวรใหม่
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AbsencePlanner;
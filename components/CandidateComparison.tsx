@@ -0,0 +1,165 @@
+import React, { useMemo } from 'react';
+import { DailySchedule, Doctor, QualityScore, ScheduleCandidate, ScheduleConfig } from '../types';
+import { GitCompare, X, Check, Trophy } from 'lucide-react';
+import { computeDoctorStats } from '../utils/scheduleStats';
+import { diffSchedules } from '../utils/scheduleDiff';
+
+interface Props {
+  candidates: ScheduleCandidate[];
+  current: DailySchedule[]; // Schedule on screen before generating
+  doctors: Doctor[];
+  config: ScheduleConfig;
+  onPick: (candidate: ScheduleCandidate) => void;
+  onCancel: () => void;
+}
+
+const SCORE_ROWS: { key: keyof QualityScore; label: string }[] = [
+  { key: 'restSpacing', label: 'วันพักระหว่างเวร' },
+  { key: 'holidayDistribution', label: 'การกระจายเวรวันหยุด' },
+  { key: 'wardBalance', label: 'สมดุลวอร์ด' }
+];
+
+const scoreColor = (value: number) =>
+  value >= 80 ? 'text-green-600' : value >= 50 ? 'text-amber-600' : 'text-red-600';
+
+const CandidateComparison: React.FC<Props> = ({ candidates, current, doctors, config, onPick, onCancel }) => {
+  const best = candidates.reduce((top, c) => (c.quality.total > top.quality.total ? c : top), candidates[0]);
+  const activeDoctors = doctors.filter(d => d.active);
+
+  const stats = useMemo(
+    () => candidates.map(c => new Map(computeDoctorStats(c.result.schedule, doctors).map(s => [s.doctorId, s]))),
+    [candidates, doctors]
+  );
+  const changed = useMemo(() => candidates.map(c => diffSchedules(current, c.result.schedule).length), [candidates, current]);
+
+  // Summary of one doctor's duties in one candidate
+  const describe = (index: number, doctorId: string) => {
+    const s = stats[index].get(doctorId);
+    if (!s) return '-';
+    const wards = config.wards.map(w => `${w.name} ${s.wardShifts[w.id] || 0}`).join(' / ');
+    return `${s.dutyDays} วัน · หยุด ${s.holidayDays} · ${wards}`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+          <div>
+            <h3 className="font-bold text-gray-800 flex items-center gap-2">
+              <GitCompare className="text-medical-600" size={20} />
+              เปรียบเทียบตารางที่สร้าง ({candidates.length} แบบ)
+            </h3>
+            <p className="text-xs text-gray-500 mt-1">เลือกตารางที่ต้องการใช้ ตารางปัจจุบันจะไม่เปลี่ยนจนกว่าจะเลือก</p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-lg transition"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white shadow-sm">
+              <tr>
+                <th className="p-3 text-left text-xs font-semibold text-gray-500 w-48"></th>
+                {candidates.map((c, i) => (
+                  <th key={c.id} className={`p-3 text-center ${c === best ? 'bg-medical-50' : ''}`}>
+                    <div className="font-bold text-gray-800 flex items-center justify-center gap-1">
+                      {c === best && <Trophy size={14} className="text-amber-500" />} แบบที่ {i + 1}
+                    </div>
+                    <div className={`text-2xl font-bold ${scoreColor(c.quality.total)}`}>{c.quality.total}</div>
+                    <div className="text-[11px] text-gray-400 font-normal">คะแนนรวม / 100</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              <tr>
+                <td className="p-3 text-gray-600">ผิดกฎ (STRICT RULES)</td>
+                {candidates.map(c => (
+                  <td key={c.id} className={`p-3 text-center font-semibold ${c.quality.hardViolations > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {c.quality.hardViolations > 0 ? `${c.quality.hardViolations} ข้อ` : 'ไม่มี'}
+                  </td>
+                ))}
+              </tr>
+              {SCORE_ROWS.map(row => (
+                <tr key={row.key}>
+                  <td className="p-3 text-gray-600">{row.label}</td>
+                  {candidates.map(c => (
+                    <td key={c.id} className={`p-3 text-center font-semibold ${scoreColor(c.quality[row.key])}`}>
+                      {c.quality[row.key]}
+                      {row.key === 'restSpacing' && (
+                        <div className="text-[11px] text-gray-400 font-normal">ติดกัน {c.quality.consecutiveDays} · พัก 1 วัน {c.quality.shortRests}</div>
+                      )}
+                      {row.key === 'holidayDistribution' && (
+                        <div className="text-[11px] text-gray-400 font-normal">SD {c.quality.holidaySpread} · ไม่ได้เวรหยุด {c.quality.noHoliday} คน</div>
+                      )}
+                      {row.key === 'wardBalance' && (
+                        <div className="text-[11px] text-gray-400 font-normal">ไม่สมดุล {c.quality.wardImbalance} คน</div>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr>
+                <td className="p-3 text-gray-600">ช่องที่เปลี่ยนจากตารางปัจจุบัน</td>
+                {candidates.map((c, i) => (
+                  <td key={c.id} className="p-3 text-center text-gray-700">{changed[i]}</td>
+                ))}
+              </tr>
+
+              <tr className="bg-gray-50">
+                <td colSpan={candidates.length + 1} className="px-3 py-2 text-xs font-bold text-gray-500 uppercase">
+                  เวรของแพทย์แต่ละคน (ไฮไลต์ = ต่างกันระหว่างแต่ละแบบ)
+                </td>
+              </tr>
+              {activeDoctors.map(doctor => {
+                const summaries = candidates.map((_, i) => describe(i, doctor.id));
+                const differs = new Set(summaries).size > 1;
+                return (
+                  <tr key={doctor.id}>
+                    <td className="p-3">
+                      <div className="flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-full border border-gray-300 flex-shrink-0" style={{ backgroundColor: doctor.color }} />
+                        <span className="text-gray-700">{doctor.name}</span>
+                      </div>
+                    </td>
+                    {summaries.map((summary, i) => (
+                      <td key={candidates[i].id} className={`p-3 text-center text-xs ${differs ? 'bg-amber-50 text-amber-800' : 'text-gray-500'}`}>
+                        {summary}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 p-4 border-t border-gray-200 bg-gray-50">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium"
+          >
+            ยกเลิก
+          </button>
+          {candidates.map((c, i) => (
+            <button
+              key={c.id}
+              onClick={() => onPick(c)}
+              className={`px-4 py-2 rounded-lg transition text-sm font-medium flex items-center gap-1 ${c === best
+                ? 'bg-medical-600 text-white hover:bg-medical-700'
+                : 'bg-white border border-medical-200 text-medical-700 hover:bg-medical-50'}`}
+            >
+              <Check size={14} /> ใช้แบบที่ {i + 1}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CandidateComparison;
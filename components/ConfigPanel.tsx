@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import { ScheduleConfig } from '../types';
-import { Calendar, Info, X, Trash2, Save } from 'lucide-react';
+import { Calendar, Info, X, Trash2, Save, ShieldCheck } from 'lucide-react';
 import { getDaysInMonth, format } from 'date-fns';
 import th from 'date-fns/locale/th';
 
@@ -247,6 +247,25 @@ const ConfigPanel: React.FC<Props> = ({ config, setConfig, isAdmin }) => {
         </div>
       </div>
 
+      {/* Swap Settings (Admin Only) */}
+      {isAdmin && (
+        <div className="mt-6 bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h3 className="text-sm font-bold text-gray-700 mb-3">การแลกเวร</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.swapApprovalRequired}
+              onChange={(e) => setConfig({ ...config, swapApprovalRequired: e.target.checked })}
+              className="rounded text-medical-600 focus:ring-medical-500"
+            />
+            <ShieldCheck size={16} className="text-medical-600" /> ต้องให้ผู้ดูแลระบบอนุมัติก่อนเปลี่ยนตารางเวร
+          </label>
+          <p className="text-xs text-gray-500 mt-2 ml-6">
+            หากไม่เลือก การแลกเวรจะมีผลทันทีเมื่อแพทย์อีกฝ่ายตอบรับ
+          </p>
+        </div>
+      )}
+
       {/* Holiday Edit Modal (Admin Only) */}
       {selectedDate && isAdmin && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
@@ -1,15 +1,22 @@
 
 import React, { useState } from 'react';
-import { Doctor, ScheduleConfig } from '../types';
-import { Plus, Trash2, User, Phone, Search, UserPlus, CalendarX, X, Power, ChevronLeft, ChevronRight } from 'lucide-react';
+import { CellChange, Doctor, DoctorQuota, DraftRevisions, LeaveType, ScheduleConfig, ShiftPeriod, UnavailabilityEntry } from '../types';
+import { Plus, Trash2, User, Phone, Search, UserPlus, CalendarX, X, Power, ChevronLeft, ChevronRight, SlidersHorizontal, BadgeCheck, UserX } from 'lucide-react';
 import { format, getDaysInMonth } from 'date-fns';
 import th from 'date-fns/locale/th';
+import { collectTags, getShiftName } from '../utils/scheduleCells';
+import { LEAVE_TYPES, WEEKDAY_LABELS, describeUnavailability, getEntriesOn, getLeaveLabel, getUnavailability, sameShifts } from '../utils/availability';
+import TagInput from './TagInput';
+import PairingConstraintManager from './PairingConstraintManager';
+import AbsencePlanner from './AbsencePlanner';
 
 interface Props {
   doctors: Doctor[];
   setDoctors: React.Dispatch<React.SetStateAction<Doctor[]>>;
   config: ScheduleConfig;
+  setConfig: React.Dispatch<React.SetStateAction<ScheduleConfig>>;
   isAdmin: boolean;
+  onScheduleChanged?: (changes: CellChange[], revisions: DraftRevisions) => void; // Saved schedule changed by an absence re-plan
 }
 
 const DOCTOR_COLORS = [
@@ -45,11 +52,75 @@ const DOCTOR_COLORS = [
   '#D7F9F1'  // Ice Blue
 ];
 
-const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }) => {
+type CalendarMode = 'unavailable' | 'preferOn' | 'preferOff';
+
+const CALENDAR_MODES: { key: CalendarMode; label: string; hint: string }[] = [
+  { key: 'unavailable', label: 'ไม่ว่าง', hint: 'เลือกประเภทและเวรที่ไม่ว่าง แล้วคลิกที่วันที่ (ห้ามจัดเวร)' },
+  { key: 'preferOn', label: 'อยากอยู่เวร', hint: 'คลิกที่วันที่อยากอยู่เวร (ระบบจะพยายามจัดให้)' },
+  { key: 'preferOff', label: 'ไม่อยากอยู่เวร', hint: 'คลิกที่วันที่ไม่อยากอยู่เวร (ระบบจะพยายามเลี่ยง)' }
+];
+
+// Preferences are plain date lists; a date can only be in one of them and not on a whole day off
+const PREFERENCE_MODES: { key: Exclude<CalendarMode, 'unavailable'>; field: 'preferredDates' | 'preferredOffDates'; label: string; activeClass: string }[] = [
+  { key: 'preferOn', field: 'preferredDates', label: 'อยากอยู่เวร', activeClass: 'bg-green-500 text-white' },
+  { key: 'preferOff', field: 'preferredOffDates', label: 'ไม่อยากอยู่เวร', activeClass: 'bg-amber-400 text-white' }
+];
+
+const LEAVE_CLASSES: Record<LeaveType, string> = {
+  'annual-leave': 'bg-red-500 text-white',
+  conference: 'bg-blue-500 text-white',
+  sick: 'bg-purple-500 text-white',
+  'post-call': 'bg-slate-500 text-white'
+};
+
+const QUOTA_FIELDS: { key: keyof DoctorQuota; label: string }[] = [
+  { key: 'minDutyDays', label: 'วันอยู่เวรขั้นต่ำ' },
+  { key: 'maxDutyDays', label: 'วันอยู่เวรสูงสุด' },
+  { key: 'maxHolidayDays', label: 'วันอยู่เวรวันหยุดสูงสุด' },
+  { key: 'maxIcuDays', label: 'วันอยู่เวร ICU สูงสุด' }
+];
+
+const hasQuota = (quota?: DoctorQuota) => !!quota && Object.values(quota).some(v => v !== undefined);
+
+// Short summary for the table, e.g. "4-8 วัน · หยุด ≤2"
+const formatQuota = (quota?: DoctorQuota) => {
+  if (!quota || !hasQuota(quota)) return 'ไม่จำกัด';
+  const parts: string[] = [];
+  const { minDutyDays: min, maxDutyDays: max } = quota;
+  if (min !== undefined && max !== undefined) parts.push(`${min}-${max} วัน`);
+  else if (min !== undefined) parts.push(`≥${min} วัน`);
+  else if (max !== undefined) parts.push(`≤${max} วัน`);
+  if (quota.maxHolidayDays !== undefined) parts.push(`หยุด ≤${quota.maxHolidayDays}`);
+  if (quota.maxIcuDays !== undefined) parts.push(`ICU ≤${quota.maxIcuDays}`);
+  return parts.join(' · ');
+};
+
+// Doctor has any standing or date-specific unavailability
+const hasBlocks = (doc: Doctor) =>
+  doc.unavailability?.length > 0 || !!doc.unavailableWeekdays?.length || !!doc.employmentStart || !!doc.employmentEnd;
+
+// Short summary for the leave button, e.g. "3 วัน · ทุก อ,พฤ"
+const formatBlocks = (doc: Doctor) => {
+  const parts: string[] = [];
+  if (doc.unavailability?.length > 0) parts.push(`${new Set(doc.unavailability.map(e => e.date)).size} วัน`);
+  if (doc.unavailableWeekdays?.length) parts.push(`ทุก ${[...doc.unavailableWeekdays].sort().map(d => WEEKDAY_LABELS[d]).join(',')}`);
+  if (doc.employmentStart || doc.employmentEnd) parts.push('มีช่วงปฏิบัติงาน');
+  return parts.join(' · ');
+};
+
+const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, setConfig, isAdmin, onScheduleChanged }) => {
   const [newName, setNewName] = useState('');
   const [newPhone, setNewPhone] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedDocForLeave, setSelectedDocForLeave] = useState<Doctor | null>(null);
+  const [calendarMode, setCalendarMode] = useState<CalendarMode>('unavailable');
+  const [leaveType, setLeaveType] = useState<LeaveType>('annual-leave');
+  const [leaveShifts, setLeaveShifts] = useState<ShiftPeriod[]>([]); // Empty = whole day
+  const [selectedDocForQuota, setSelectedDocForQuota] = useState<Doctor | null>(null);
+  const [quotaDraft, setQuotaDraft] = useState<DoctorQuota>({});
+  const [selectedDocForTags, setSelectedDocForTags] = useState<Doctor | null>(null);
+  const [tagsDraft, setTagsDraft] = useState<string[]>([]);
+  const [absentDoctor, setAbsentDoctor] = useState<Doctor | null>(null);
   
   // State for Modal Calendar View
   const [modalConfig, setModalConfig] = useState<{year: number, month: number}>({ 
@@ -68,7 +139,7 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
       id: crypto.randomUUID(),
       name: newName,
       phone: newPhone,
-      unavailableDates: [],
+      unavailability: [],
       active: true, // Default to active
       color: color
     };
@@ -80,6 +151,8 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
   const removeDoctor = (id: string) => {
     if(window.confirm('ต้องการลบรายชื่อนี้ใช่หรือไม่?')) {
       setDoctors(doctors.filter(d => d.id !== id));
+      const pairingConstraints = config.pairingConstraints.filter(c => c.doctorId !== id && c.otherDoctorId !== id);
+      if (pairingConstraints.length !== config.pairingConstraints.length) setConfig({ ...config, pairingConstraints });
     }
   };
 
@@ -89,8 +162,45 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
     ));
   };
 
+  const openQuotaModal = (doc: Doctor) => {
+    setSelectedDocForQuota(doc);
+    setQuotaDraft({ ...doc.quota });
+  };
+
+  const updateQuotaDraft = (key: keyof DoctorQuota, value: string) => {
+    const parsed = parseInt(value, 10);
+    setQuotaDraft(prev => ({ ...prev, [key]: Number.isNaN(parsed) || parsed < 0 ? undefined : parsed }));
+  };
+
+  const saveQuota = () => {
+    if (!selectedDocForQuota) return;
+    const { minDutyDays, maxDutyDays } = quotaDraft;
+    if (minDutyDays !== undefined && maxDutyDays !== undefined && minDutyDays > maxDutyDays) {
+      alert('วันอยู่เวรขั้นต่ำต้องไม่มากกว่าวันอยู่เวรสูงสุด');
+      return;
+    }
+    setDoctors(doctors.map(d =>
+      d.id === selectedDocForQuota.id ? { ...d, quota: quotaDraft } : d
+    ));
+    setSelectedDocForQuota(null);
+  };
+
+  const openTagsModal = (doc: Doctor) => {
+    setSelectedDocForTags(doc);
+    setTagsDraft(doc.qualifications || []);
+  };
+
+  const saveTags = () => {
+    if (!selectedDocForTags) return;
+    setDoctors(doctors.map(d =>
+      d.id === selectedDocForTags.id ? { ...d, qualifications: tagsDraft } : d
+    ));
+    setSelectedDocForTags(null);
+  };
+
   const openLeaveModal = (doc: Doctor) => {
     setSelectedDocForLeave(doc);
+    setCalendarMode('unavailable');
     // Initialize modal with current global config or current month
     setModalConfig({ year: config.year, month: config.month });
   };
@@ -109,23 +219,61 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
     setModalConfig({ month: newMonth, year: newYear });
   };
 
-  const toggleUnavailableDate = (doctor: Doctor, dateStr: string) => {
-    const isUnavailable = doctor.unavailableDates.includes(dateStr);
-    let newDates;
-    if (isUnavailable) {
-      newDates = doctor.unavailableDates.filter(d => d !== dateStr);
+  // Apply changes to the doctor and to the open modal so the UI refreshes immediately
+  const updateLeaveDoctor = (doctor: Doctor, changes: Partial<Doctor>) => {
+    setDoctors(doctors.map(d => 
+      d.id === doctor.id ? { ...d, ...changes } : d
+    ));
+    setSelectedDocForLeave(prev => prev ? { ...prev, ...changes } : null);
+  };
+
+  const toggleWeekday = (doctor: Doctor, weekday: number) => {
+    const current = doctor.unavailableWeekdays || [];
+    updateLeaveDoctor(doctor, {
+      unavailableWeekdays: current.includes(weekday) ? current.filter(d => d !== weekday) : [...current, weekday].sort()
+    });
+  };
+
+  // Keep the picked shifts in the configured order
+  const toggleLeaveShift = (shift: ShiftPeriod) => {
+    const next = leaveShifts.includes(shift) ? leaveShifts.filter(s => s !== shift) : [...leaveShifts, shift];
+    setLeaveShifts(config.shifts.map(s => s.id).filter(id => next.includes(id)));
+  };
+
+  const toggleCalendarDate = (doctor: Doctor, dateStr: string) => {
+    const entries = doctor.unavailability || [];
+    const changes: Partial<Doctor> = {};
+    const unmarkPreferences = (except?: CalendarMode) => PREFERENCE_MODES.forEach(m => {
+      const dates = doctor[m.field] || [];
+      if (m.key !== except && dates.includes(dateStr)) changes[m.field] = dates.filter(d => d !== dateStr);
+    });
+
+    if (calendarMode === 'unavailable') {
+      // Clicking the same kind of entry again clears the date, anything else replaces it
+      const isMarked = entries.some(e => e.date === dateStr && e.type === leaveType && sameShifts(e.shifts, leaveShifts));
+      const others = entries.filter(e => e.date !== dateStr);
+      changes.unavailability = isMarked
+        ? others
+        : [...others, { id: crypto.randomUUID(), date: dateStr, type: leaveType, shifts: leaveShifts.length > 0 ? leaveShifts : undefined }];
+      if (!isMarked && leaveShifts.length === 0) unmarkPreferences();
     } else {
-      newDates = [...doctor.unavailableDates, dateStr];
+      const mode = PREFERENCE_MODES.find(m => m.key === calendarMode)!;
+      const dates = doctor[mode.field] || [];
+      const isMarked = dates.includes(dateStr);
+      changes[mode.field] = isMarked ? dates.filter(d => d !== dateStr) : [...dates, dateStr];
+      if (!isMarked) {
+        unmarkPreferences(mode.key);
+        changes.unavailability = entries.filter(e => e.date !== dateStr || !!e.shifts?.length);
+      }
     }
 
-    setDoctors(doctors.map(d => 
-      d.id === doctor.id ? { ...d, unavailableDates: newDates } : d
-    ));
-    
-    // Update local selection state so UI refreshes immediately
-    setSelectedDocForLeave(prev => prev ? { ...prev, unavailableDates: newDates } : null);
+    updateLeaveDoctor(doctor, changes);
   };
 
+  const describeEntry = (entry: UnavailabilityEntry) => entry.shifts?.length
+    ? `${getLeaveLabel(entry.type)} (เวร${entry.shifts.map(shift => getShiftName(config.shifts, shift)).join(', ')})`
+    : getLeaveLabel(entry.type);
+
   const filteredDoctors = doctors.filter(d => 
     d.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
     d.phone.includes(searchTerm)
@@ -204,20 +352,22 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
                   <th className="p-4 text-sm font-semibold text-gray-600 w-16 text-center">สถานะ</th>
                   <th className="p-4 text-sm font-semibold text-gray-600">ชื่อ-นามสกุล</th>
                   <th className="p-4 text-sm font-semibold text-gray-600">เบอร์ติดต่อ</th>
+                  <th className="p-4 text-sm font-semibold text-gray-600">คุณสมบัติ</th>
                   <th className="p-4 text-sm font-semibold text-gray-600 text-center">วันไม่ว่าง</th>
+                  <th className="p-4 text-sm font-semibold text-gray-600 text-center">โควตา/เดือน</th>
                   {isAdmin && <th className="p-4 text-sm font-semibold text-gray-600 text-right">จัดการ</th>}
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
                 {doctors.length === 0 ? (
                   <tr>
-                    <td colSpan={isAdmin ? 5 : 4} className="p-8 text-center text-gray-400">
+                    <td colSpan={isAdmin ? 7 : 6} className="p-8 text-center text-gray-400">
                       ยังไม่มีข้อมูลแพทย์
                     </td>
                   </tr>
                 ) : filteredDoctors.length === 0 ? (
                   <tr>
-                    <td colSpan={isAdmin ? 5 : 4} className="p-8 text-center text-gray-400">
+                    <td colSpan={isAdmin ? 7 : 6} className="p-8 text-center text-gray-400">
                       ไม่พบข้อมูลที่ค้นหา
                     </td>
                   </tr>
@@ -254,6 +404,20 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
                       <td className={`p-4 font-mono text-sm ${doc.active ? 'text-gray-600' : 'text-gray-400'}`}>
                         {doc.phone || '-'}
                       </td>
+                      <td className="p-4">
+                        <button
+                          onClick={() => openTagsModal(doc)}
+                          disabled={!isAdmin}
+                          className={`flex flex-wrap items-center gap-1 text-left ${isAdmin ? 'cursor-pointer' : 'cursor-default'}`}
+                          title={isAdmin ? 'กำหนดคุณสมบัติ' : undefined}
+                        >
+                          {doc.qualifications?.length ? doc.qualifications.map(tag => (
+                            <span key={tag} className="text-xs font-medium text-medical-700 bg-medical-50 border border-medical-200 px-2 py-0.5 rounded-full">{tag}</span>
+                          )) : (
+                            <span className="inline-flex items-center gap-1 text-xs text-gray-400"><BadgeCheck size={14} /> -</span>
+                          )}
+                        </button>
+                      </td>
                       <td className="p-4 text-center">
                         {/* AVAILABLE FOR EVERYONE TO EDIT LEAVE */}
                         <button
@@ -262,20 +426,43 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
                           className={`
                             inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium transition
                             ${!doc.active ? 'opacity-50 cursor-not-allowed bg-gray-100 text-gray-400' : 
-                               doc.unavailableDates?.length > 0 
+                               hasBlocks(doc) 
                                 ? 'bg-red-100 text-red-700 hover:bg-red-200' 
                                 : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
                             }
                           `}
                         >
                           <CalendarX size={14} />
-                          {doc.unavailableDates?.length > 0 
-                             ? `${doc.unavailableDates.length} วัน`
+                          {hasBlocks(doc) 
+                             ? formatBlocks(doc)
                              : 'แจ้งวันไม่อยู่เวร'}
                         </button>
                       </td>
+                      <td className="p-4 text-center">
+                        <button
+                          onClick={() => openQuotaModal(doc)}
+                          disabled={!isAdmin}
+                          className={`
+                            inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium transition
+                            ${hasQuota(doc.quota) ? 'bg-medical-50 text-medical-700' : 'bg-gray-100 text-gray-500'}
+                            ${isAdmin ? 'hover:bg-medical-100' : 'cursor-default'}
+                          `}
+                          title={isAdmin ? 'กำหนดโควตาเวรต่อเดือน' : undefined}
+                        >
+                          <SlidersHorizontal size={14} />
+                          {formatQuota(doc.quota)}
+                        </button>
+                      </td>
                       {isAdmin && (
-                        <td className="p-4 text-right">
+                        <td className="p-4 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => setAbsentDoctor(doc)}
+                            disabled={!doc.active}
+                            className="text-gray-400 hover:text-red-600 hover:bg-red-50 p-2 rounded-lg transition disabled:opacity-30 disabled:cursor-not-allowed"
+                            title="แจ้งหยุดกะทันหัน"
+                          >
+                            <UserX size={18} />
+                          </button>
                           <button
                             onClick={() => removeDoctor(doc.id)}
                             className="text-gray-400 hover:text-red-600 hover:bg-red-50 p-2 rounded-lg transition"
@@ -334,6 +521,13 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
                              </button>
                           </div>
                           
+                          {!!doc.qualifications?.length && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {doc.qualifications.map(tag => (
+                                <span key={tag} className="text-[10px] font-medium text-medical-700 bg-medical-50 border border-medical-200 px-1.5 py-0.5 rounded-full">{tag}</span>
+                              ))}
+                            </div>
+                          )}
                           {!doc.active && <span className="text-[10px] text-red-400 mt-1 block">(ไม่ได้ปฏิบัติงาน)</span>}
                        </div>
                     </div>
@@ -345,18 +539,48 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
                           disabled={!doc.active}
                           className={`flex-1 flex items-center justify-center gap-1.5 py-2 px-3 rounded-lg text-xs font-medium transition
                             ${!doc.active ? 'opacity-50 cursor-not-allowed bg-gray-100 text-gray-400' : 
-                               doc.unavailableDates?.length > 0 
+                               hasBlocks(doc) 
                                 ? 'bg-red-50 text-red-700 border border-red-200' 
                                 : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-50'
                             }
                           `}
                        >
                           <CalendarX size={14} />
-                          {doc.unavailableDates?.length > 0 
-                             ? `ลา ${doc.unavailableDates.length} วัน`
+                          {hasBlocks(doc) 
+                             ? `ลา ${formatBlocks(doc)}`
                              : 'แจ้งวันไม่อยู่เวร'}
                        </button>
 
+                       {isAdmin && (
+                          <button
+                            onClick={() => openQuotaModal(doc)}
+                            className="flex-shrink-0 w-10 flex items-center justify-center rounded-lg bg-white text-medical-700 border border-gray-200 hover:bg-gray-50 transition"
+                            title={formatQuota(doc.quota)}
+                          >
+                            <SlidersHorizontal size={16} />
+                          </button>
+                       )}
+
+                       {isAdmin && (
+                          <button
+                            onClick={() => openTagsModal(doc)}
+                            className="flex-shrink-0 w-10 flex items-center justify-center rounded-lg bg-white text-medical-700 border border-gray-200 hover:bg-gray-50 transition"
+                            title="กำหนดคุณสมบัติ"
+                          >
+                            <BadgeCheck size={16} />
+                          </button>
+                       )}
+
+                       {isAdmin && doc.active && (
+                          <button
+                            onClick={() => setAbsentDoctor(doc)}
+                            className="flex-shrink-0 w-10 flex items-center justify-center rounded-lg bg-white text-red-600 border border-gray-200 hover:bg-red-50 transition"
+                            title="แจ้งหยุดกะทันหัน"
+                          >
+                            <UserX size={16} />
+                          </button>
+                       )}
+
                        {isAdmin && (
                           <button
                             onClick={() => removeDoctor(doc.id)}
@@ -381,6 +605,114 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
         </div>
       </div>
 
+      <PairingConstraintManager doctors={doctors} config={config} setConfig={setConfig} isAdmin={isAdmin} />
+
+      {/* Quota Modal - ADMIN ONLY */}
+      {absentDoctor && (
+        <AbsencePlanner
+          doctor={absentDoctor}
+          doctors={doctors}
+          setDoctors={setDoctors}
+          config={config}
+          onScheduleChanged={onScheduleChanged}
+          onClose={() => setAbsentDoctor(null)}
+        />
+      )}
+
+      {selectedDocForQuota && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+              <h3 className="font-bold text-gray-800 flex items-center gap-2">
+                <SlidersHorizontal className="text-medical-600" size={20} />
+                โควตาเวรต่อเดือน: {selectedDocForQuota.name}
+              </h3>
+              <button
+                onClick={() => setSelectedDocForQuota(null)}
+                className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-lg transition"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-500">เว้นว่างไว้หากไม่ต้องการจำกัด (นับเป็นจำนวนวันที่อยู่เวร)</p>
+              <div className="grid grid-cols-2 gap-4">
+                {QUOTA_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">{field.label}</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={31}
+                      placeholder="ไม่จำกัด"
+                      className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                      value={quotaDraft[field.key] ?? ''}
+                      onChange={(e) => updateQuotaDraft(field.key, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end gap-2 pt-2">
+                <button
+                  onClick={() => setSelectedDocForQuota(null)}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium"
+                >
+                  ยกเลิก
+                </button>
+                <button
+                  onClick={saveQuota}
+                  className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium"
+                >
+                  บันทึก
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Qualifications Modal - ADMIN ONLY */}
+      {selectedDocForTags && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+              <h3 className="font-bold text-gray-800 flex items-center gap-2">
+                <BadgeCheck className="text-medical-600" size={20} />
+                คุณสมบัติ: {selectedDocForTags.name}
+              </h3>
+              <button
+                onClick={() => setSelectedDocForTags(null)}
+                className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-lg transition"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-500">แพทย์จะถูกจัดได้เฉพาะวอร์ด/ช่วงเวรที่มีคุณสมบัติครบตามที่กำหนดในหน้าตั้งค่าเวร (เช่น ICU, แพทย์อาวุโส)</p>
+              <TagInput tags={tagsDraft} onChange={setTagsDraft} suggestions={collectTags(doctors, config)} />
+
+              <div className="flex justify-end gap-2 pt-2">
+                <button
+                  onClick={() => setSelectedDocForTags(null)}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium"
+                >
+                  ยกเลิก
+                </button>
+                <button
+                  onClick={saveTags}
+                  className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium"
+                >
+                  บันทึก
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Leave Management Modal */}
       {selectedDocForLeave && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
@@ -388,7 +720,7 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
             <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
               <h3 className="font-bold text-gray-800 flex items-center gap-2">
                 <CalendarX className="text-red-500" size={20} />
-                ระบุวันไม่ว่าง: {selectedDocForLeave.name}
+                ระบุวันไม่ว่าง / วันที่ต้องการ: {selectedDocForLeave.name}
               </h3>
               <button 
                 onClick={() => setSelectedDocForLeave(null)}
@@ -398,7 +730,57 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
               </button>
             </div>
             
-            <div className="p-6">
+            <div className="p-6 max-h-[85vh] overflow-y-auto">
+              <div className="mb-5 space-y-3 pb-5 border-b border-gray-100">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-600 mb-1.5">ไม่อยู่เวรทุกวัน</label>
+                  <div className="grid grid-cols-7 gap-2">
+                    {WEEKDAY_LABELS.map((label, weekday) => {
+                      const blocked = selectedDocForLeave.unavailableWeekdays?.includes(weekday);
+                      return (
+                        <button
+                          key={weekday}
+                          onClick={() => toggleWeekday(selectedDocForLeave, weekday)}
+                          className={`py-1.5 rounded-lg text-xs font-medium transition ${blocked ? 'bg-gray-600 text-white' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'}`}
+                        >
+                          {label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-semibold text-gray-600 mb-1.5">ช่วงปฏิบัติงาน</label>
+                  {isAdmin ? (
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="date"
+                        value={selectedDocForLeave.employmentStart || ''}
+                        max={selectedDocForLeave.employmentEnd}
+                        onChange={(e) => updateLeaveDoctor(selectedDocForLeave, { employmentStart: e.target.value || undefined })}
+                        className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+                        title="วันเริ่มปฏิบัติงาน"
+                      />
+                      <input
+                        type="date"
+                        value={selectedDocForLeave.employmentEnd || ''}
+                        min={selectedDocForLeave.employmentStart}
+                        onChange={(e) => updateLeaveDoctor(selectedDocForLeave, { employmentEnd: e.target.value || undefined })}
+                        className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+                        title="วันสิ้นสุดปฏิบัติงาน"
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-600">
+                      {selectedDocForLeave.employmentStart || selectedDocForLeave.employmentEnd
+                        ? `${selectedDocForLeave.employmentStart || 'ไม่ระบุ'} ถึง ${selectedDocForLeave.employmentEnd || 'ไม่ระบุ'}`
+                        : 'ไม่จำกัด'}
+                    </p>
+                  )}
+                </div>
+              </div>
+
               <div className="flex items-center justify-center gap-4 mb-4">
                  <button 
                     onClick={() => changeModalMonth(-1)}
@@ -417,10 +799,55 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
                  </button>
               </div>
               
-              <p className="text-center text-sm text-gray-500 mb-4">คลิกที่วันที่ต้องการระบุว่าไม่ว่าง</p>
+              <div className="flex bg-gray-100 p-1 rounded-lg mb-3">
+                {CALENDAR_MODES.map(mode => (
+                  <button
+                    key={mode.key}
+                    onClick={() => setCalendarMode(mode.key)}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${calendarMode === mode.key ? 'bg-white text-medical-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+
+              {calendarMode === 'unavailable' && (
+                <div className="space-y-2 mb-3">
+                  <div className="flex flex-wrap justify-center gap-1.5">
+                    {LEAVE_TYPES.map(t => (
+                      <button
+                        key={t.key}
+                        onClick={() => setLeaveType(t.key)}
+                        className={`px-2.5 py-1 rounded-full text-xs font-medium transition ${leaveType === t.key ? LEAVE_CLASSES[t.key] : 'bg-gray-50 text-gray-600 hover:bg-gray-100'}`}
+                      >
+                        {t.label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap justify-center gap-1.5">
+                    <button
+                      onClick={() => setLeaveShifts([])}
+                      className={`px-2.5 py-1 rounded-full text-xs font-medium border transition ${leaveShifts.length === 0 ? 'border-gray-700 bg-gray-700 text-white' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                    >
+                      ทั้งวัน
+                    </button>
+                    {config.shifts.map(shift => (
+                      <button
+                        key={shift.id}
+                        onClick={() => toggleLeaveShift(shift.id)}
+                        className={`px-2.5 py-1 rounded-full text-xs font-medium border transition ${leaveShifts.includes(shift.id) ? 'border-gray-700 bg-gray-700 text-white' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                      >
+                        เวร{shift.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <p className="text-center text-sm text-gray-500 mb-4">{CALENDAR_MODES.find(m => m.key === calendarMode)!.hint}</p>
 
               <div className="grid grid-cols-7 gap-2 mb-2">
-                {['อา', 'จ', 'อ', 'พ', 'พฤ', 'ศ', 'ส'].map((d, i) => (
+                {WEEKDAY_LABELS.map((d, i) => (
                   <div key={i} className="text-center text-xs font-bold text-gray-400">{d}</div>
                 ))}
               </div>
@@ -430,26 +857,59 @@ const DoctorManager: React.FC<Props> = ({ doctors, setDoctors, config, isAdmin }
                 {daysArray.map(day => {
                    const date = new Date(modalConfig.year, modalConfig.month, day);
                    const dateStr = format(date, 'yyyy-MM-dd');
-                   const isUnavailable = selectedDocForLeave.unavailableDates?.includes(dateStr);
+                   const entries = getEntriesOn(selectedDocForLeave, dateStr);
+                   const entry = entries[0];
+                   const preference = PREFERENCE_MODES.find(m => selectedDocForLeave[m.field]?.includes(dateStr));
+                   // Weekly days off and dates outside employment cannot be marked individually
+                   const standing = getUnavailability(selectedDocForLeave, dateStr);
+                   const blocked = standing === 'weekday' || standing === 'before-start' || standing === 'after-end' ? standing : null;
                    
                    return (
                      <button
                        key={day}
-                       onClick={() => toggleUnavailableDate(selectedDocForLeave, dateStr)}
+                       onClick={() => toggleCalendarDate(selectedDocForLeave, dateStr)}
+                       disabled={!!blocked}
                        className={`
-                         aspect-square rounded-lg flex items-center justify-center text-sm font-medium transition-all
-                         ${isUnavailable 
-                           ? 'bg-red-500 text-white shadow-md scale-105' 
+                         aspect-square rounded-lg flex flex-col items-center justify-center text-sm font-medium transition-all
+                         ${blocked
+                           ? 'bg-gray-200 text-gray-400 line-through cursor-not-allowed'
+                           : entry
+                           ? `${LEAVE_CLASSES[entry.type]} shadow-md ${calendarMode === 'unavailable' ? 'scale-105' : 'opacity-60'}`
+                           : preference 
+                           ? `${preference.activeClass} shadow-md ${preference.key === calendarMode ? 'scale-105' : 'opacity-60'}` 
                            : 'bg-gray-50 text-gray-700 hover:bg-gray-100'}
                        `}
+                       title={blocked
+                         ? describeUnavailability(selectedDocForLeave, blocked, dateStr)
+                         : [...entries.map(describeEntry), preference?.label].filter(Boolean).join(', ')}
                      >
                        {day}
+                       {!blocked && !!entry?.shifts?.length && (
+                         <span className="text-[9px] leading-none font-normal">
+                           {entry.shifts.map(sh => getShiftName(config.shifts, sh).charAt(0)).join('/')}
+                         </span>
+                       )}
                      </button>
                    );
                 })}
               </div>
               
-              <div className="mt-6 flex justify-end">
+              <div className="mt-6 flex items-center justify-between">
+                <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-gray-500 pr-3">
+                  {LEAVE_TYPES.map(t => (
+                    <span key={t.key} className="flex items-center gap-1">
+                      <span className={`w-2.5 h-2.5 rounded-sm ${LEAVE_CLASSES[t.key]}`}></span>{t.label}
+                    </span>
+                  ))}
+                  {PREFERENCE_MODES.map(mode => (
+                    <span key={mode.key} className="flex items-center gap-1">
+                      <span className={`w-2.5 h-2.5 rounded-sm ${mode.activeClass}`}></span>{mode.label}
+                    </span>
+                  ))}
+                  <span className="flex items-center gap-1">
+                    <span className="w-2.5 h-2.5 rounded-sm bg-gray-200"></span>ไม่อยู่เวรประจำ
+                  </span>
+                </div>
                 <button
                   onClick={() => setSelectedDocForLeave(null)}
                   className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition text-sm font-medium"
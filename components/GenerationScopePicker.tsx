@@ -0,0 +1,103 @@
+
+import React from 'react';
+import { GenerationScope, ScheduleConfig, WardKey } from '../types';
+import { Crop } from 'lucide-react';
+import { format, getDaysInMonth } from 'date-fns';
+
+interface Props {
+  config: ScheduleConfig;
+  scope: GenerationScope | null; // null = rebuild the whole month
+  setScope: (scope: GenerationScope | null) => void;
+  disabled?: boolean;
+}
+
+const GenerationScopePicker: React.FC<Props> = ({ config, scope, setScope, disabled = false }) => {
+  const monthStart = format(new Date(config.year, config.month, 1), 'yyyy-MM-dd');
+  const monthEnd = format(new Date(config.year, config.month, getDaysInMonth(new Date(config.year, config.month))), 'yyyy-MM-dd');
+  const wardOptions = config.wards.filter(w => w.active);
+
+  const enablePartial = () => {
+    setScope({ startDate: monthStart, endDate: monthEnd, wards: wardOptions.map(w => w.id) });
+  };
+
+  const toggleWard = (ward: WardKey) => {
+    if (!scope) return;
+    const wards = scope.wards.includes(ward)
+      ? scope.wards.filter(w => w !== ward)
+      : [...scope.wards, ward];
+    // At least one ward must stay selected
+    if (wards.length === 0) return;
+    setScope({ ...scope, wards });
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-3 bg-white p-3 rounded-xl border border-gray-200 shadow-sm text-sm">
+      <div className="flex items-center gap-2 font-semibold text-gray-700">
+        <Crop size={16} className="text-medical-600" /> ขอบเขตการสร้างตาราง
+      </div>
+
+      <div className="flex bg-gray-100 p-1 rounded-lg w-fit">
+        <button
+          onClick={() => setScope(null)}
+          disabled={disabled}
+          className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${!scope ? 'bg-white text-medical-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+        >
+          ทั้งเดือน
+        </button>
+        <button
+          onClick={enablePartial}
+          disabled={disabled}
+          className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${scope ? 'bg-white text-medical-700 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+        >
+          บางส่วน
+        </button>
+      </div>
+
+      {scope && (
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-1 text-gray-600">
+            ตั้งแต่
+            <input
+              type="date"
+              value={scope.startDate}
+              min={monthStart}
+              max={scope.endDate}
+              disabled={disabled}
+              onChange={(e) => e.target.value && setScope({ ...scope, startDate: e.target.value })}
+              className="p-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+            />
+          </label>
+          <label className="flex items-center gap-1 text-gray-600">
+            ถึง
+            <input
+              type="date"
+              value={scope.endDate}
+              min={scope.startDate}
+              max={monthEnd}
+              disabled={disabled}
+              onChange={(e) => e.target.value && setScope({ ...scope, endDate: e.target.value })}
+              className="p-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+            />
+          </label>
+          <div className="flex items-center gap-3">
+            {wardOptions.map(w => (
+              <label key={w.id} className="flex items-center gap-1 text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={scope.wards.includes(w.id)}
+                  disabled={disabled}
+                  onChange={() => toggleWard(w.id)}
+                  className="accent-medical-600"
+                />
+                {w.name}
+              </label>
+            ))}
+          </div>
+          <span className="text-xs text-gray-400">เวรนอกขอบเขตจะคงเดิม และใช้ประกอบการคำนวณวันพัก/ความสมดุล</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationScopePicker;
@@ -0,0 +1,351 @@
+
+import React, { useEffect, useState } from 'react';
+import { Doctor, LeaveRequest, LeaveRequestStatus, LeaveType, ScheduleConfig, ShiftPeriod, User } from '../types';
+import { Inbox, Send, Check, X, Loader2, Info, Trash2 } from 'lucide-react';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { dataService } from '../services/dataService';
+import { LEAVE_TYPES, addUnavailability, getLeaveLabel } from '../utils/availability';
+import { dayNumber, getShiftName } from '../utils/scheduleCells';
+
+interface Props {
+  doctors: Doctor[];
+  setDoctors: React.Dispatch<React.SetStateAction<Doctor[]>>;
+  config: ScheduleConfig;
+  user: User;
+}
+
+// Longest range one request may cover
+const MAX_REQUEST_DAYS = 62;
+
+const STATUS_STYLES: Record<LeaveRequestStatus, { label: string; className: string }> = {
+  pending: { label: 'รอพิจารณา', className: 'bg-amber-100 text-amber-700' },
+  approved: { label: 'อนุมัติแล้ว', className: 'bg-green-100 text-green-700' },
+  rejected: { label: 'ไม่อนุมัติ', className: 'bg-red-100 text-red-700' }
+};
+
+const formatDate = (date: string) => format(parseISO(date), 'd MMM yy', { locale: th });
+
+// "3 มี.ค. 68 - 5 มี.ค. 68" for consecutive days, otherwise a list
+const formatDates = (dates: string[]) => {
+  const sorted = [...dates].sort();
+  const consecutive = sorted.every((d, i) => i === 0 || dayNumber(d) === dayNumber(sorted[i - 1]) + 1);
+  if (sorted.length > 1 && consecutive) return `${formatDate(sorted[0])} - ${formatDate(sorted[sorted.length - 1])}`;
+  return sorted.map(formatDate).join(', ');
+};
+
+const LeaveRequestPanel: React.FC<Props> = ({ doctors, setDoctors, config, user }) => {
+  const isAdmin = user.role === 'admin';
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // New request form; linked doctors ask for themselves, admins may file for anyone
+  const [doctorId, setDoctorId] = useState(user.doctorId || '');
+  const isOwnDoctorOnly = !isAdmin && !!user.doctorId;
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [type, setType] = useState<LeaveType>('annual-leave');
+  const [shifts, setShifts] = useState<ShiftPeriod[]>([]); // Empty = whole day
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    let isActive = true;
+    dataService.getLeaveRequests()
+      .then(loaded => { if (isActive) setRequests(loaded); })
+      .catch(error => console.error("Failed to load leave requests:", error))
+      .finally(() => { if (isActive) setIsLoading(false); });
+    return () => { isActive = false; };
+  }, []);
+
+  const nameOf = (id: string) => doctors.find(d => d.id === id)?.name || '(ลบแล้ว)';
+  const describeShifts = (request: LeaveRequest) => request.shifts?.length
+    ? `เวร${request.shifts.map(s => getShiftName(config.shifts, s)).join(', ')}`
+    : 'ทั้งวัน';
+
+  const dayCount = startDate && endDate && endDate >= startDate ? dayNumber(endDate) - dayNumber(startDate) + 1 : 0;
+  const isValid = !!doctorId && dayCount > 0 && dayCount <= MAX_REQUEST_DAYS;
+
+  const toggleShift = (shift: ShiftPeriod) => {
+    const next = shifts.includes(shift) ? shifts.filter(s => s !== shift) : [...shifts, shift];
+    setShifts(config.shifts.map(s => s.id).filter(id => next.includes(id)));
+  };
+
+  const submitRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    setIsSubmitting(true);
+    try {
+      const dates = eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) }).map(d => format(d, 'yyyy-MM-dd'));
+      const created = await dataService.createLeaveRequest({
+        doctorId,
+        dates,
+        shifts: shifts.length > 0 ? shifts : undefined,
+        type,
+        note: note.trim() || undefined
+      });
+      setRequests(prev => [created, ...prev]);
+      setNote('');
+    } catch (error: any) {
+      alert("ส่งคำขอไม่สำเร็จ: " + error.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const reviewRequest = async (request: LeaveRequest, status: 'approved' | 'rejected') => {
+    let reviewNote: string | undefined;
+    if (status === 'rejected') {
+      const reason = window.prompt('เหตุผลที่ไม่อนุมัติ (ไม่บังคับ)');
+      if (reason === null) return;
+      reviewNote = reason.trim() || undefined;
+    }
+    setBusyId(request.id);
+    try {
+      const result = await dataService.reviewLeaveRequest(request.id, status, reviewNote);
+      setRequests(prev => prev.map(r => (r.id === request.id ? result.request : r)));
+      if (result.entries.length > 0) {
+        setDoctors(prev => prev.map(d => (d.id === request.doctorId ? addUnavailability(d, result.entries) : d)));
+      }
+    } catch (error: any) {
+      alert("บันทึกผลการพิจารณาไม่สำเร็จ: " + error.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const withdrawRequest = async (request: LeaveRequest) => {
+    if (!window.confirm('ต้องการยกเลิกคำขอนี้ใช่หรือไม่?')) return;
+    setBusyId(request.id);
+    try {
+      await dataService.deleteLeaveRequest(request.id);
+      setRequests(prev => prev.filter(r => r.id !== request.id));
+    } catch (error: any) {
+      alert("ยกเลิกคำขอไม่สำเร็จ: " + error.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Admins work through the oldest pending request first; others see their own requests
+  const visible = isAdmin
+    ? requests
+    : requests.filter(r => r.requestedBy === user.username || (!!user.doctorId && r.doctorId === user.doctorId));
+  const pending = visible.filter(r => r.status === 'pending').sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const reviewed = visible.filter(r => r.status !== 'pending');
+
+  const renderRequest = (request: LeaveRequest) => {
+    const status = STATUS_STYLES[request.status];
+    const isBusy = busyId === request.id;
+    return (
+      <div key={request.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-gray-200 rounded-xl bg-white">
+        <div className="min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-semibold text-gray-800">{nameOf(request.doctorId)}</span>
+            <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">{getLeaveLabel(request.type)}</span>
+            <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+          </div>
+          <div className="text-sm text-gray-600 mt-1">{formatDates(request.dates)} · {describeShifts(request)}</div>
+          {request.note && <div className="text-xs text-gray-500 mt-1">เหตุผล: {request.note}</div>}
+          <div className="text-[11px] text-gray-400 mt-1">
+            ส่งโดย {request.requestedBy} เมื่อ {format(new Date(request.createdAt), 'd MMM yy HH:mm', { locale: th })}
+            {request.reviewedBy && ` · พิจารณาโดย ${request.reviewedBy}`}
+            {request.reviewNote && ` · ${request.reviewNote}`}
+          </div>
+        </div>
+
+        {request.status === 'pending' && (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {isBusy && <Loader2 size={16} className="animate-spin text-gray-400" />}
+            {isAdmin ? (
+              <>
+                <button
+                  onClick={() => reviewRequest(request, 'rejected')}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-red-50 hover:text-red-700 transition text-xs font-medium flex items-center gap-1 disabled:opacity-50"
+                >
+                  <X size={14} /> ไม่อนุมัติ
+                </button>
+                <button
+                  onClick={() => reviewRequest(request, 'approved')}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-xs font-medium flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Check size={14} /> อนุมัติ
+                </button>
+              </>
+            ) : request.requestedBy === user.username && (
+              <button
+                onClick={() => withdrawRequest(request)}
+                disabled={isBusy}
+                className="text-gray-400 hover:text-red-600 p-1.5 hover:bg-red-50 rounded disabled:opacity-50"
+                title="ยกเลิกคำขอ"
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* New Request */}
+      <form onSubmit={submitRequest} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-3 md:p-6 border-b border-gray-200 bg-gray-50/50">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Send className="text-medical-600" /> ขอลา / แจ้งไม่ว่าง
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">คำขอจะมีผลกับการจัดเวรเมื่อผู้ดูแลระบบอนุมัติแล้ว</p>
+        </div>
+
+        <div className="p-3 md:p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">แพทย์</label>
+              <select
+                value={doctorId}
+                onChange={(e) => setDoctorId(e.target.value)}
+                disabled={isOwnDoctorOnly}
+                className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+              >
+                <option value="">- เลือกแพทย์ -</option>
+                {doctors.filter(d => d.active).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">ตั้งแต่วันที่</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  if (e.target.value > endDate) setEndDate(e.target.value);
+                }}
+                className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">ถึงวันที่</label>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">ประเภท</label>
+            <div className="flex flex-wrap gap-1.5">
+              {LEAVE_TYPES.map(t => (
+                <button
+                  key={t.key}
+                  type="button"
+                  onClick={() => setType(t.key)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-medium border transition ${type === t.key ? 'border-medical-600 bg-medical-600 text-white' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">เวรที่ไม่ว่าง</label>
+            <div className="flex flex-wrap gap-1.5">
+              <button
+                type="button"
+                onClick={() => setShifts([])}
+                className={`px-3 py-1.5 rounded-full text-xs font-medium border transition ${shifts.length === 0 ? 'border-gray-700 bg-gray-700 text-white' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+              >
+                ทั้งวัน
+              </button>
+              {config.shifts.map(shift => (
+                <button
+                  key={shift.id}
+                  type="button"
+                  onClick={() => toggleShift(shift.id)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-medium border transition ${shifts.includes(shift.id) ? 'border-gray-700 bg-gray-700 text-white' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                >
+                  เวร{shift.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">หมายเหตุ</label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="เช่น ประชุมวิชาการที่เชียงใหม่"
+              className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+            />
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <p className="text-xs text-gray-500">
+              {dayCount > MAX_REQUEST_DAYS ? `ขอได้ไม่เกิน ${MAX_REQUEST_DAYS} วันต่อคำขอ` : dayCount > 0 ? `รวม ${dayCount} วัน` : ''}
+            </p>
+            <button
+              type="submit"
+              disabled={!isValid || isSubmitting}
+              className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium flex items-center justify-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />} ส่งคำขอ
+            </button>
+          </div>
+        </div>
+      </form>
+
+      {/* Request List / Approval Queue */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-3 md:p-6 border-b border-gray-200 bg-gray-50/50">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Inbox className="text-medical-600" /> {isAdmin ? 'คำขอที่รอพิจารณา' : 'คำขอของฉัน'}
+            {pending.length > 0 && (
+              <span className="text-xs font-semibold bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full">{pending.length}</span>
+            )}
+          </h2>
+        </div>
+
+        <div className="p-3 md:p-6 space-y-3">
+          {isLoading && (
+            <div className="flex items-center justify-center gap-2 text-sm text-gray-400 py-4">
+              <Loader2 size={16} className="animate-spin" /> กำลังโหลด...
+            </div>
+          )}
+
+          {!isLoading && visible.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-4">ยังไม่มีคำขอ</p>
+          )}
+
+          {pending.map(renderRequest)}
+
+          {reviewed.length > 0 && (
+            <>
+              <h3 className="text-sm font-semibold text-gray-500 pt-2">พิจารณาแล้ว</h3>
+              {reviewed.map(renderRequest)}
+            </>
+          )}
+
+          <div className="mt-4 flex items-start gap-2 text-sm text-gray-500 bg-gray-50 p-3 rounded-lg">
+            <Info size={16} className="mt-0.5 text-medical-600 flex-shrink-0" />
+            <p>เมื่ออนุมัติ วันที่ขอจะถูกเพิ่มในวันไม่ว่างของแพทย์ (ดูได้ที่หน้ารายชื่อแพทย์) เวรที่จัดไว้แล้วในวันนั้นจะถูกแจ้งเตือนในรายงานตรวจสอบตาราง</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeaveRequestPanel;
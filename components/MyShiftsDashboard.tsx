@@ -0,0 +1,183 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { DailySchedule, Doctor, ScheduleConfig } from '../types';
+import { CalendarCheck, CalendarX, ChevronLeft, ChevronRight, Clock } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { dataService } from '../services/dataService';
+import { computeDoctorStats } from '../utils/scheduleStats';
+import { getAssignedCells, getShiftName } from '../utils/scheduleCells';
+import { WEEKDAY_NAMES, getLeaveLabel } from '../utils/availability';
+
+interface Props {
+  doctor: Doctor;
+  schedule: DailySchedule[]; // Month on screen, including unsaved edits
+  config: ScheduleConfig;
+  monthLabel: string;
+  cycleMonth: (direction: 'prev' | 'next') => void;
+  disabled?: boolean;
+}
+
+// How many upcoming duty days to list
+const UPCOMING_LIMIT = 10;
+
+const MyShiftsDashboard: React.FC<Props> = ({ doctor, schedule, config, monthLabel, cycleMonth, disabled = false }) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  // Every published month, so upcoming shifts continue past the month on screen
+  const [savedDays, setSavedDays] = useState<DailySchedule[]>([]);
+
+  useEffect(() => {
+    let isActive = true;
+    dataService.getPublishedSchedule()
+      .then(days => { if (isActive) setSavedDays(days.map(d => ({ ...d, date: d.date.split('T')[0] }))); })
+      .catch(error => console.error("Failed to load saved schedules:", error));
+    return () => { isActive = false; };
+  }, []);
+
+  const stats = useMemo(
+    () => computeDoctorStats(schedule, [doctor]).find(s => s.doctorId === doctor.id),
+    [schedule, doctor]
+  );
+
+  const upcoming = useMemo(() => {
+    const onScreen = new Set(schedule.map(d => d.date));
+    return [...savedDays.filter(d => !onScreen.has(d.date)), ...schedule]
+      .filter(day => day.date >= today)
+      .map(day => ({ day, cells: getAssignedCells(day).filter(([, , id]) => id === doctor.id) }))
+      .filter(({ cells }) => cells.length > 0)
+      .sort((a, b) => a.day.date.localeCompare(b.day.date))
+      .slice(0, UPCOMING_LIMIT);
+  }, [savedDays, schedule, doctor.id, today]);
+
+  const monthDates = new Set(schedule.map(d => d.date));
+  const leaveThisMonth = new Set((doctor.unavailability || []).filter(e => monthDates.has(e.date)).map(e => e.date)).size;
+  const upcomingLeave = (doctor.unavailability || [])
+    .filter(e => e.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const wardName = (id: string) => config.wards.find(w => w.id === id)?.name || id;
+  const shiftTime = (id: string) => {
+    const shift = config.shifts.find(s => s.id === id);
+    return shift ? `${shift.start}-${shift.end}` : '';
+  };
+
+  const cards = [
+    { label: 'วันอยู่เวร', value: stats?.dutyDays || 0 },
+    { label: 'เวรทั้งหมด', value: stats?.totalShifts || 0 },
+    { label: 'วันหยุดที่อยู่เวร', value: stats?.holidayDays || 0 },
+    { label: 'วันลา/ไม่ว่าง', value: leaveThisMonth }
+  ];
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Monthly Summary */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-3 md:p-6 border-b border-gray-200 flex flex-col md:flex-row md:items-center justify-between gap-4 bg-gray-50/50">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <CalendarCheck className="text-medical-600" /> เวรของฉัน
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">{doctor.name}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => cycleMonth('prev')}
+              disabled={disabled}
+              className="p-1.5 hover:bg-gray-100 rounded-full text-gray-500 disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft size={18} />
+            </button>
+            <span className="text-sm font-semibold text-gray-700 min-w-[120px] text-center">{monthLabel}</span>
+            <button
+              onClick={() => cycleMonth('next')}
+              disabled={disabled}
+              className="p-1.5 hover:bg-gray-100 rounded-full text-gray-500 disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <ChevronRight size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-3 md:p-6 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {cards.map(card => (
+              <div key={card.label} className="p-4 rounded-xl border border-gray-200 bg-white text-center">
+                <div className="text-2xl font-bold text-medical-700">{card.value}</div>
+                <div className="text-xs text-gray-500 mt-1">{card.label}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {config.shifts.map(shift => (
+              <span key={shift.id} className="text-xs text-gray-600 bg-gray-100 px-2.5 py-1 rounded-full">
+                เวร{shift.name}: <span className="font-semibold">{stats?.shiftCounts[shift.id] || 0}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Upcoming Shifts */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-3 md:p-6 border-b border-gray-200 bg-gray-50/50">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2">
+            <Clock size={18} className="text-medical-600" /> เวรที่กำลังจะถึง
+          </h3>
+        </div>
+        <div className="divide-y divide-gray-100">
+          {upcoming.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-6">ไม่มีเวรที่กำลังจะถึง</p>
+          )}
+          {upcoming.map(({ day, cells }) => (
+            <div key={day.date} className="flex flex-col md:flex-row md:items-center gap-2 md:gap-6 px-3 md:px-6 py-3">
+              <div className="md:w-44 flex-shrink-0">
+                <div className={`font-semibold ${day.isHoliday ? 'text-red-700' : 'text-gray-800'}`}>
+                  {format(parseISO(day.date), 'EEE d MMM yyyy', { locale: th })}
+                </div>
+                {day.holidayName && <div className="text-[11px] text-red-600">{day.holidayName}</div>}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {cells.map(([shift, ward]) => (
+                  <span key={`${shift}-${ward}`} className="text-xs font-medium px-2.5 py-1 rounded-full border border-gray-200" style={{ backgroundColor: doctor.color }}>
+                    เวร{getShiftName(config.shifts, shift)} {wardName(ward)} <span className="text-gray-600 font-normal">{shiftTime(shift)}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* My Leave */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-3 md:p-6 border-b border-gray-200 bg-gray-50/50">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2">
+            <CalendarX size={18} className="text-red-500" /> วันลา/ไม่ว่างของฉัน
+          </h3>
+        </div>
+        <div className="p-3 md:p-6 space-y-2 text-sm">
+          {!!doctor.unavailableWeekdays?.length && (
+            <p className="text-gray-600">ไม่อยู่เวรทุกวัน{[...doctor.unavailableWeekdays].sort().map(d => WEEKDAY_NAMES[d]).join(', ')}</p>
+          )}
+          {(doctor.employmentStart || doctor.employmentEnd) && (
+            <p className="text-gray-600">ช่วงปฏิบัติงาน: {doctor.employmentStart || 'ไม่ระบุ'} ถึง {doctor.employmentEnd || 'ไม่ระบุ'}</p>
+          )}
+          {upcomingLeave.length === 0 && (
+            <p className="text-gray-400 text-center py-2">ไม่มีวันลาที่กำลังจะถึง</p>
+          )}
+          {upcomingLeave.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between gap-3 py-1.5 border-b border-gray-50 last:border-0">
+              <span className="text-gray-800">{format(parseISO(entry.date), 'EEE d MMM yyyy', { locale: th })}</span>
+              <span className="text-xs text-gray-500">
+                {getLeaveLabel(entry.type)} · {entry.shifts?.length ? `เวร${entry.shifts.map(s => getShiftName(config.shifts, s)).join(', ')}` : 'ทั้งวัน'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MyShiftsDashboard;
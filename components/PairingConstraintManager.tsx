@@ -0,0 +1,227 @@
+
+import React, { useState } from 'react';
+import { Doctor, PairingConstraint, PairingType, ScheduleConfig } from '../types';
+import { UsersRound, Plus, Trash2, Save, X, Info } from 'lucide-react';
+import { collectTags, getShiftName } from '../utils/scheduleCells';
+
+interface Props {
+  doctors: Doctor[];
+  config: ScheduleConfig;
+  setConfig: React.Dispatch<React.SetStateAction<ScheduleConfig>>;
+  isAdmin: boolean;
+}
+
+const TYPE_LABELS: Record<PairingType, string> = {
+  'must-not-pair': 'ห้ามอยู่เวรพร้อมกับ',
+  'must-pair-with-tag': 'ต้องมีแพทย์ที่มีคุณสมบัติอยู่เวรด้วย'
+};
+
+const DAY_TYPE_LABELS: Record<PairingConstraint['dayType'], string> = {
+  all: 'ทุกวัน',
+  weekday: 'วันธรรมดา',
+  holiday: 'วันหยุด'
+};
+
+const PairingConstraintManager: React.FC<Props> = ({ doctors, config, setConfig, isAdmin }) => {
+  const [draft, setDraft] = useState<PairingConstraint | null>(null);
+  const tags = collectTags(doctors, config);
+  const nameOf = (id?: string) => doctors.find(d => d.id === id)?.name || '-';
+
+  const isValid = !!draft && !!draft.doctorId && (draft.type === 'must-not-pair'
+    ? !!draft.otherDoctorId && draft.otherDoctorId !== draft.doctorId
+    : !!draft.tag?.trim());
+
+  const openNew = () => {
+    setDraft({ id: crypto.randomUUID(), type: 'must-not-pair', doctorId: '', dayType: 'all' });
+  };
+
+  const saveDraft = () => {
+    if (!draft || !isValid) return;
+    // Keep only the field of the chosen type
+    const constraint: PairingConstraint = draft.type === 'must-not-pair'
+      ? { ...draft, tag: undefined }
+      : { ...draft, tag: draft.tag!.trim(), otherDoctorId: undefined };
+    setConfig({ ...config, pairingConstraints: [...config.pairingConstraints, constraint] });
+    setDraft(null);
+  };
+
+  const removeConstraint = (id: string) => {
+    setConfig({ ...config, pairingConstraints: config.pairingConstraints.filter(c => c.id !== id) });
+  };
+
+  const describe = (c: PairingConstraint) => {
+    const partner = c.type === 'must-not-pair' ? nameOf(c.otherDoctorId) : `"${c.tag}"`;
+    const shift = c.shift ? `เวร${getShiftName(config.shifts, c.shift)}` : 'ทุกเวร';
+    return { title: `${nameOf(c.doctorId)} ${TYPE_LABELS[c.type]} ${partner}`, scope: `${shift} · ${DAY_TYPE_LABELS[c.dayType]}` };
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden mt-6">
+      <div className="p-3 md:p-6 border-b border-gray-200 flex flex-col md:flex-row md:items-center justify-between gap-4 bg-gray-50/50">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <UsersRound className="text-medical-600" /> เงื่อนไขการจับคู่แพทย์
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">กำหนดแพทย์ที่ห้ามอยู่เวรเดียวกัน หรือต้องมีแพทย์ที่มีคุณสมบัติอยู่เวรด้วย</p>
+        </div>
+        {isAdmin && (
+          <button
+            onClick={openNew}
+            className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium flex items-center gap-1 w-fit"
+          >
+            <Plus size={16} /> เพิ่มเงื่อนไข
+          </button>
+        )}
+      </div>
+
+      <div className="p-3 md:p-6 space-y-3">
+        {config.pairingConstraints.length === 0 && (
+          <p className="text-sm text-gray-400 text-center py-4">ยังไม่มีเงื่อนไข</p>
+        )}
+
+        {config.pairingConstraints.map(c => {
+          const { title, scope } = describe(c);
+          return (
+            <div key={c.id} className="flex items-center justify-between gap-3 p-4 border border-gray-200 rounded-xl bg-white">
+              <div>
+                <div className="font-semibold text-gray-800 text-sm">{title}</div>
+                <div className="text-xs text-gray-500 mt-1">{scope}</div>
+              </div>
+              {isAdmin && (
+                <button
+                  onClick={() => removeConstraint(c.id)}
+                  className="text-gray-400 hover:text-red-600 p-1.5 hover:bg-red-50 rounded"
+                  title="ลบ"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="mt-4 flex items-start gap-2 text-sm text-gray-500 bg-gray-50 p-3 rounded-lg">
+          <Info size={16} className="mt-0.5 text-medical-600 flex-shrink-0" />
+          <p>"อยู่เวรพร้อมกัน" คือช่วงเวรเดียวกันของวันเดียวกัน ไม่ว่าจะอยู่วอร์ดใด การจัดเวรอัตโนมัติจะหลีกเลี่ยง และการตรวจสอบตารางจะแจ้งเตือนเมื่อผิดเงื่อนไข</p>
+        </div>
+      </div>
+
+      {/* Constraint Modal - ADMIN ONLY */}
+      {draft && isAdmin && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+              <h3 className="font-bold text-gray-800">เพิ่มเงื่อนไขการจับคู่</h3>
+              <button
+                onClick={() => setDraft(null)}
+                className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-lg transition"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">แพทย์</label>
+                <select
+                  value={draft.doctorId}
+                  onChange={(e) => setDraft({ ...draft, doctorId: e.target.value })}
+                  className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                >
+                  <option value="">- เลือกแพทย์ -</option>
+                  {doctors.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">เงื่อนไข</label>
+                <select
+                  value={draft.type}
+                  onChange={(e) => setDraft({ ...draft, type: e.target.value as PairingType })}
+                  className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                >
+                  {(Object.keys(TYPE_LABELS) as PairingType[]).map(type => (
+                    <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {draft.type === 'must-not-pair' ? (
+                <div>
+                  <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">แพทย์อีกคน</label>
+                  <select
+                    value={draft.otherDoctorId || ''}
+                    onChange={(e) => setDraft({ ...draft, otherDoctorId: e.target.value })}
+                    className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                  >
+                    <option value="">- เลือกแพทย์ -</option>
+                    {doctors.filter(d => d.id !== draft.doctorId).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                  </select>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">คุณสมบัติของแพทย์ที่ต้องอยู่ด้วย</label>
+                  <input
+                    type="text"
+                    list="pairing-tags"
+                    value={draft.tag || ''}
+                    onChange={(e) => setDraft({ ...draft, tag: e.target.value })}
+                    placeholder="เช่น แพทย์อาวุโส"
+                    className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                  />
+                  <datalist id="pairing-tags">
+                    {tags.map(tag => <option key={tag} value={tag} />)}
+                  </datalist>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">ช่วงเวร</label>
+                  <select
+                    value={draft.shift || ''}
+                    onChange={(e) => setDraft({ ...draft, shift: e.target.value || undefined })}
+                    className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                  >
+                    <option value="">ทุกเวร</option>
+                    {config.shifts.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">ประเภทวัน</label>
+                  <select
+                    value={draft.dayType}
+                    onChange={(e) => setDraft({ ...draft, dayType: e.target.value as PairingConstraint['dayType'] })}
+                    className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                  >
+                    {(Object.keys(DAY_TYPE_LABELS) as PairingConstraint['dayType'][]).map(type => (
+                      <option key={type} value={type}>{DAY_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2 pt-2">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium"
+                >
+                  ยกเลิก
+                </button>
+                <button
+                  onClick={saveDraft}
+                  disabled={!isValid}
+                  className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Save size={16} /> บันทึก
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PairingConstraintManager;
@@ -0,0 +1,237 @@
+
+import React, { useMemo, useState } from 'react';
+import { RotationRule, ScheduleConfig } from '../types';
+import { GitMerge, Plus, Pencil, Trash2, Save, X, Info, AlertTriangle, RotateCcw } from 'lucide-react';
+import { findRuleConflicts, getShiftName, suggestRotationRules } from '../utils/scheduleCells';
+
+interface Props {
+  config: ScheduleConfig;
+  setConfig: React.Dispatch<React.SetStateAction<ScheduleConfig>>;
+  isAdmin: boolean;
+}
+
+const RotationRuleManager: React.FC<Props> = ({ config, setConfig, isAdmin }) => {
+  // Rule being edited in the modal; it is new until its id is in config.rotationRules
+  const [draft, setDraft] = useState<RotationRule | null>(null);
+  const isNew = !!draft && !config.rotationRules.some(r => r.id === draft.id);
+  const isValid = !!draft
+    && !!draft.fromShift && !!draft.fromWard && !!draft.toShift && !!draft.toWard
+    && draft.fromShift !== draft.toShift
+    && (draft.weekday || draft.holiday);
+
+  const conflicts = useMemo(() => findRuleConflicts(config), [config]);
+
+  const wardName = (id: string) => config.wards.find(w => w.id === id)?.name || id;
+  const cellLabel = (shift: string, ward: string) => `เวร${getShiftName(config.shifts, shift)} ${wardName(ward)}`;
+
+  const openNew = () => {
+    setDraft({
+      id: crypto.randomUUID(),
+      fromShift: config.shifts[0]?.id || '',
+      fromWard: config.wards[0]?.id || '',
+      toShift: config.shifts[1]?.id || '',
+      toWard: config.wards[0]?.id || '',
+      weekday: true,
+      holiday: true
+    });
+  };
+
+  const saveDraft = () => {
+    if (!draft || !isValid) return;
+    const rotationRules = isNew
+      ? [...config.rotationRules, draft]
+      : config.rotationRules.map(r => (r.id === draft.id ? draft : r));
+    setConfig({ ...config, rotationRules });
+    setDraft(null);
+  };
+
+  const removeRule = (id: string) => {
+    if (window.confirm('ต้องการลบกฎนี้ใช่หรือไม่?')) {
+      setConfig({ ...config, rotationRules: config.rotationRules.filter(r => r.id !== id) });
+    }
+  };
+
+  const resetRules = () => {
+    if (window.confirm('ต้องการแทนที่กฎทั้งหมดด้วยรูปแบบมาตรฐาน (บ่ายต่อดึกวอร์ดเดียวกัน และเช้าต่อบ่ายวอร์ดถัดไป) ใช่หรือไม่?')) {
+      setConfig({ ...config, rotationRules: suggestRotationRules(config) });
+    }
+  };
+
+  const describeDays = (rule: RotationRule) =>
+    [rule.weekday && 'วันธรรมดา', rule.holiday && 'วันหยุด'].filter(Boolean).join(' / ');
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-6 border-b border-gray-200 bg-gray-50/50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <GitMerge className="text-medical-600" /> กฎการต่อเวร
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">แพทย์ที่อยู่เวรต้นทางต้องอยู่เวรปลายทางต่อในวันเดียวกัน ใช้ทั้งตอนเลือกแพทย์ในตาราง การจัดเวรอัตโนมัติ และการตรวจสอบ</p>
+          </div>
+          {isAdmin && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={resetRules}
+                className="px-4 py-2 text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition text-sm font-medium flex items-center gap-1 w-fit"
+              >
+                <RotateCcw size={16} /> รูปแบบมาตรฐาน
+              </button>
+              <button
+                onClick={openNew}
+                className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium flex items-center gap-1 w-fit"
+              >
+                <Plus size={16} /> เพิ่มกฎ
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 space-y-3">
+          {conflicts.length > 0 && (
+            <div className="flex items-start gap-2 text-sm text-red-700 bg-red-50 border border-red-200 p-3 rounded-lg">
+              <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+              <div>
+                {conflicts.map((c, i) => (
+                  <p key={i}>
+                    {c.isHoliday ? 'วันหยุด' : 'วันธรรมดา'}: กฎทำให้แพทย์คนเดียวต้องอยู่เวร{getShiftName(config.shifts, c.shift)} หลายวอร์ดพร้อมกัน ({c.wards.map(wardName).join(', ')})
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {config.rotationRules.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-4">ยังไม่มีกฎ แต่ละช่องเวรจะจัดแพทย์แยกกัน</p>
+          )}
+
+          {config.rotationRules.map(rule => (
+            <div
+              key={rule.id}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-gray-200 rounded-xl bg-white"
+            >
+              <div>
+                <div className="font-semibold text-gray-800">
+                  {cellLabel(rule.fromShift, rule.fromWard)} → {cellLabel(rule.toShift, rule.toWard)}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">ใช้ใน: {describeDays(rule)}</div>
+              </div>
+
+              {isAdmin && (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setDraft(rule)}
+                    className="text-gray-400 hover:text-medical-600 p-1.5 hover:bg-medical-50 rounded"
+                    title="แก้ไข"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => removeRule(rule.id)}
+                    className="text-gray-400 hover:text-red-600 p-1.5 hover:bg-red-50 rounded"
+                    title="ลบ"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="mt-4 flex items-start gap-2 text-sm text-gray-500 bg-gray-50 p-3 rounded-lg">
+            <Info size={16} className="mt-0.5 text-medical-600 flex-shrink-0" />
+            <p>
+              กฎจะมีผลเฉพาะวันที่ทั้งสองช่องเปิดเวร ช่องที่ต่อกันด้วยกฎ (รวมถึงต่อกันหลายทอด) จะจัดเป็นแพทย์คนเดียวกันทั้งหมด
+              และแพทย์หนึ่งคนอยู่ได้เพียงชุดเดียวต่อวัน
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Rule Edit Modal (Admin Only) */}
+      {draft && isAdmin && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+              <h3 className="font-bold text-gray-800">{isNew ? 'เพิ่มกฎการต่อเวร' : 'แก้ไขกฎการต่อเวร'}</h3>
+              <button
+                onClick={() => setDraft(null)}
+                className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-lg transition"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {([['from', 'ถ้าอยู่เวร'], ['to', 'ต้องอยู่เวรต่อ']] as const).map(([side, label]) => {
+                const shiftField = side === 'from' ? 'fromShift' : 'toShift';
+                const wardField = side === 'from' ? 'fromWard' : 'toWard';
+                return (
+                  <div key={side}>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">{label}</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <select
+                        value={draft[shiftField]}
+                        onChange={(e) => setDraft({ ...draft, [shiftField]: e.target.value })}
+                        className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                      >
+                        {config.shifts.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                      </select>
+                      <select
+                        value={draft[wardField]}
+                        onChange={(e) => setDraft({ ...draft, [wardField]: e.target.value })}
+                        className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                      >
+                        {config.wards.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+                      </select>
+                    </div>
+                  </div>
+                );
+              })}
+
+              {draft.fromShift === draft.toShift && (
+                <p className="text-xs text-red-600">เวรต้นทางและปลายทางต้องเป็นคนละช่วงเวร (แพทย์อยู่ได้วอร์ดเดียวต่อเวร)</p>
+              )}
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">ใช้ในวัน</label>
+                <div className="flex items-center gap-4">
+                  {([['weekday', 'วันธรรมดา'], ['holiday', 'วันหยุด']] as const).map(([field, label]) => (
+                    <label key={field} className="flex items-center gap-1 text-sm text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={draft[field]}
+                        onChange={() => setDraft({ ...draft, [field]: !draft[field] })}
+                        className="accent-medical-600"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="pt-2 flex gap-2 justify-end">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition text-sm font-medium"
+                >
+                  ยกเลิก
+                </button>
+                <button
+                  onClick={saveDraft}
+                  disabled={!isValid}
+                  className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Save size={16} /> บันทึก
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RotationRuleManager;
@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CellChange, DailySchedule, Doctor, ScheduleConfig, ScheduleVersion } from '../types';
+import { GitCompare, X, Copy, Download, ArrowRight, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { dataService } from '../services/dataService';
+import { describeChangedCells, diffSchedules, formatChangeNotice, summarizeChangesByDoctor } from '../utils/scheduleDiff';
+import { exportChangeNotice } from '../utils/exportUtils';
+import { getShiftName } from '../utils/scheduleCells';
+
+interface Props {
+  versions: ScheduleVersion[]; // Newest first
+  isAdmin: boolean;
+  draft: DailySchedule[]; // Admins can compare the draft on screen too
+  doctors: Doctor[];
+  config: ScheduleConfig;
+  onShow: (after: DailySchedule[], changes: CellChange[]) => void; // Table shows the newer side with the changes outlined
+  onClose: () => void;
+}
+
+// Select value of the draft; versions use their id
+const DRAFT = 'draft';
+
+const ScheduleDiffPanel: React.FC<Props> = ({ versions, isAdmin, draft, doctors, config, onShow, onClose }) => {
+  // Admins: what the draft changes since the last publish; others: what the last publish changed
+  const [beforeId, setBeforeId] = useState(isAdmin ? versions[0]?.id || '' : versions[1]?.id || '');
+  const [afterId, setAfterId] = useState(isAdmin ? DRAFT : versions[0]?.id || '');
+  const [changes, setChanges] = useState<CellChange[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showCells, setShowCells] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const options = [
+    ...(isAdmin ? [{ id: DRAFT, label: 'ฉบับร่าง' }] : []),
+    ...versions.map(v => ({ id: v.id, label: `ฉบับที่ ${v.version} (${format(new Date(v.publishedAt), 'd MMM yy HH:mm', { locale: th })})` }))
+  ];
+  const labelOf = (id: string) => (id === DRAFT ? 'ฉบับร่าง' : `ฉบับที่ ${versions.find(v => v.id === id)?.version}`);
+
+  useEffect(() => {
+    if (!beforeId || !afterId) return;
+    let isActive = true;
+    const load = async (id: string) => (id === DRAFT ? draft : (await dataService.getScheduleVersion(id)).days);
+
+    setIsLoading(true);
+    setCopied(false);
+    Promise.all([load(beforeId), load(afterId)])
+      .then(([before, after]) => {
+        if (!isActive) return;
+        const found = diffSchedules(before, after);
+        setChanges(found);
+        onShow(after, found);
+      })
+      .catch(error => {
+        console.error(error);
+        alert("ไม่สามารถโหลดฉบับที่เลือกได้: " + error.message);
+      })
+      .finally(() => { if (isActive) setIsLoading(false); });
+    return () => { isActive = false; };
+  }, [beforeId, afterId, draft]);
+
+  const summaries = useMemo(() => (changes ? summarizeChangesByDoctor(changes, doctors) : []), [changes, doctors]);
+  const doctorOf = (id: string | null) => doctors.find(d => d.id === id);
+  const wardName = (id: string) => config.wards.find(w => w.id === id)?.name || id;
+
+  const notice = () => {
+    const monthName = format(new Date(config.year, config.month), 'MMMM', { locale: th });
+    const title = `ประกาศการเปลี่ยนแปลงตารางเวร ${monthName} ${config.year + 543} (${labelOf(beforeId)} → ${labelOf(afterId)})`;
+    return formatChangeNotice(changes || [], doctors, config, title);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(notice());
+      setCopied(true);
+    } catch (error) {
+      console.error(error);
+      alert("ไม่สามารถคัดลอกได้ กรุณาใช้ปุ่มดาวน์โหลดแทน");
+    }
+  };
+
+  const renderSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="p-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white text-sm"
+    >
+      <option value="">- เลือกฉบับ -</option>
+      {options.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-blue-200 shadow-sm overflow-hidden">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 bg-blue-50/50 border-b border-blue-100">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-bold text-gray-800 flex items-center gap-2">
+            <GitCompare size={16} className="text-blue-600" /> เปรียบเทียบ
+          </span>
+          {renderSelect(beforeId, setBeforeId)}
+          <ArrowRight size={14} className="text-gray-400" />
+          {renderSelect(afterId, setAfterId)}
+        </div>
+        <button
+          onClick={onClose}
+          className="self-end md:self-auto text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-lg transition"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="p-3 space-y-3">
+        {options.length < 2 && (
+          <p className="text-sm text-gray-400 text-center py-2">ต้องมีอย่างน้อย 2 ฉบับจึงจะเปรียบเทียบได้</p>
+        )}
+
+        {isLoading && (
+          <p className="text-sm text-gray-500 flex items-center justify-center gap-2 py-2">
+            <Loader2 size={14} className="animate-spin" /> กำลังโหลด...
+          </p>
+        )}
+
+        {!isLoading && changes && (
+          <>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+              <p className="text-sm text-gray-600">
+                {changes.length === 0
+                  ? 'ไม่มีการเปลี่ยนแปลง'
+                  : <>เปลี่ยน <span className="font-semibold text-blue-700">{changes.length} ช่อง</span> · แพทย์ {summaries.length} คน · ช่องที่เปลี่ยนมีกรอบสีน้ำเงินในตาราง</>}
+              </p>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleCopy}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-xs font-medium"
+                >
+                  <Copy size={12} /> {copied ? 'คัดลอกแล้ว' : 'คัดลอกประกาศ'}
+                </button>
+                <button
+                  onClick={() => exportChangeNotice(notice(), config)}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-xs font-medium"
+                >
+                  <Download size={12} /> ดาวน์โหลด (.txt)
+                </button>
+              </div>
+            </div>
+
+            {summaries.length > 0 && (
+              <ul className="divide-y divide-gray-100">
+                {summaries.map(({ doctorId, gained, lost }) => (
+                  <li key={doctorId} className="py-2 text-sm">
+                    <div className="flex items-center gap-2 font-semibold text-gray-800">
+                      <span className="w-3 h-3 rounded-full border border-gray-300" style={{ backgroundColor: doctorOf(doctorId)?.color }} />
+                      {doctorOf(doctorId)?.name || doctorId}
+                      <span className="text-xs font-normal text-green-700">+{gained.length}</span>
+                      <span className="text-xs font-normal text-red-600">-{lost.length}</span>
+                    </div>
+                    {gained.length > 0 && (
+                      <p className="ml-5 text-xs text-green-700">อยู่เวรเพิ่ม: {describeChangedCells(gained, config).join(', ')}</p>
+                    )}
+                    {lost.length > 0 && (
+                      <p className="ml-5 text-xs text-red-600">ไม่ต้องอยู่เวร: {describeChangedCells(lost, config).join(', ')}</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {changes.length > 0 && (
+              <div>
+                <button
+                  onClick={() => setShowCells(!showCells)}
+                  className="text-sm font-semibold text-gray-500 flex items-center gap-1 hover:text-gray-700"
+                >
+                  {showCells ? <ChevronUp size={16} /> : <ChevronDown size={16} />} ช่องที่เปลี่ยน ({changes.length})
+                </button>
+                {showCells && (
+                  <table className="w-full text-xs mt-2">
+                    <tbody className="divide-y divide-gray-50">
+                      {changes.map(c => (
+                        <tr key={`${c.date}|${c.shift}|${c.ward}`}>
+                          <td className="py-1 text-gray-500">{format(parseISO(c.date), 'EEE d MMM', { locale: th })}</td>
+                          <td className="py-1 text-gray-600">เวร{getShiftName(config.shifts, c.shift)} {wardName(c.ward)}</td>
+                          <td className="py-1 text-gray-700">
+                            {doctorOf(c.from)?.name || '-'} <ArrowRight size={10} className="inline text-gray-400" /> {doctorOf(c.to)?.name || '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleDiffPanel;
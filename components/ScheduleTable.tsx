@@ -1,18 +1,70 @@
 
-import React from 'react';
-import { DailySchedule, Doctor } from '../types';
+import React, { useMemo } from 'react';
+import { CellChange, DailySchedule, Doctor, ScheduleViolation, ShiftDefinition, ShiftPeriod, WardDefinition, WardKey } from '../types';
 import { format } from 'date-fns';
 import th from 'date-fns/locale/th';
+import { Lock, Unlock, UserSearch } from 'lucide-react';
+import { mapViolationsToCells } from '../utils/scheduleValidator';
+import { isAvailableFor } from '../utils/availability';
+import { cellKey, formatShiftTime, getCell, getDayShifts, getVisibleWards, getWardColumns, isCellLocked, isQualifiedFor, runsShift } from '../utils/scheduleCells';
 
 interface Props {
   schedule: DailySchedule[];
   doctors: Doctor[];
-  updateSchedule: (date: string, shift: 'morning' | 'afternoon' | 'night', type: 'icu' | 'general', doctorId: string) => void;
+  wards: WardDefinition[];
+  shifts: ShiftDefinition[];
+  updateSchedule: (date: string, shift: ShiftPeriod, ward: WardKey, doctorId: string) => void;
+  toggleLock?: (date: string, shift: ShiftPeriod, ward: WardKey) => void;
+  onFindSubstitute?: (date: string, shift: ShiftPeriod, ward: WardKey) => void; // Opens the replacement finder for a filled cell
   readOnly?: boolean;
+  violations?: ScheduleViolation[];
+  highlightDoctorId?: string; // Emphasise this doctor's cells (the logged-in doctor)
+  changes?: CellChange[]; // Cells that differ from a compared version, outlined with the previous doctor
 }
 
-const ScheduleTable: React.FC<Props> = ({ schedule, doctors, updateSchedule, readOnly = false }) => {
-  
+const ScheduleTable: React.FC<Props> = ({ schedule, doctors, wards, shifts, updateSchedule, toggleLock, onFindSubstitute, readOnly = false, violations = [], highlightDoctorId, changes = [] }) => {
+
+  const cellViolations = useMemo(() => mapViolationsToCells(violations, schedule), [violations, schedule]);
+  const visibleWards = useMemo(() => getVisibleWards(wards, schedule), [wards, schedule]);
+  const changedCells = useMemo(() => new Map(changes.map(c => [cellKey(c.date, c.shift, c.ward), c])), [changes]);
+
+  const shiftMap = useMemo(() => new Map(shifts.map(s => [s.id, s])), [shifts]);
+
+  // A cell is editable when the shift and the ward both run on this day type, or when it still holds a doctor
+  const hasCell = (day: DailySchedule, shift: ShiftPeriod, ward: WardDefinition) =>
+    (runsShift(ward, shift, day.isHoliday) && getDayShifts(day.isHoliday, shifts).some(s => s.id === shift))
+    || !!getCell(day, shift, ward.id);
+
+  const shiftTime = (shift: ShiftPeriod) => {
+    const definition = shiftMap.get(shift);
+    return definition ? formatShiftTime(definition) : shift;
+  };
+
+  const shiftLabel = (shift: ShiftPeriod) => {
+    const definition = shiftMap.get(shift);
+    return definition ? `${definition.name} (${definition.start}-${definition.end})` : shift;
+  };
+
+  // Outline cells that break a rule (red) or miss an optimisation goal (amber),
+  // otherwise changed cells of a comparison (blue) or the highlighted doctor's own cells
+  const getViolationHighlight = (date: string, shift: ShiftPeriod, ward: WardKey, value: string | null) => {
+    const issues = cellViolations.get(cellKey(date, shift, ward));
+    const change = changedCells.get(cellKey(date, shift, ward));
+    if (!issues && change) {
+      const previous = doctors.find(d => d.id === change.from)?.name || '-';
+      return { className: 'ring-2 ring-blue-500 ring-inset font-bold', title: `เปลี่ยนแปลง (เดิม: ${previous})` };
+    }
+    if (!issues) {
+      const isMine = !!highlightDoctorId && value === highlightDoctorId;
+      return { className: isMine ? 'ring-2 ring-medical-600 ring-inset font-bold' : '', title: isMine ? 'เวรของฉัน' : undefined };
+    }
+    const isHard = issues.some(v => v.severity === 'hard');
+    return {
+      className: isHard ? 'ring-2 ring-red-500 ring-inset' : 'ring-2 ring-amber-400 ring-inset',
+      title: issues.map(v => v.message).join('\n')
+    };
+  };
+
   const getDoctorStyle = (id: string | null) => {
     if (!id) return {};
     const doctor = doctors.find(d => d.id === id);
@@ -26,21 +78,27 @@ const ScheduleTable: React.FC<Props> = ({ schedule, doctors, updateSchedule, rea
   const DoctorSelect = ({ 
     value, 
     onChange,
-    date
+    date,
+    shift,
+    ward
   }: { 
     value: string | null, 
     onChange: (val: string) => void,
-    date: string
+    date: string,
+    shift: ShiftPeriod,
+    ward: WardKey
   }) => {
-    
+    const highlight = getViolationHighlight(date, shift, ward, value);
+
     // READ ONLY MODE: Show static div
     if (readOnly) {
        const doc = doctors.find(d => d.id === value);
-       if (!doc) return <div className="h-full w-full py-2 bg-gray-50 rounded flex items-center justify-center text-gray-300 text-xs">-</div>;
+       if (!doc) return <div className={`h-full w-full py-2 bg-gray-50 rounded flex items-center justify-center text-gray-300 text-xs ${highlight.className}`} title={highlight.title}>-</div>;
        
        return (
          <div 
-           className="w-full text-sm p-2 rounded font-medium text-center truncate"
+           className={`w-full text-sm p-2 rounded font-medium text-center truncate ${highlight.className}`}
+           title={highlight.title}
            style={{ backgroundColor: doc.color, color: '#1f2937' }}
          >
            {doc.name}
@@ -49,29 +107,56 @@ const ScheduleTable: React.FC<Props> = ({ schedule, doctors, updateSchedule, rea
     }
 
     // EDIT MODE: Show Select
-    // Show only ACTIVE doctors who are NOT UNAVAILABLE on this specific date
-    const availableDoctors = doctors.filter(d => d.active && !d.unavailableDates?.includes(date));
+    // Show only ACTIVE doctors who are NOT UNAVAILABLE for this date and shift and hold the cell's required tags
+    const availableDoctors = doctors.filter(d =>
+      d.active && isAvailableFor(d, date, shift) && isQualifiedFor(d, { wards, shifts }, shift, ward)
+    );
     const style = getDoctorStyle(value);
+    const day = schedule.find(d => d.date === date);
+    const locked = !!day && isCellLocked(day, shift, ward);
 
     return (
-      <select
-        value={value || ''}
-        onChange={(e) => onChange(e.target.value)}
-        style={style}
-        className="w-full text-sm p-2 rounded border-transparent hover:border-gray-300 focus:border-medical-500 focus:ring-1 focus:ring-medical-500 outline-none cursor-pointer truncate transition-colors appearance-none text-center font-medium"
-      >
-        <option value="" style={{ backgroundColor: 'white' }}>-</option>
-        {availableDoctors.map(d => (
-          <option key={d.id} value={d.id} style={{ backgroundColor: d.color }}>{d.name}</option>
-        ))}
-        {/* Handle case where currently selected doctor is now inactive or unavailable (show them as disabled option so value isn't lost) */}
-        {value && !availableDoctors.find(d => d.id === value) && (
-             (() => {
-                 const hiddenDoc = doctors.find(d => d.id === value);
-                 return hiddenDoc ? <option value={hiddenDoc.id} disabled style={{ backgroundColor: hiddenDoc.color }}>({hiddenDoc.name})</option> : null;
-             })()
+      <div className="relative group/cell">
+        <select
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={locked} // Unlock first to change a locked cell
+          style={style}
+          title={locked ? 'เวรนี้ถูกล็อก ปลดล็อกก่อนจึงจะเปลี่ยนได้' : highlight.title}
+          className={`w-full text-sm p-2 rounded border-transparent hover:border-gray-300 focus:border-medical-500 focus:ring-1 focus:ring-medical-500 outline-none cursor-pointer disabled:cursor-not-allowed truncate transition-colors appearance-none text-center font-medium ${highlight.className}`}
+        >
+          <option value="" style={{ backgroundColor: 'white' }}>-</option>
+          {availableDoctors.map(d => (
+            <option key={d.id} value={d.id} style={{ backgroundColor: d.color }}>{d.name}</option>
+          ))}
+          {/* Handle case where currently selected doctor is now inactive, unavailable or unqualified (show them as disabled option so value isn't lost) */}
+          {value && !availableDoctors.find(d => d.id === value) && (
+               (() => {
+                   const hiddenDoc = doctors.find(d => d.id === value);
+                   return hiddenDoc ? <option value={hiddenDoc.id} disabled style={{ backgroundColor: hiddenDoc.color }}>({hiddenDoc.name})</option> : null;
+               })()
+          )}
+        </select>
+        {/* Lock Toggle: locked cells are kept when generating a new schedule */}
+        {toggleLock && (value || locked) && (
+          <button
+            onClick={() => toggleLock(date, shift, ward)}
+            className={`absolute top-0.5 right-0.5 p-0.5 rounded transition ${locked ? 'text-gray-700 bg-white/70' : 'text-gray-400 opacity-0 group-hover/cell:opacity-100 hover:text-gray-700'}`}
+            title={locked ? 'ปลดล็อก (ให้ระบบจัดใหม่ได้)' : 'ล็อกเวรนี้ (ระบบจะไม่เปลี่ยนเมื่อสร้างตาราง)'}
+          >
+            {locked ? <Lock size={12} /> : <Unlock size={12} />}
+          </button>
+        )}
+        {onFindSubstitute && value && !locked && (
+          <button
+            onClick={() => onFindSubstitute(date, shift, ward)}
+            className="absolute top-0.5 left-0.5 p-0.5 rounded transition text-gray-400 opacity-0 group-hover/cell:opacity-100 hover:text-gray-700"
+            title="หาแพทย์แทน"
+          >
+            <UserSearch size={12} />
+          </button>
         )}
-      </select>
+      </div>
     );
   };
 
@@ -81,34 +166,33 @@ const ScheduleTable: React.FC<Props> = ({ schedule, doctors, updateSchedule, rea
       <div className="hidden md:block overflow-x-auto">
         <table className="w-full text-left border-collapse">
           <thead>
-            {/* Main Headers */}
+            {/* Main Headers: one per ward, in the ward's colour */}
             <tr className="text-white text-sm uppercase tracking-wider">
               <th className="p-3 border-r border-gray-300 sticky left-0 bg-gray-800 z-20 w-32 border-b">วันที่</th>
-              
-              {/* General Ward Header - Custom Color #7F95D1 */}
-              <th className="p-3 text-center border-r border-blue-200 border-b" style={{ backgroundColor: '#7F95D1' }} colSpan={3}>
-                สามัญ / นอกแผนก / Stroke Fast Tract
-              </th>
-              
-              {/* ICU Ward Header - Custom Color #F0725C */}
-              <th className="p-3 text-center border-b" style={{ backgroundColor: '#F0725C' }} colSpan={3}>
-                ICU / CCU STEMI Fast Tract
-              </th>
+              {visibleWards.map(ward => (
+                <th
+                  key={ward.id}
+                  className="p-3 text-center border-r border-white/40 border-b last:border-r-0"
+                  style={{ backgroundColor: ward.color }}
+                  colSpan={getWardColumns(ward, shifts).length}
+                >
+                  {ward.name}
+                </th>
+              ))}
             </tr>
-            
+
             {/* Sub Headers (Time Slots) */}
             <tr className="text-xs font-semibold text-gray-700 bg-gray-100">
               <th className="p-2 border-r border-gray-300 sticky left-0 bg-gray-100 z-20 shadow-sm text-center">เวลา</th>
-              
-              {/* General Sub-columns */}
-              <th className="p-2 border-r border-gray-200 text-center w-[13%] bg-blue-50">08:30 - 16:30</th>
-              <th className="p-2 border-r border-gray-200 text-center w-[13%] bg-blue-50">16:30 - 00:30</th>
-              <th className="p-2 border-r border-gray-300 text-center w-[13%] bg-blue-50">00:30 - 08:30</th>
-
-              {/* ICU Sub-columns */}
-              <th className="p-2 border-r border-gray-200 text-center w-[13%] bg-red-50">08:30 - 16:30</th>
-              <th className="p-2 border-r border-gray-200 text-center w-[13%] bg-red-50">16:30 - 00:30</th>
-              <th className="p-2 text-center w-[13%] bg-red-50">00:30 - 08:30</th>
+              {visibleWards.map(ward => getWardColumns(ward, shifts).map(shift => (
+                <th
+                  key={`${ward.id}-${shift}`}
+                  className="p-2 border-r border-gray-200 text-center whitespace-nowrap"
+                  style={{ backgroundColor: `${ward.color}1A` }}
+                >
+                  {shiftTime(shift)}
+                </th>
+              )))}
             </tr>
           </thead>
           <tbody className="text-sm divide-y divide-gray-100">
@@ -133,61 +217,19 @@ const ScheduleTable: React.FC<Props> = ({ schedule, doctors, updateSchedule, rea
                     )}
                   </td>
 
-                  {/* === GENERAL WARD === */}
-                  {/* Morning */}
-                  <td className="p-1 border-r border-gray-200 bg-blue-50/10">
-                    {day.shifts.morning ? (
-                      <DoctorSelect 
-                        value={day.shifts.morning.general} 
-                        onChange={(id) => updateSchedule(day.date, 'morning', 'general', id)}
-                        date={day.date} 
-                      />
-                    ) : <div className="h-full w-full bg-gray-100/50 rounded flex items-center justify-center text-gray-300 text-xs">-</div>}
-                  </td>
-                  {/* Afternoon */}
-                  <td className="p-1 border-r border-gray-200 bg-blue-50/10">
-                    <DoctorSelect 
-                        value={day.shifts.afternoon.general} 
-                        onChange={(id) => updateSchedule(day.date, 'afternoon', 'general', id)}
-                        date={day.date} 
-                      />
-                  </td>
-                  {/* Night */}
-                  <td className="p-1 border-r border-gray-300 bg-blue-50/10">
-                     <DoctorSelect 
-                        value={day.shifts.night.general} 
-                        onChange={(id) => updateSchedule(day.date, 'night', 'general', id)}
-                        date={day.date} 
-                      />
-                  </td>
-
-                  {/* === ICU WARD === */}
-                  {/* Morning */}
-                  <td className="p-1 border-r border-gray-200 bg-red-50/10">
-                    {day.shifts.morning ? (
-                      <DoctorSelect 
-                        value={day.shifts.morning.icu} 
-                        onChange={(id) => updateSchedule(day.date, 'morning', 'icu', id)}
-                        date={day.date} 
-                      />
-                    ) : <div className="h-full w-full bg-gray-100/50 rounded flex items-center justify-center text-gray-300 text-xs">-</div>}
-                  </td>
-                  {/* Afternoon */}
-                  <td className="p-1 border-r border-gray-200 bg-red-50/10">
-                    <DoctorSelect 
-                        value={day.shifts.afternoon.icu} 
-                        onChange={(id) => updateSchedule(day.date, 'afternoon', 'icu', id)}
-                        date={day.date} 
-                      />
-                  </td>
-                  {/* Night */}
-                  <td className="p-1 bg-red-50/10">
-                     <DoctorSelect 
-                        value={day.shifts.night.icu} 
-                        onChange={(id) => updateSchedule(day.date, 'night', 'icu', id)}
-                        date={day.date} 
-                      />
-                  </td>
+                  {visibleWards.map(ward => getWardColumns(ward, shifts).map(shift => (
+                    <td key={`${ward.id}-${shift}`} className="p-1 border-r border-gray-200" style={{ backgroundColor: `${ward.color}0D` }}>
+                      {hasCell(day, shift, ward) ? (
+                        <DoctorSelect
+                          shift={shift}
+                          ward={ward.id}
+                          value={getCell(day, shift, ward.id)}
+                          onChange={(id) => updateSchedule(day.date, shift, ward.id, id)}
+                          date={day.date}
+                        />
+                      ) : <div className="h-full w-full bg-gray-100/50 rounded flex items-center justify-center text-gray-300 text-xs">-</div>}
+                    </td>
+                  )))}
                 </tr>
               );
             })}
@@ -218,64 +260,27 @@ const ScheduleTable: React.FC<Props> = ({ schedule, doctors, updateSchedule, rea
               </div>
 
               <div className="space-y-4">
-                 {/* General Section */}
-                 <div className="rounded-lg border border-blue-200 overflow-hidden">
-                    <div className="px-3 py-1.5 text-xs font-bold text-white flex justify-between" style={{ backgroundColor: '#7F95D1' }}>
-                       <span>เวรสามัญ</span>
-                    </div>
-                    <div className="p-3 bg-blue-50/30 space-y-2">
-                       {day.shifts.morning && (
-                          <div className="grid grid-cols-3 items-center">
-                            <span className="text-xs text-gray-500">เช้า (8.30-16.30)</span>
-                            <div className="col-span-2">
-                               <DoctorSelect value={day.shifts.morning.general} onChange={(id) => updateSchedule(day.date, 'morning', 'general', id)} date={day.date} />
-                            </div>
-                          </div>
-                       )}
-                       <div className="grid grid-cols-3 items-center">
-                            <span className="text-xs text-gray-500">บ่าย (16.30-0.30)</span>
-                            <div className="col-span-2">
-                               <DoctorSelect value={day.shifts.afternoon.general} onChange={(id) => updateSchedule(day.date, 'afternoon', 'general', id)} date={day.date} />
-                            </div>
-                       </div>
-                       <div className="grid grid-cols-3 items-center">
-                            <span className="text-xs text-gray-500">ดึก (0.30-8.30)</span>
-                            <div className="col-span-2">
-                               <DoctorSelect value={day.shifts.night.general} onChange={(id) => updateSchedule(day.date, 'night', 'general', id)} date={day.date} />
-                            </div>
-                       </div>
-                    </div>
-                 </div>
-
-                 {/* ICU Section */}
-                 <div className="rounded-lg border border-red-200 overflow-hidden">
-                    <div className="px-3 py-1.5 text-xs font-bold text-white flex justify-between" style={{ backgroundColor: '#F0725C' }}>
-                       <span>เวร ICU</span>
-                    </div>
-                    <div className="p-3 bg-red-50/30 space-y-2">
-                       {day.shifts.morning && (
-                          <div className="grid grid-cols-3 items-center">
-                            <span className="text-xs text-gray-500">เช้า (8.30-16.30)</span>
-                            <div className="col-span-2">
-                               <DoctorSelect value={day.shifts.morning.icu} onChange={(id) => updateSchedule(day.date, 'morning', 'icu', id)} date={day.date} />
-                            </div>
-                          </div>
-                       )}
-                       <div className="grid grid-cols-3 items-center">
-                            <span className="text-xs text-gray-500">บ่าย (16.30-0.30)</span>
-                            <div className="col-span-2">
-                               <DoctorSelect value={day.shifts.afternoon.icu} onChange={(id) => updateSchedule(day.date, 'afternoon', 'icu', id)} date={day.date} />
-                            </div>
-                       </div>
-                       <div className="grid grid-cols-3 items-center">
-                            <span className="text-xs text-gray-500">ดึก (0.30-8.30)</span>
-                            <div className="col-span-2">
-                               <DoctorSelect value={day.shifts.night.icu} onChange={(id) => updateSchedule(day.date, 'night', 'icu', id)} date={day.date} />
-                            </div>
-                       </div>
-                    </div>
-                 </div>
-
+                 {visibleWards.map(ward => {
+                   const columns = getWardColumns(ward, shifts).filter(shift => hasCell(day, shift, ward));
+                   if (columns.length === 0) return null;
+                   return (
+                     <div key={ward.id} className="rounded-lg border border-gray-200 overflow-hidden">
+                        <div className="px-3 py-1.5 text-xs font-bold text-white flex justify-between" style={{ backgroundColor: ward.color }}>
+                           <span>{ward.name}</span>
+                        </div>
+                        <div className="p-3 space-y-2" style={{ backgroundColor: `${ward.color}0D` }}>
+                           {columns.map(shift => (
+                              <div key={shift} className="grid grid-cols-3 items-center">
+                                <span className="text-xs text-gray-500">{shiftLabel(shift)}</span>
+                                <div className="col-span-2">
+                                   <DoctorSelect shift={shift} ward={ward.id} value={getCell(day, shift, ward.id)} onChange={(id) => updateSchedule(day.date, shift, ward.id, id)} date={day.date} />
+                                </div>
+                              </div>
+                           ))}
+                        </div>
+                     </div>
+                   );
+                 })}
               </div>
             </div>
           );
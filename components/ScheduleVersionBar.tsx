@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { ScheduleVersion } from '../types';
+import { Send, History, Eye, RotateCcw, FilePen, FileCheck, ChevronDown, ChevronUp, X, GitCompare } from 'lucide-react';
+import { format } from 'date-fns';
+import { th } from 'date-fns/locale';
+
+interface Props {
+  versions: ScheduleVersion[]; // Newest first
+  isAdmin: boolean;
+  unpublishedChanges: number; // Draft cells that differ from the latest version (admins)
+  viewedVersionId: string | null; // Older version on screen instead of the current schedule
+  isBusy: boolean;
+  onPublish: (note: string) => void;
+  onView: (version: ScheduleVersion | null) => void;
+  onRestore: (version: ScheduleVersion) => void;
+  onCompare: () => void;
+}
+
+const formatTime = (iso: string) => format(new Date(iso), 'd MMM yy HH:mm', { locale: th });
+
+const ScheduleVersionBar: React.FC<Props> = ({ versions, isAdmin, unpublishedChanges, viewedVersionId, isBusy, onPublish, onView, onRestore, onCompare }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const [note, setNote] = useState('');
+
+  const latest = versions[0];
+  const viewed = versions.find(v => v.id === viewedVersionId);
+
+  const handlePublish = () => {
+    onPublish(note.trim());
+    setNote('');
+  };
+
+  const status = isAdmin ? (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 text-xs font-semibold">
+        <FilePen size={12} /> ฉบับร่าง
+      </span>
+      <span className="text-gray-600">
+        {!latest
+          ? 'ยังไม่เคยเผยแพร่ ผู้ใช้อื่นยังไม่เห็นตารางเดือนนี้'
+          : unpublishedChanges > 0
+            ? <>มีการแก้ไข <span className="font-semibold text-amber-700">{unpublishedChanges} ช่อง</span> ที่ยังไม่เผยแพร่ (ล่าสุด: ฉบับที่ {latest.version})</>
+            : `ตรงกับฉบับที่เผยแพร่ล่าสุด (ฉบับที่ ${latest.version})`}
+      </span>
+    </div>
+  ) : (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-green-100 text-green-700 text-xs font-semibold">
+        <FileCheck size={12} /> เผยแพร่แล้ว
+      </span>
+      <span className="text-gray-600">
+        {latest ? `ฉบับที่ ${latest.version} · ${formatTime(latest.publishedAt)}` : 'ยังไม่ได้เผยแพร่ตารางเวรเดือนนี้'}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+      {viewed && (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 text-xs bg-blue-50 border-b border-blue-100 text-blue-700">
+          <span className="flex items-center gap-1">
+            <Eye size={12} /> กำลังดูฉบับที่ {viewed.version} (เผยแพร่ {formatTime(viewed.publishedAt)}) · อ่านอย่างเดียว
+          </span>
+          <button onClick={() => onView(null)} className="flex items-center gap-1 font-semibold hover:text-blue-900">
+            <X size={12} /> กลับไปตารางปัจจุบัน
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3">
+        {status}
+        <div className="flex items-center gap-2">
+          {isAdmin && (
+            <>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="หมายเหตุ (ถ้ามี)"
+                className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-medical-500 outline-none w-40"
+              />
+              <button
+                onClick={handlePublish}
+                disabled={isBusy || (!!latest && unpublishedChanges === 0)}
+                className="flex items-center gap-1 px-3 py-1.5 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium disabled:opacity-50"
+              >
+                <Send size={14} /> เผยแพร่
+              </button>
+            </>
+          )}
+          {versions.length > (isAdmin ? 0 : 1) && (
+            <button
+              onClick={onCompare}
+              className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium"
+            >
+              <GitCompare size={14} /> เปรียบเทียบ
+            </button>
+          )}
+          {versions.length > 0 && (
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium"
+            >
+              <History size={14} /> ประวัติ ({versions.length})
+              {showHistory ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showHistory && (
+        <ul className="divide-y divide-gray-100 border-t border-gray-100">
+          {versions.map(version => (
+            <li key={version.id} className={`flex flex-col md:flex-row md:items-center justify-between gap-2 px-3 py-2 text-sm ${version.id === viewedVersionId ? 'bg-blue-50/50' : ''}`}>
+              <div className="min-w-0">
+                <span className="font-semibold text-gray-800">ฉบับที่ {version.version}</span>
+                {version === latest && <span className="ml-2 text-[11px] px-2 py-0.5 rounded-full bg-green-100 text-green-700">ล่าสุด</span>}
+                <span className="ml-2 text-xs text-gray-500">โดย {version.publishedBy} เมื่อ {formatTime(version.publishedAt)}</span>
+                {version.note && <p className="text-xs text-gray-500 mt-0.5">{version.note}</p>}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => onView(version.id === viewedVersionId ? null : version)}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-medical-700 hover:bg-medical-50 rounded-lg transition"
+                >
+                  <Eye size={12} /> {version.id === viewedVersionId ? 'ปิด' : 'ดู'}
+                </button>
+                {isAdmin && (
+                  <button
+                    onClick={() => onRestore(version)}
+                    disabled={isBusy}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded-lg transition disabled:opacity-50"
+                  >
+                    <RotateCcw size={12} /> กู้คืนเป็นฉบับร่าง
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleVersionBar;
@@ -0,0 +1,220 @@
+
+import React, { useState } from 'react';
+import { Doctor, ScheduleConfig, ShiftDefinition } from '../types';
+import { Clock, Plus, Pencil, Trash2, Save, X, Info } from 'lucide-react';
+import { collectTags, formatShiftTime } from '../utils/scheduleCells';
+import TagInput from './TagInput';
+
+interface Props {
+  config: ScheduleConfig;
+  doctors: Doctor[];
+  setConfig: React.Dispatch<React.SetStateAction<ScheduleConfig>>;
+  isAdmin: boolean;
+}
+
+const ShiftManager: React.FC<Props> = ({ config, doctors, setConfig, isAdmin }) => {
+  // Shift being edited in the modal; it is new until its id is in config.shifts
+  const [draft, setDraft] = useState<ShiftDefinition | null>(null);
+  const isNew = !!draft && !config.shifts.some(s => s.id === draft.id);
+  const isValid = !!draft && !!draft.name.trim() && !!draft.start && !!draft.end && (draft.weekday || draft.holiday);
+
+  const openNew = () => {
+    setDraft({ id: crypto.randomUUID(), name: '', start: '08:00', end: '16:00', weekday: true, holiday: true });
+  };
+
+  const saveDraft = () => {
+    if (!draft || !isValid) return;
+    const shift = { ...draft, name: draft.name.trim() };
+    const shifts = isNew
+      ? [...config.shifts, shift]
+      : config.shifts.map(s => (s.id === shift.id ? shift : s));
+    setConfig({ ...config, shifts });
+    setDraft(null);
+  };
+
+  const removeShift = (id: string) => {
+    if (config.shifts.length === 1) {
+      alert('ต้องมีช่วงเวรอย่างน้อย 1 ช่วง');
+      return;
+    }
+    if (!window.confirm('ต้องการลบช่วงเวรนี้ใช่หรือไม่? วอร์ดและกฎการต่อเวรที่ใช้เวรนี้จะถูกนำเวรนี้ออก และเวรที่บันทึกไว้แล้วจะไม่แสดงในตาราง')) return;
+    setConfig({
+      ...config,
+      shifts: config.shifts.filter(s => s.id !== id),
+      wards: config.wards.map(w => ({
+        ...w,
+        weekdayShifts: w.weekdayShifts.filter(s => s !== id),
+        holidayShifts: w.holidayShifts.filter(s => s !== id)
+      })),
+      rotationRules: config.rotationRules.filter(r => r.fromShift !== id && r.toShift !== id)
+    });
+  };
+
+  const describeDays = (shift: ShiftDefinition) =>
+    [shift.weekday && 'วันธรรมดา', shift.holiday && 'วันหยุด'].filter(Boolean).join(' / ');
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-6 border-b border-gray-200 bg-gray-50/50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <Clock className="text-medical-600" /> ตั้งค่าช่วงเวร
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">กำหนดชื่อ เวลาเริ่ม-สิ้นสุด และประเภทวันที่มีเวรแต่ละช่วง</p>
+          </div>
+          {isAdmin && (
+            <button
+              onClick={openNew}
+              className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium flex items-center gap-1 w-fit"
+            >
+              <Plus size={16} /> เพิ่มช่วงเวร
+            </button>
+          )}
+        </div>
+
+        <div className="p-6 space-y-3">
+          {config.shifts.map(shift => (
+            <div
+              key={shift.id}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-gray-200 rounded-xl bg-white"
+            >
+              <div>
+                <div className="font-semibold text-gray-800">
+                  {shift.name} <span className="text-sm font-normal text-gray-500">({formatShiftTime(shift)})</span>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  มีเวร: {describeDays(shift)}
+                  {!!shift.requiredTags?.length && ` · ต้องมีคุณสมบัติ: ${shift.requiredTags.join(', ')}`}
+                </div>
+              </div>
+
+              {isAdmin && (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setDraft(shift)}
+                    className="text-gray-400 hover:text-medical-600 p-1.5 hover:bg-medical-50 rounded"
+                    title="แก้ไข"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => removeShift(shift.id)}
+                    className="text-gray-400 hover:text-red-600 p-1.5 hover:bg-red-50 rounded"
+                    title="ลบ"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="mt-4 flex items-start gap-2 text-sm text-gray-500 bg-gray-50 p-3 rounded-lg">
+            <Info size={16} className="mt-0.5 text-medical-600 flex-shrink-0" />
+            <p>
+              เรียงช่วงเวรตามเวลาในแต่ละวัน ช่วงเวรที่ปิดในวันธรรมดาหรือวันหยุดจะไม่ถูกสร้างในวันนั้น แม้วอร์ดจะเปิดเวรนี้ไว้
+              การเปลี่ยนแปลงจะมีผลกับเดือนที่ยังไม่มีตารางเวร และการจัดเวรครั้งถัดไป
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Shift Edit Modal (Admin Only) */}
+      {draft && isAdmin && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+              <h3 className="font-bold text-gray-800">{isNew ? 'เพิ่มช่วงเวร' : 'แก้ไขช่วงเวร'}</h3>
+              <button
+                onClick={() => setDraft(null)}
+                className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-lg transition"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">ชื่อช่วงเวร</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="เช่น เช้า / บ่าย / ดึก"
+                  className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+                  autoFocus
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">เวลาเริ่ม</label>
+                  <input
+                    type="time"
+                    value={draft.start}
+                    onChange={(e) => setDraft({ ...draft, start: e.target.value })}
+                    className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">เวลาสิ้นสุด</label>
+                  <input
+                    type="time"
+                    value={draft.end}
+                    onChange={(e) => setDraft({ ...draft, end: e.target.value })}
+                    className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">มีเวรในวัน</label>
+                <div className="flex items-center gap-4">
+                  {([['weekday', 'วันธรรมดา'], ['holiday', 'วันหยุด']] as const).map(([field, label]) => (
+                    <label key={field} className="flex items-center gap-1 text-sm text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={draft[field]}
+                        onChange={() => setDraft({ ...draft, [field]: !draft[field] })}
+                        className="accent-medical-600"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">คุณสมบัติที่แพทย์ต้องมี</label>
+                <TagInput
+                  tags={draft.requiredTags || []}
+                  onChange={(requiredTags) => setDraft({ ...draft, requiredTags })}
+                  suggestions={collectTags(doctors, config)}
+                />
+              </div>
+
+              <div className="pt-2 flex gap-2 justify-end">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition text-sm font-medium"
+                >
+                  ยกเลิก
+                </button>
+                <button
+                  onClick={saveDraft}
+                  disabled={!isValid}
+                  className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Save size={16} /> บันทึก
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShiftManager;
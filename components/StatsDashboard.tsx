@@ -0,0 +1,277 @@
+
+import React, { useMemo, useState } from 'react';
+import { DailySchedule, Doctor, DoctorStats, ShiftDefinition, WardDefinition } from '../types';
+import { computeDoctorStats, computePreferenceSummary } from '../utils/scheduleStats';
+import { BarChart3, ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Heart } from 'lucide-react';
+
+interface Props {
+  schedule: DailySchedule[];
+  doctors: Doctor[];
+  wards: WardDefinition[];
+  shifts: ShiftDefinition[];
+  monthLabel: string;
+  cycleMonth: (direction: 'prev' | 'next') => void;
+  disabled?: boolean;
+}
+
+// Ward columns sort by `ward:<id>`, shift columns by `shift:<id>`
+type SortKey = Exclude<keyof DoctorStats, 'doctorId' | 'color' | 'wardShifts' | 'shiftCounts'> | `ward:${string}` | `shift:${string}`;
+
+interface Column {
+  key: SortKey;
+  label: string;
+  hint?: string;
+}
+
+const LEADING_COLUMNS: Column[] = [
+  { key: 'name', label: 'แพทย์' },
+  { key: 'totalShifts', label: 'เวรทั้งหมด' },
+  { key: 'dutyDays', label: 'วันอยู่เวร' }
+];
+
+const DAY_TYPE_COLUMNS: Column[] = [
+  { key: 'holidayDays', label: 'วันหยุด', hint: 'จำนวนวันที่อยู่เวรในวันหยุด/เสาร์-อาทิตย์' },
+  { key: 'weekdayDays', label: 'วันธรรมดา', hint: 'จำนวนวันที่อยู่เวรในวันธรรมดา' }
+];
+
+const TRAILING_COLUMNS: Column[] = [
+  { key: 'minRestGap', label: 'พักน้อยสุด', hint: 'จำนวนวันพักที่น้อยที่สุดระหว่างวันอยู่เวร 2 วัน' },
+  { key: 'longestStreak', label: 'ติดกันสูงสุด', hint: 'จำนวนวันที่อยู่เวรติดต่อกันมากที่สุด' }
+];
+
+const valueOf = (s: DoctorStats, key: SortKey) => {
+  if (key.startsWith('ward:')) return s.wardShifts[key.slice(5)] || 0;
+  if (key.startsWith('shift:')) return s.shiftCounts[key.slice(6)] || 0;
+  return s[key as Exclude<SortKey, `ward:${string}` | `shift:${string}`>];
+};
+
+const StatsDashboard: React.FC<Props> = ({ schedule, doctors, wards, shifts, monthLabel, cycleMonth, disabled = false }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('totalShifts');
+  const [sortAsc, setSortAsc] = useState(false);
+
+  const stats = useMemo(() => computeDoctorStats(schedule, doctors), [schedule, doctors]);
+  const preferences = useMemo(() => computePreferenceSummary(schedule, doctors), [schedule, doctors]);
+
+  // Active wards, plus removed/inactive ones that still have shifts this month
+  const shownWards = useMemo(
+    () => wards.filter(w => w.active || stats.some(s => s.wardShifts[w.id])),
+    [wards, stats]
+  );
+  const columns: Column[] = [
+    ...LEADING_COLUMNS,
+    ...shownWards.map(w => ({ key: `ward:${w.id}` as SortKey, label: w.name })),
+    ...DAY_TYPE_COLUMNS,
+    ...shifts.map(sh => ({ key: `shift:${sh.id}` as SortKey, label: sh.name, hint: `${sh.start} - ${sh.end}` })),
+    ...TRAILING_COLUMNS
+  ];
+
+  const sorted = useMemo(() => {
+    return [...stats].sort((a, b) => {
+      const x = valueOf(a, sortKey);
+      const y = valueOf(b, sortKey);
+      let diff: number;
+      if (typeof x === 'string' && typeof y === 'string') diff = x.localeCompare(y, 'th');
+      // No rest gap yet (fewer than 2 duty days) always goes last
+      else if (x === null) return y === null ? 0 : 1;
+      else if (y === null) return -1;
+      else diff = (x as number) - (y as number);
+      return sortAsc ? diff : -diff;
+    });
+  }, [stats, sortKey, sortAsc]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAsc(!sortAsc);
+    } else {
+      setSortKey(key);
+      setSortAsc(key === 'name');
+    }
+  };
+
+  const maxShifts = Math.max(1, ...stats.map(s => s.totalShifts));
+  const maxDays = Math.max(1, ...stats.map(s => s.dutyDays));
+
+  // Stacked bar per doctor; segments are drawn in the order of `legend`
+  const renderBars = (
+    title: string,
+    valuesOf: (s: DoctorStats) => number[],
+    max: number,
+    legend: { label: string; color: string }[]
+  ) => (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-bold text-gray-800">{title}</h3>
+        <div className="flex flex-wrap items-center justify-end gap-3 text-[10px] text-gray-500">
+          {legend.map(item => (
+            <span key={item.label} className="flex items-center gap-1">
+              <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: item.color }}></span>{item.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        {sorted.map(s => {
+          const values = valuesOf(s);
+          return (
+            <div key={s.doctorId} className="flex items-center gap-2 text-xs">
+              <span className="w-28 truncate text-gray-700" title={s.name}>{s.name}</span>
+              <div className="flex-1 flex h-4 bg-gray-100 rounded overflow-hidden">
+                {values.map((value, i) => (
+                  <div
+                    key={legend[i].label}
+                    style={{ width: `${(value / max) * 100}%`, backgroundColor: legend[i].color }}
+                    title={`${legend[i].label} ${value}`}
+                  ></div>
+                ))}
+              </div>
+              <span className="w-8 text-right font-semibold text-gray-700">{values.reduce((sum, v) => sum + v, 0)}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-3 md:p-6 border-b border-gray-200 flex flex-col md:flex-row md:items-center justify-between gap-4 bg-gray-50/50">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <BarChart3 className="text-medical-600" /> สถิติภาระงานแพทย์
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">จำนวนเวรของแพทย์แต่ละคน เพื่อตรวจสอบความเป็นธรรมของการจัดเวร</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => cycleMonth('prev')}
+              disabled={disabled}
+              className="p-2 hover:bg-gray-100 rounded-full text-gray-500 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
+            >
+              <ChevronLeft size={20} />
+            </button>
+            <span className="text-sm font-bold text-gray-800 w-32 text-center">{monthLabel}</span>
+            <button
+              onClick={() => cycleMonth('next')}
+              disabled={disabled}
+              className="p-2 hover:bg-gray-100 rounded-full text-gray-500 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
+            >
+              <ChevronRight size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                {columns.map(col => (
+                  <th key={col.key} className={`p-3 font-semibold text-gray-600 whitespace-nowrap ${col.key === 'name' ? '' : 'text-center'}`}>
+                    <button
+                      onClick={() => handleSort(col.key)}
+                      className="inline-flex items-center gap-1 hover:text-medical-700"
+                      title={col.hint}
+                    >
+                      {col.label}
+                      {sortKey === col.key && (sortAsc ? <ChevronUp size={14} /> : <ChevronDown size={14} />)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sorted.length === 0 ? (
+                <tr>
+                  <td colSpan={columns.length} className="p-8 text-center text-gray-400">
+                    ยังไม่มีข้อมูลเวรในเดือนนี้
+                  </td>
+                </tr>
+              ) : (
+                sorted.map(s => (
+                  <tr key={s.doctorId} className="hover:bg-gray-50 transition">
+                    <td className="p-3 whitespace-nowrap">
+                      <div className="flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-full border border-black/10" style={{ backgroundColor: s.color }}></span>
+                        <span className="font-medium text-gray-800">{s.name}</span>
+                      </div>
+                    </td>
+                    <td className="p-3 text-center font-bold text-gray-800">{s.totalShifts}</td>
+                    <td className="p-3 text-center">{s.dutyDays}</td>
+                    {shownWards.map(w => (
+                      <td key={w.id} className="p-3 text-center">{s.wardShifts[w.id] || 0}</td>
+                    ))}
+                    <td className="p-3 text-center">{s.holidayDays}</td>
+                    <td className="p-3 text-center">{s.weekdayDays}</td>
+                    {shifts.map(sh => (
+                      <td key={sh.id} className="p-3 text-center">{s.shiftCounts[sh.id] || 0}</td>
+                    ))}
+                    <td className={`p-3 text-center ${s.minRestGap !== null && s.minRestGap < 2 ? 'text-amber-600 font-semibold' : ''}`}>
+                      {s.minRestGap ?? '-'}
+                    </td>
+                    <td className={`p-3 text-center ${s.longestStreak > 1 ? 'text-red-600 font-semibold' : ''}`}>
+                      {s.longestStreak}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {stats.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {renderBars(
+            'เวรแยกตามวอร์ด',
+            s => shownWards.map(w => s.wardShifts[w.id] || 0),
+            maxShifts,
+            shownWards.map(w => ({ label: w.name, color: w.color }))
+          )}
+          {renderBars(
+            'วันอยู่เวร วันหยุด / วันธรรมดา',
+            s => [s.holidayDays, s.weekdayDays],
+            maxDays,
+            [{ label: 'วันหยุด', color: '#fbbf24' }, { label: 'วันธรรมดา', color: '#d1d5db' }]
+          )}
+        </div>
+      )}
+
+      {preferences.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="p-4 border-b border-gray-100 flex items-center gap-2">
+            <Heart size={16} className="text-pink-500" />
+            <h3 className="text-sm font-bold text-gray-800">วันที่ขออยู่เวร / ขอไม่อยู่เวร ที่ได้ตามคำขอ</h3>
+          </div>
+          <table className="w-full text-left border-collapse text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="p-3 font-semibold text-gray-600">แพทย์</th>
+                <th className="p-3 font-semibold text-gray-600 text-center">ขออยู่เวร</th>
+                <th className="p-3 font-semibold text-gray-600 text-center">ขอไม่อยู่เวร</th>
+                <th className="p-3 font-semibold text-gray-600 text-center">รวม</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {preferences.map(p => {
+                const honoured = p.honouredOn + p.honouredOff;
+                const requested = p.preferredOn + p.preferredOff;
+                return (
+                  <tr key={p.doctorId} className="hover:bg-gray-50 transition">
+                    <td className="p-3 font-medium text-gray-800">{p.name}</td>
+                    <td className="p-3 text-center">{p.preferredOn > 0 ? `${p.honouredOn}/${p.preferredOn}` : '-'}</td>
+                    <td className="p-3 text-center">{p.preferredOff > 0 ? `${p.honouredOff}/${p.preferredOff}` : '-'}</td>
+                    <td className={`p-3 text-center font-semibold ${honoured === requested ? 'text-green-600' : 'text-amber-600'}`}>
+                      {Math.round((honoured / requested) * 100)}%
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatsDashboard;
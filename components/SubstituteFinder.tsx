@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { DailySchedule, Doctor, ScheduleConfig, ShiftPeriod, SubstituteTone, WardKey } from '../types';
+import { UserSearch, X, Check, ChevronDown, ChevronUp, Info } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { getCell, getShiftName } from '../utils/scheduleCells';
+import { findSubstitutes } from '../utils/substitutes';
+
+interface Props {
+  schedule: DailySchedule[];
+  doctors: Doctor[];
+  config: ScheduleConfig;
+  context: DailySchedule[]; // Saved neighbouring days, for rest gaps across the month boundary
+  date: string;
+  shift: ShiftPeriod;
+  ward: WardKey;
+  onApply: (doctorId: string) => void;
+  onClose: () => void;
+}
+
+const TONE_CLASSES: Record<SubstituteTone, string> = {
+  good: 'bg-green-50 text-green-700 border-green-200',
+  neutral: 'bg-gray-50 text-gray-600 border-gray-200',
+  bad: 'bg-red-50 text-red-700 border-red-200'
+};
+
+const SubstituteFinder: React.FC<Props> = ({ schedule, doctors, config, context, date, shift, ward, onApply, onClose }) => {
+  const [showExcluded, setShowExcluded] = useState(false);
+
+  const { cells, candidates, excluded } = useMemo(
+    () => findSubstitutes(schedule, doctors, config, context, date, shift, ward),
+    [schedule, doctors, config, context, date, shift, ward]
+  );
+
+  const day = schedule.find(d => d.date === date);
+  const current = doctors.find(d => d.id === (day ? getCell(day, shift, ward) : null));
+  const doctorOf = (id: string) => doctors.find(d => d.id === id);
+  const wardName = (id: WardKey) => config.wards.find(w => w.id === id)?.name || id;
+  const describeCell = ([s, w]: [ShiftPeriod, WardKey]) => `เวร${getShiftName(config.shifts, s)} ${wardName(w)}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+          <div>
+            <h3 className="font-bold text-gray-800 flex items-center gap-2">
+              <UserSearch className="text-medical-600" size={20} />
+              หาแพทย์แทน: {current?.name || '-'}
+            </h3>
+            <p className="text-xs text-gray-500 mt-1">
+              {format(parseISO(date), 'EEEE d MMMM yyyy', { locale: th })} · {cells.map(describeCell).join(', ')}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-lg transition"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          {cells.length > 1 && (
+            <div className="flex items-start gap-2 text-xs text-gray-500 bg-gray-50 p-3 rounded-lg">
+              <Info size={14} className="mt-0.5 text-medical-600 flex-shrink-0" />
+              <p>เวรที่ต่อกันตามกฎการต่อเวรจะเปลี่ยนเป็นแพทย์ที่เลือกทั้งหมด</p>
+            </div>
+          )}
+
+          {candidates.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-4">ไม่มีแพทย์ที่รับเวรนี้ได้</p>
+          )}
+
+          {candidates.map((candidate, index) => {
+            const doctor = doctorOf(candidate.doctorId);
+            if (!doctor) return null;
+            return (
+              <div key={candidate.doctorId} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 border border-gray-200 rounded-xl">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-bold text-gray-400 w-5">{index + 1}.</span>
+                    <span className="w-3 h-3 rounded-full border border-gray-300" style={{ backgroundColor: doctor.color }} />
+                    <span className="font-semibold text-gray-800">{doctor.name}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1.5 mt-2 ml-7">
+                    {candidate.reasons.map((r, i) => (
+                      <span key={i} className={`text-[11px] px-2 py-0.5 rounded-full border ${TONE_CLASSES[r.tone]}`}>{r.text}</span>
+                    ))}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onApply(candidate.doctorId)}
+                  className="px-3 py-1.5 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-xs font-medium flex items-center justify-center gap-1 flex-shrink-0"
+                >
+                  <Check size={14} /> ให้อยู่แทน
+                </button>
+              </div>
+            );
+          })}
+
+          {excluded.length > 0 && (
+            <div className="pt-2">
+              <button
+                onClick={() => setShowExcluded(!showExcluded)}
+                className="text-sm font-semibold text-gray-500 flex items-center gap-1 hover:text-gray-700"
+              >
+                {showExcluded ? <ChevronUp size={16} /> : <ChevronDown size={16} />} รับเวรนี้ไม่ได้ ({excluded.length})
+              </button>
+              {showExcluded && (
+                <div className="mt-2 space-y-1">
+                  {excluded.map(e => (
+                    <div key={e.doctorId} className="flex items-center justify-between gap-3 text-sm py-1 border-b border-gray-50 last:border-0">
+                      <span className="text-gray-600">{doctorOf(e.doctorId)?.name}</span>
+                      <span className="text-xs text-gray-400">{e.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubstituteFinder;
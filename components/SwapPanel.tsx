@@ -0,0 +1,449 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CellChange, DailySchedule, DraftRevisions, Doctor, ScheduleConfig, ShiftPeriod, SwapRequest, SwapStatus, User, WardKey } from '../types';
+import { ArrowLeftRight, Send, Check, X, Loader2, Info, Trash2, AlertTriangle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { dataService } from '../services/dataService';
+import { getAssignedCells, getShiftName } from '../utils/scheduleCells';
+import { SwapCells, applyCellChanges, findIntroducedViolations, getSwapChanges } from '../utils/swaps';
+
+interface Props {
+  doctors: Doctor[];
+  config: ScheduleConfig;
+  user: User;
+  onApplied: (changes: CellChange[], revisions: DraftRevisions) => void; // Lets the app patch the schedule on screen
+}
+
+type SwapMode = 'give' | 'trade';
+
+const STATUS_STYLES: Record<SwapStatus, { label: string; className: string }> = {
+  proposed: { label: 'รอการตอบรับ', className: 'bg-amber-100 text-amber-700' },
+  accepted: { label: 'รออนุมัติ', className: 'bg-blue-100 text-blue-700' },
+  applied: { label: 'แลกเวรแล้ว', className: 'bg-green-100 text-green-700' },
+  declined: { label: 'ถูกปฏิเสธ', className: 'bg-gray-100 text-gray-600' },
+  rejected: { label: 'ไม่อนุมัติ', className: 'bg-red-100 text-red-700' }
+};
+
+// Cells are picked from a select, so they travel as "date|shift|ward"
+const cellValue = (date: string, shift: ShiftPeriod, ward: WardKey) => `${date}|${shift}|${ward}`;
+const parseCell = (value: string) => {
+  const [date, shift, ward] = value.split('|');
+  return { date, shift, ward };
+};
+
+const formatDate = (date: string) => format(parseISO(date), 'EEE d MMM yy', { locale: th });
+
+const SwapPanel: React.FC<Props> = ({ doctors, config, user, onApplied }) => {
+  const isAdmin = user.role === 'admin';
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const [requests, setRequests] = useState<SwapRequest[]>([]);
+  // Swaps work on the published schedule, which the server publishes again with the swap (the draft follows)
+  const [savedDays, setSavedDays] = useState<DailySchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // New request form; linked doctors offer their own shifts, admins may file for anyone
+  const [fromDoctorId, setFromDoctorId] = useState(user.doctorId || '');
+  const isOwnDoctorOnly = !isAdmin && !!user.doctorId;
+  const [cell, setCell] = useState('');
+  const [toDoctorId, setToDoctorId] = useState('');
+  const [mode, setMode] = useState<SwapMode>('give');
+  const [tradeCell, setTradeCell] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadSavedDays = async () => {
+    const days = await dataService.getPublishedSchedule();
+    const normalized = days.map(d => ({ ...d, date: d.date.split('T')[0] }));
+    setSavedDays(normalized);
+    return normalized;
+  };
+
+  useEffect(() => {
+    let isActive = true;
+    Promise.all([dataService.getSwapRequests(), dataService.getPublishedSchedule()])
+      .then(([loaded, days]) => {
+        if (!isActive) return;
+        setRequests(loaded);
+        setSavedDays(days.map(d => ({ ...d, date: d.date.split('T')[0] })));
+      })
+      .catch(error => console.error("Failed to load swap requests:", error))
+      .finally(() => { if (isActive) setIsLoading(false); });
+    return () => { isActive = false; };
+  }, []);
+
+  const nameOf = (id: string) => doctors.find(d => d.id === id)?.name || '(ลบแล้ว)';
+  const wardName = (id: string) => config.wards.find(w => w.id === id)?.name || id;
+  const describeCell = (date: string, shift: ShiftPeriod, ward: WardKey) =>
+    `${formatDate(date)} เวร${getShiftName(config.shifts, shift)} ${wardName(ward)}`;
+
+  // A doctor's saved shifts from today on
+  const upcomingCells = (doctorId: string) => savedDays
+    .filter(day => day.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap(day => getAssignedCells(day)
+      .filter(([, , id]) => id === doctorId)
+      .map(([shift, ward]) => ({ value: cellValue(day.date, shift, ward), label: describeCell(day.date, shift, ward) })));
+
+  const ownCells = useMemo(() => (fromDoctorId ? upcomingCells(fromDoctorId) : []), [savedDays, fromDoctorId]);
+  const theirCells = useMemo(() => (toDoctorId ? upcomingCells(toDoctorId) : []), [savedDays, toDoctorId]);
+
+  const draft: SwapCells | null = fromDoctorId && toDoctorId && cell && (mode === 'give' || tradeCell)
+    ? { fromDoctorId, toDoctorId, ...parseCell(cell), trade: mode === 'trade' ? parseCell(tradeCell) : undefined }
+    : null;
+
+  const preview = useMemo(() => {
+    if (!draft) return null;
+    const { changes, error } = getSwapChanges(savedDays, draft, config);
+    const introduced = error ? [] : findIntroducedViolations(savedDays, changes, doctors, config);
+    return { changes, error, introduced };
+  }, [savedDays, fromDoctorId, toDoctorId, cell, mode, tradeCell, doctors, config]);
+
+  const isValid = !!draft && !!preview && !preview.error && preview.introduced.length === 0;
+
+  const describeChange = (change: CellChange) =>
+    `${describeCell(change.date, change.shift, change.ward)}: ${nameOf(change.from || '')} → ${nameOf(change.to || '')}`;
+
+  const submitRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !isValid) return;
+    setIsSubmitting(true);
+    try {
+      const created = await dataService.createSwapRequest({
+        ...draft,
+        note: note.trim() || undefined
+      });
+      setRequests(prev => [created, ...prev]);
+      setCell('');
+      setTradeCell('');
+      setNote('');
+    } catch (error: any) {
+      alert("ส่งคำขอไม่สำเร็จ: " + error.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Re-reads the published schedule to warn before sending; the server builds and checks the swap again.
+  // Returns null to stop, otherwise whether the admin approves over broken rules.
+  const checkSwap = async (request: SwapRequest, allowOverride: boolean): Promise<{ override: boolean } | null> => {
+    const days = await loadSavedDays();
+    const { changes, error } = getSwapChanges(days, request, config);
+    if (error) {
+      alert(error);
+      return null;
+    }
+    const introduced = findIntroducedViolations(days, changes, doctors, config);
+    if (introduced.length > 0) {
+      const list = introduced.map(v => `- ${v.message}`).join('\n');
+      if (!allowOverride) {
+        alert(`ไม่สามารถแลกเวรได้ เนื่องจากขัดกับกฎการจัดเวร:\n${list}`);
+        return null;
+      }
+      if (!window.confirm(`การแลกเวรนี้ขัดกับกฎการจัดเวร:\n${list}\n\nต้องการอนุมัติต่อหรือไม่?`)) return null;
+    }
+    return { override: introduced.length > 0 };
+  };
+
+  const finishApply = (changes: CellChange[], revisions: DraftRevisions) => {
+    setSavedDays(prev => applyCellChanges(prev, changes));
+    onApplied(changes, revisions);
+  };
+
+  const respondRequest = async (request: SwapRequest, accept: boolean) => {
+    setBusyId(request.id);
+    try {
+      if (accept && !(await checkSwap(request, false))) return;
+      const result = await dataService.respondSwapRequest(request.id, accept);
+      setRequests(prev => prev.map(r => (r.id === request.id ? result.request : r)));
+      if (result.applied) finishApply(result.changes, result.revisions);
+    } catch (error: any) {
+      alert("บันทึกการตอบรับไม่สำเร็จ: " + error.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const reviewRequest = async (request: SwapRequest, status: 'applied' | 'rejected') => {
+    let reviewNote: string | undefined;
+    if (status === 'rejected') {
+      const reason = window.prompt('เหตุผลที่ไม่อนุมัติ (ไม่บังคับ)');
+      if (reason === null) return;
+      reviewNote = reason.trim() || undefined;
+    }
+    setBusyId(request.id);
+    try {
+      const checked = status === 'applied' ? await checkSwap(request, true) : { override: false };
+      if (!checked) return;
+      const result = await dataService.reviewSwapRequest(request.id, status, reviewNote, checked.override);
+      setRequests(prev => prev.map(r => (r.id === request.id ? result.request : r)));
+      if (result.applied) finishApply(result.changes, result.revisions);
+    } catch (error: any) {
+      alert("บันทึกผลการพิจารณาไม่สำเร็จ: " + error.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const cancelRequest = async (request: SwapRequest) => {
+    if (!window.confirm('ต้องการยกเลิกคำขอนี้ใช่หรือไม่?')) return;
+    setBusyId(request.id);
+    try {
+      await dataService.deleteSwapRequest(request.id);
+      setRequests(prev => prev.filter(r => r.id !== request.id));
+    } catch (error: any) {
+      alert("ยกเลิกคำขอไม่สำเร็จ: " + error.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const isMine = (request: SwapRequest) =>
+    request.requestedBy === user.username ||
+    (!!user.doctorId && (request.fromDoctorId === user.doctorId || request.toDoctorId === user.doctorId));
+
+  const visible = isAdmin ? requests : requests.filter(isMine);
+  const open = visible
+    .filter(r => r.status === 'proposed' || r.status === 'accepted')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const closed = visible.filter(r => r.status !== 'proposed' && r.status !== 'accepted');
+  const waitingOnAdmin = open.filter(r => r.status === 'accepted').length;
+
+  const renderRequest = (request: SwapRequest) => {
+    const status = STATUS_STYLES[request.status];
+    const isBusy = busyId === request.id;
+    const canRespond = request.status === 'proposed' && !!user.doctorId && request.toDoctorId === user.doctorId;
+    const canReview = request.status === 'accepted' && isAdmin;
+    const canCancel = (request.status === 'proposed' || request.status === 'accepted') && (isAdmin || request.requestedBy === user.username);
+
+    return (
+      <div key={request.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-gray-200 rounded-xl bg-white">
+        <div className="min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-semibold text-gray-800">{nameOf(request.fromDoctorId)}</span>
+            <ArrowLeftRight size={14} className="text-gray-400" />
+            <span className="font-semibold text-gray-800">{nameOf(request.toDoctorId)}</span>
+            <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">{request.trade ? 'แลกเวร' : 'ยกเวร'}</span>
+            <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+          </div>
+          <div className="text-sm text-gray-600 mt-1">
+            ให้: {describeCell(request.date, request.shift, request.ward)}
+            {request.trade && <> · รับคืน: {describeCell(request.trade.date, request.trade.shift, request.trade.ward)}</>}
+          </div>
+          {request.note && <div className="text-xs text-gray-500 mt-1">หมายเหตุ: {request.note}</div>}
+          <div className="text-[11px] text-gray-400 mt-1">
+            ส่งโดย {request.requestedBy} เมื่อ {format(new Date(request.createdAt), 'd MMM yy HH:mm', { locale: th })}
+            {request.reviewedBy && ` · พิจารณาโดย ${request.reviewedBy}`}
+            {request.reviewNote && ` · ${request.reviewNote}`}
+          </div>
+        </div>
+
+        {(canRespond || canReview || canCancel) && (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {isBusy && <Loader2 size={16} className="animate-spin text-gray-400" />}
+            {(canRespond || canReview) && (
+              <>
+                <button
+                  onClick={() => (canReview ? reviewRequest(request, 'rejected') : respondRequest(request, false))}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-red-50 hover:text-red-700 transition text-xs font-medium flex items-center gap-1 disabled:opacity-50"
+                >
+                  <X size={14} /> {canReview ? 'ไม่อนุมัติ' : 'ปฏิเสธ'}
+                </button>
+                <button
+                  onClick={() => (canReview ? reviewRequest(request, 'applied') : respondRequest(request, true))}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-xs font-medium flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Check size={14} /> {canReview ? 'อนุมัติ' : 'ตอบรับ'}
+                </button>
+              </>
+            )}
+            {canCancel && (
+              <button
+                onClick={() => cancelRequest(request)}
+                disabled={isBusy}
+                className="text-gray-400 hover:text-red-600 p-1.5 hover:bg-red-50 rounded disabled:opacity-50"
+                title="ยกเลิกคำขอ"
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const canPropose = isAdmin || !!user.doctorId;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* New Request */}
+      <form onSubmit={submitRequest} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-3 md:p-6 border-b border-gray-200 bg-gray-50/50">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Send className="text-medical-600" /> ขอยก / แลกเวร
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            แพทย์อีกฝ่ายต้องตอบรับก่อน{config.swapApprovalRequired ? ' แล้วจึงรอผู้ดูแลระบบอนุมัติ' : ''} เวรที่ต่อกัน (เช่น บ่ายต่อดึก) จะย้ายไปพร้อมกัน
+          </p>
+        </div>
+
+        {!canPropose ? (
+          <div className="p-3 md:p-6">
+            <p className="text-sm text-gray-500 bg-gray-50 p-3 rounded-lg">บัญชีนี้ยังไม่ได้ผูกกับรายชื่อแพทย์ กรุณาติดต่อผู้ดูแลระบบ</p>
+          </div>
+        ) : (
+          <div className="p-3 md:p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">แพทย์ผู้ขอ</label>
+                <select
+                  value={fromDoctorId}
+                  onChange={(e) => { setFromDoctorId(e.target.value); setCell(''); }}
+                  disabled={isOwnDoctorOnly}
+                  className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                >
+                  <option value="">- เลือกแพทย์ -</option>
+                  {doctors.filter(d => d.active).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">เวรที่ต้องการยก/แลก</label>
+                <select
+                  value={cell}
+                  onChange={(e) => setCell(e.target.value)}
+                  className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                >
+                  <option value="">{ownCells.length > 0 ? '- เลือกเวร -' : '- ไม่มีเวรที่กำลังจะถึง -'}</option>
+                  {ownCells.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">ให้แพทย์</label>
+                <select
+                  value={toDoctorId}
+                  onChange={(e) => { setToDoctorId(e.target.value); setTradeCell(''); }}
+                  className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                >
+                  <option value="">- เลือกแพทย์ -</option>
+                  {doctors.filter(d => d.active && d.id !== fromDoctorId).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">รูปแบบ</label>
+                <div className="flex flex-wrap gap-1.5">
+                  {([['give', 'ยกเวรให้'], ['trade', 'แลกกับเวรของอีกฝ่าย']] as [SwapMode, string][]).map(([key, label]) => (
+                    <button
+                      key={key}
+                      type="button"
+                      onClick={() => setMode(key)}
+                      className={`px-3 py-1.5 rounded-full text-xs font-medium border transition ${mode === key ? 'border-medical-600 bg-medical-600 text-white' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {mode === 'trade' && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">รับเวรคืน</label>
+                <select
+                  value={tradeCell}
+                  onChange={(e) => setTradeCell(e.target.value)}
+                  className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                >
+                  <option value="">{theirCells.length > 0 ? '- เลือกเวรของอีกฝ่าย -' : '- ไม่มีเวรที่กำลังจะถึง -'}</option>
+                  {theirCells.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-xs font-semibold text-gray-600 mb-1 ml-1">หมายเหตุ</label>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="เช่น ติดธุระส่วนตัว"
+                className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+              />
+            </div>
+
+            {preview && (
+              <div className="text-sm bg-gray-50 p-3 rounded-lg space-y-1">
+                {preview.error ? (
+                  <p className="text-red-600">{preview.error}</p>
+                ) : (
+                  <>
+                    <p className="text-xs font-semibold text-gray-600">ช่องที่จะเปลี่ยน</p>
+                    {preview.changes.map(c => <p key={cellValue(c.date, c.shift, c.ward)} className="text-gray-700">{describeChange(c)}</p>)}
+                    {preview.introduced.map((v, i) => (
+                      <p key={i} className="text-red-600 flex items-start gap-1.5">
+                        <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" /> {v.message}
+                      </p>
+                    ))}
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={!isValid || isSubmitting}
+                className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium flex items-center justify-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />} ส่งคำขอ
+              </button>
+            </div>
+          </div>
+        )}
+      </form>
+
+      {/* Open Requests / Approval Queue */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-3 md:p-6 border-b border-gray-200 bg-gray-50/50 flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <ArrowLeftRight className="text-medical-600" /> คำขอแลกเวร
+            {waitingOnAdmin > 0 && isAdmin && (
+              <span className="text-xs font-semibold bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">{waitingOnAdmin}</span>
+            )}
+          </h2>
+        </div>
+
+        <div className="p-3 md:p-6 space-y-3">
+          {isLoading && (
+            <div className="flex items-center justify-center gap-2 text-sm text-gray-400 py-4">
+              <Loader2 size={16} className="animate-spin" /> กำลังโหลด...
+            </div>
+          )}
+
+          {!isLoading && visible.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-4">ยังไม่มีคำขอ</p>
+          )}
+
+          {open.map(renderRequest)}
+
+          {closed.length > 0 && (
+            <>
+              <h3 className="text-sm font-semibold text-gray-500 pt-2">ดำเนินการแล้ว</h3>
+              {closed.map(renderRequest)}
+            </>
+          )}
+
+          <div className="mt-4 flex items-start gap-2 text-sm text-gray-500 bg-gray-50 p-3 rounded-lg">
+            <Info size={16} className="mt-0.5 text-medical-600 flex-shrink-0" />
+            <p>การแลกเวรใช้ตารางเวรที่บันทึกแล้ว และตรวจสอบกฎการจัดเวรอีกครั้งก่อนบันทึก หากตารางถูกแก้ไขหลังส่งคำขอ ระบบจะไม่แลกเวรให้</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SwapPanel;
@@ -0,0 +1,76 @@
+
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+
+interface Props {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[]; // Tags already in use, offered with one click
+  placeholder?: string;
+}
+
+// Editable list of qualification tags (e.g. ICU, แพทย์อาวุโส)
+const TagInput: React.FC<Props> = ({ tags, onChange, suggestions = [], placeholder = 'พิมพ์แล้วกด Enter' }) => {
+  const [text, setText] = useState('');
+  const unused = suggestions.filter(tag => !tags.includes(tag));
+
+  const addTag = (value: string) => {
+    const tag = value.trim();
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setText('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {tags.map(tag => (
+          <span key={tag} className="inline-flex items-center gap-1 text-xs font-medium text-medical-700 bg-medical-50 border border-medical-200 px-2 py-0.5 rounded-full">
+            {tag}
+            <button onClick={() => onChange(tags.filter(t => t !== tag))} className="hover:text-red-600" title="นำออก">
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        {tags.length === 0 && <span className="text-xs text-gray-400">ไม่มี</span>}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addTag(text);
+            }
+          }}
+          placeholder={placeholder}
+          className="flex-1 p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+        />
+        <button
+          onClick={() => addTag(text)}
+          disabled={!text.trim()}
+          className="px-3 py-2 bg-gray-100 text-gray-600 hover:bg-gray-200 rounded-lg transition disabled:opacity-50"
+          title="เพิ่ม"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+      {unused.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {unused.map(tag => (
+            <button
+              key={tag}
+              onClick={() => addTag(tag)}
+              className="text-xs text-gray-500 bg-gray-50 border border-dashed border-gray-300 px-2 py-0.5 rounded-full hover:bg-gray-100"
+            >
+              + {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,104 @@
+
+import React, { useEffect, useState } from 'react';
+import { Doctor, User } from '../types';
+import { UserCog, Loader2, Info } from 'lucide-react';
+import { dataService } from '../services/dataService';
+
+interface Props {
+  doctors: Doctor[];
+  onLinked?: (username: string, doctorId?: string) => void; // Lets the app refresh the logged-in user
+}
+
+const ROLE_LABELS: Record<User['role'], string> = {
+  admin: 'ผู้ดูแลระบบ',
+  user: 'ผู้ใช้งาน',
+  viewer: 'ผู้ชม'
+};
+
+// Admin only: link login accounts to doctor records so doctors see their own shifts
+const UserManager: React.FC<Props> = ({ doctors, onLinked }) => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingUser, setSavingUser] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+    dataService.getUsers()
+      .then(loaded => { if (isActive) setUsers(loaded); })
+      .catch(error => console.error("Failed to load users:", error))
+      .finally(() => { if (isActive) setIsLoading(false); });
+    return () => { isActive = false; };
+  }, []);
+
+  const linkDoctor = async (username: string, value: string) => {
+    const doctorId = value || undefined;
+    setSavingUser(username);
+    try {
+      await dataService.linkUserToDoctor(username, doctorId || null);
+      setUsers(prev => prev.map(u => (u.username === username ? { ...u, doctorId } : u)));
+      onLinked?.(username, doctorId);
+    } catch (error: any) {
+      alert("บันทึกไม่สำเร็จ: " + error.message);
+    } finally {
+      setSavingUser(null);
+    }
+  };
+
+  // A doctor record belongs to one account at most
+  const linkedElsewhere = (username: string, doctorId: string) =>
+    users.some(u => u.username !== username && u.doctorId === doctorId);
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-6 border-b border-gray-200 bg-gray-50/50">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <UserCog className="text-medical-600" /> บัญชีผู้ใช้งาน
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">ผูกบัญชีกับรายชื่อแพทย์ เพื่อให้แพทย์เห็นเวรของตนเองและตารางเวรที่ไฮไลต์ช่องของตน</p>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {isLoading && (
+            <div className="flex items-center justify-center gap-2 text-sm text-gray-400 py-4">
+              <Loader2 size={16} className="animate-spin" /> กำลังโหลด...
+            </div>
+          )}
+
+          {users.map(u => (
+            <div
+              key={u.username}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border border-gray-200 rounded-xl bg-white"
+            >
+              <div>
+                <div className="font-semibold text-gray-800">{u.name || u.username}</div>
+                <div className="text-xs text-gray-500 mt-1">{u.username} · {ROLE_LABELS[u.role] || u.role}</div>
+              </div>
+              <div className="flex items-center gap-2">
+                {savingUser === u.username && <Loader2 size={16} className="animate-spin text-gray-400" />}
+                <select
+                  value={u.doctorId || ''}
+                  onChange={(e) => linkDoctor(u.username, e.target.value)}
+                  disabled={savingUser === u.username}
+                  className="w-full md:w-56 p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none bg-white"
+                >
+                  <option value="">- ไม่ผูกกับแพทย์ -</option>
+                  {doctors.map(d => (
+                    <option key={d.id} value={d.id} disabled={linkedElsewhere(u.username, d.id)}>{d.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ))}
+
+          <div className="mt-4 flex items-start gap-2 text-sm text-gray-500 bg-gray-50 p-3 rounded-lg">
+            <Info size={16} className="mt-0.5 text-medical-600 flex-shrink-0" />
+            <p>ผู้ใช้งานจะเห็นการเปลี่ยนแปลงเมื่อเข้าสู่ระบบครั้งถัดไป</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserManager;
@@ -0,0 +1,98 @@
+
+import React, { useState } from 'react';
+import { ScheduleViolation, GenerationResult } from '../types';
+import { ShieldCheck, AlertTriangle, AlertCircle, ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+
+interface Props {
+  violations: ScheduleViolation[];
+  generation?: Omit<GenerationResult, 'schedule'> | null; // Outcome of the last Generate click
+}
+
+const formatDate = (date?: string) =>
+  date ? new Date(date).toLocaleDateString('th-TH', { day: 'numeric', month: 'short' }) : 'ทั้งเดือน';
+
+const ValidationReport: React.FC<Props> = ({ violations, generation }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const hard = violations.filter(v => v.severity === 'hard');
+  const soft = violations.filter(v => v.severity === 'soft');
+
+  const unfixed = generation ? generation.violations.filter(v => v.severity === 'hard').length : 0;
+  const generationSummary = generation && (
+    <div className="flex items-center gap-2 px-3 py-2 text-xs text-gray-600 bg-medical-50 border-b border-medical-100">
+      <RefreshCw size={12} className="text-medical-600" />
+      <span>
+        สร้างตารางใน {generation.attempts} รอบ
+        {generation.repairedLocally && ' และซ่อมแซมอัตโนมัติในเครื่อง'}
+        {' · '}
+        {unfixed > 0
+          ? <span className="font-semibold text-red-600">เหลือ {unfixed} ข้อที่แก้ไขอัตโนมัติไม่ได้ กรุณาแก้ไขเอง</span>
+          : <span className="font-semibold text-green-600">ไม่มีการผิดกฎ</span>}
+      </span>
+    </div>
+  );
+
+  if (violations.length === 0) {
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-xl overflow-hidden">
+        {generationSummary}
+        <div className="flex items-center gap-2 text-green-700 p-3 text-sm font-medium">
+          <ShieldCheck size={18} /> ตารางเวรผ่านกฎทั้งหมด
+        </div>
+      </div>
+    );
+  }
+
+  const renderList = (items: ScheduleViolation[], isHard: boolean) => (
+    <ul className="divide-y divide-gray-100">
+      {items.map((v, idx) => (
+        <li key={idx} className="flex items-start gap-3 py-2 text-sm">
+          <span className={`flex-shrink-0 w-16 text-xs font-semibold mt-0.5 ${isHard ? 'text-red-600' : 'text-amber-600'}`}>
+            {formatDate(v.date)}
+          </span>
+          <span className="text-gray-700">{v.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+      {generationSummary}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-3 bg-gray-50/50 hover:bg-gray-50 transition"
+      >
+        <div className="flex items-center gap-3 text-sm font-bold text-gray-800">
+          ผลการตรวจสอบตารางเวร
+          {hard.length > 0 && (
+            <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-red-100 text-red-700 text-xs">
+              <AlertCircle size={12} /> ผิดกฎ {hard.length}
+            </span>
+          )}
+          {soft.length > 0 && (
+            <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 text-xs">
+              <AlertTriangle size={12} /> ข้อแนะนำ {soft.length}
+            </span>
+          )}
+        </div>
+        {isExpanded ? <ChevronUp size={18} className="text-gray-400" /> : <ChevronDown size={18} className="text-gray-400" />}
+      </button>
+
+      {isExpanded && (
+        <div className="p-3 grid grid-cols-1 lg:grid-cols-2 gap-4 max-h-72 overflow-y-auto border-t border-gray-100">
+          <div>
+            <h4 className="text-xs font-bold text-red-600 uppercase tracking-wider mb-1">กฎที่ต้องปฏิบัติ</h4>
+            {hard.length > 0 ? renderList(hard, true) : <p className="text-sm text-gray-400 py-2">ไม่พบการผิดกฎ</p>}
+          </div>
+          <div>
+            <h4 className="text-xs font-bold text-amber-600 uppercase tracking-wider mb-1">เป้าหมายความเหมาะสม</h4>
+            {soft.length > 0 ? renderList(soft, false) : <p className="text-sm text-gray-400 py-2">ไม่มีข้อแนะนำ</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValidationReport;
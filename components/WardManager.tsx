@@ -0,0 +1,266 @@
+
+import React, { useState } from 'react';
+import { Doctor, ScheduleConfig, ShiftPeriod, WardDefinition } from '../types';
+import { Building2, Plus, Pencil, Trash2, Save, X, Info, HeartPulse } from 'lucide-react';
+import { collectTags, getShiftName } from '../utils/scheduleCells';
+import TagInput from './TagInput';
+
+interface Props {
+  config: ScheduleConfig;
+  doctors: Doctor[];
+  setConfig: React.Dispatch<React.SetStateAction<ScheduleConfig>>;
+  isAdmin: boolean;
+}
+
+const WARD_COLORS = ['#7F95D1', '#F0725C', '#6BBF8A', '#E7B75F', '#A68BD8', '#5FB7C9'];
+
+const WardManager: React.FC<Props> = ({ config, doctors, setConfig, isAdmin }) => {
+  // Ward being edited in the modal; it is new until its id is in config.wards
+  const [draft, setDraft] = useState<WardDefinition | null>(null);
+  const isNew = !!draft && !config.wards.some(w => w.id === draft.id);
+
+  const openNew = () => {
+    setDraft({
+      id: crypto.randomUUID(),
+      name: '',
+      color: WARD_COLORS[config.wards.length % WARD_COLORS.length],
+      weekdayShifts: config.shifts.filter(s => s.weekday).map(s => s.id),
+      holidayShifts: config.shifts.filter(s => s.holiday).map(s => s.id),
+      intensiveCare: false,
+      active: true
+    });
+  };
+
+  const toggleShift = (field: 'weekdayShifts' | 'holidayShifts', shift: ShiftPeriod) => {
+    if (!draft) return;
+    const shifts = draft[field].includes(shift)
+      ? draft[field].filter(s => s !== shift)
+      : config.shifts.map(s => s.id).filter(s => s === shift || draft[field].includes(s));
+    setDraft({ ...draft, [field]: shifts });
+  };
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    const ward = { ...draft, name: draft.name.trim() };
+    const wards = isNew
+      ? [...config.wards, ward]
+      : config.wards.map(w => (w.id === ward.id ? ward : w));
+    setConfig({ ...config, wards });
+    setDraft(null);
+  };
+
+  const toggleActive = (id: string) => {
+    const wards = config.wards.map(w => (w.id === id ? { ...w, active: !w.active } : w));
+    // At least one ward must stay active
+    if (!wards.some(w => w.active)) return;
+    setConfig({ ...config, wards });
+  };
+
+  const removeWard = (id: string) => {
+    const wards = config.wards.filter(w => w.id !== id);
+    if (!wards.some(w => w.active)) {
+      alert('ต้องมีวอร์ดที่ใช้งานอย่างน้อย 1 วอร์ด');
+      return;
+    }
+    if (window.confirm('ต้องการลบวอร์ดนี้ใช่หรือไม่? เวรที่บันทึกไว้แล้วของวอร์ดนี้จะไม่แสดงในตาราง (แนะนำให้ปิดการใช้งานแทน)')) {
+      const rotationRules = config.rotationRules.filter(r => r.fromWard !== id && r.toWard !== id);
+      setConfig({ ...config, wards, rotationRules });
+    }
+  };
+
+  const describeShifts = (shifts: ShiftPeriod[]) =>
+    shifts.length > 0 ? shifts.map(s => getShiftName(config.shifts, s)).join(' / ') : 'ไม่มีเวร';
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-6 border-b border-gray-200 bg-gray-50/50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <Building2 className="text-medical-600" /> ตั้งค่าวอร์ด
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">กำหนดวอร์ดที่ต้องจัดแพทย์อยู่เวร สี และเวรที่เปิดในวันธรรมดา/วันหยุด</p>
+          </div>
+          {isAdmin && (
+            <button
+              onClick={openNew}
+              className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium flex items-center gap-1 w-fit"
+            >
+              <Plus size={16} /> เพิ่มวอร์ด
+            </button>
+          )}
+        </div>
+
+        <div className="p-6 space-y-3">
+          {config.wards.map(ward => (
+            <div
+              key={ward.id}
+              className={`flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border rounded-xl ${ward.active ? 'border-gray-200 bg-white' : 'border-gray-100 bg-gray-50 opacity-60'}`}
+            >
+              <div className="flex items-start gap-3">
+                <span className="w-4 h-4 mt-1 rounded border border-black/10 flex-shrink-0" style={{ backgroundColor: ward.color }}></span>
+                <div>
+                  <div className="font-semibold text-gray-800 flex items-center gap-2">
+                    {ward.name}
+                    {ward.intensiveCare && (
+                      <span className="text-[10px] font-medium text-red-700 bg-red-50 border border-red-200 px-1.5 py-0.5 rounded-full flex items-center gap-1">
+                        <HeartPulse size={10} /> วิกฤต
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    วันธรรมดา: {describeShifts(ward.weekdayShifts)} · วันหยุด: {describeShifts(ward.holidayShifts)}
+                  </div>
+                  {!!ward.requiredTags?.length && (
+                    <div className="text-xs text-gray-500 mt-1">ต้องมีคุณสมบัติ: {ward.requiredTags.join(', ')}</div>
+                  )}
+                </div>
+              </div>
+
+              {isAdmin && (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => toggleActive(ward.id)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border transition ${ward.active ? 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100' : 'bg-gray-100 text-gray-500 border-gray-200 hover:bg-gray-200'}`}
+                  >
+                    {ward.active ? 'ใช้งาน' : 'ปิดใช้งาน'}
+                  </button>
+                  <button
+                    onClick={() => setDraft(ward)}
+                    className="text-gray-400 hover:text-medical-600 p-1.5 hover:bg-medical-50 rounded"
+                    title="แก้ไข"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => removeWard(ward.id)}
+                    className="text-gray-400 hover:text-red-600 p-1.5 hover:bg-red-50 rounded"
+                    title="ลบ"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="mt-4 flex items-start gap-2 text-sm text-gray-500 bg-gray-50 p-3 rounded-lg">
+            <Info size={16} className="mt-0.5 text-medical-600 flex-shrink-0" />
+            <p>
+              เวรที่ต้องเป็นแพทย์คนเดียวกันกำหนดใน "กฎการต่อเวร" ด้านล่าง (วอร์ดใหม่ยังไม่มีกฎ)
+              วอร์ด "วิกฤต" นับรวมในโควตาวันอยู่เวร ICU
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Ward Edit Modal (Admin Only) */}
+      {draft && isAdmin && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-gray-50">
+              <h3 className="font-bold text-gray-800">{isNew ? 'เพิ่มวอร์ด' : 'แก้ไขวอร์ด'}</h3>
+              <button
+                onClick={() => setDraft(null)}
+                className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-lg transition"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">ชื่อวอร์ด</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="เช่น ICU / CCU STEMI Fast Tract"
+                  className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-medical-400 outline-none"
+                  autoFocus
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">สี</label>
+                <div className="flex items-center gap-2">
+                  {WARD_COLORS.map(color => (
+                    <button
+                      key={color}
+                      onClick={() => setDraft({ ...draft, color })}
+                      className={`w-7 h-7 rounded-full border-2 transition ${draft.color === color ? 'border-gray-800 scale-110' : 'border-transparent'}`}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                  <input
+                    type="color"
+                    value={draft.color}
+                    onChange={(e) => setDraft({ ...draft, color: e.target.value.toUpperCase() })}
+                    className="w-8 h-8 rounded cursor-pointer border border-gray-200"
+                    title="เลือกสีเอง"
+                  />
+                </div>
+              </div>
+
+              {([['weekdayShifts', 'เวรในวันธรรมดา'], ['holidayShifts', 'เวรในวันหยุด']] as const).map(([field, label]) => (
+                <div key={field}>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{label}</label>
+                  <div className="flex flex-wrap items-center gap-4">
+                    {config.shifts.map(shift => (
+                      <label key={shift.id} className="flex items-center gap-1 text-sm text-gray-600 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={draft[field].includes(shift.id)}
+                          onChange={() => toggleShift(field, shift.id)}
+                          className="accent-medical-600"
+                        />
+                        {shift.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">คุณสมบัติที่แพทย์ต้องมี</label>
+                <TagInput
+                  tags={draft.requiredTags || []}
+                  onChange={(requiredTags) => setDraft({ ...draft, requiredTags })}
+                  suggestions={collectTags(doctors, config)}
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.intensiveCare}
+                  onChange={() => setDraft({ ...draft, intensiveCare: !draft.intensiveCare })}
+                  className="accent-medical-600"
+                />
+                วอร์ดวิกฤต (นับในโควตาวันอยู่เวร ICU)
+              </label>
+
+              <div className="pt-2 flex gap-2 justify-end">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition text-sm font-medium"
+                >
+                  ยกเลิก
+                </button>
+                <button
+                  onClick={saveDraft}
+                  disabled={!draft.name.trim()}
+                  className="px-4 py-2 bg-medical-600 text-white rounded-lg hover:bg-medical-700 transition text-sm font-medium flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Save size={16} /> บันทึก
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WardManager;
@@ -4,6 +4,7 @@ import pg from 'pg';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
+import crypto from 'crypto';
 import { GoogleGenAI } from "@google/genai";
 import { getDaysInMonth, format } from 'date-fns';
 
@@ -24,6 +25,30 @@ const pool = new Pool({
 app.use(cors());
 app.use(express.json({ limit: '5mb' })); // Allow larger payloads for schedule
 
+// Sessions: login issues a token that the client sends as "Authorization: Bearer <token>".
+// The caller's role and linked doctor come from the users table, never from the request.
+const requireRole = (...roles) => async (req, res, next) => {
+  const token = (req.get('Authorization') || '').replace(/^Bearer /, '');
+  try {
+    const result = await pool.query(`
+      SELECT u.username, u.role, u.doctor_id FROM user_sessions s JOIN users u ON u.username = s.username
+      WHERE s.token = $1
+    `, [token]);
+    if (result.rows.length === 0) return res.status(401).json({ error: 'กรุณาเข้าสู่ระบบใหม่' });
+    const user = result.rows[0];
+    if (roles.length > 0 && !roles.includes(user.role)) return res.status(403).json({ error: 'ไม่มีสิทธิ์ดำเนินการนี้' });
+    req.user = { username: user.username, role: user.role, doctorId: user.doctor_id || undefined };
+    next();
+  } catch (err) {
+    console.error("Session Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+};
+
+// Viewers only read the published schedule
+const requireStaff = requireRole('admin', 'user');
+const requireAdmin = requireRole('admin');
+
 // --- ROUTES ---
 
 // AI Generation Route (Server-Side Fallback/Optional)
@@ -58,7 +83,9 @@ app.post('/api/login', async (req, res) => {
     
     // Direct comparison (Plain text)
     if (password === user.password_hash) {
-      res.json({ username: user.username, role: user.role, name: user.name });
+      const token = crypto.randomUUID();
+      await pool.query('INSERT INTO user_sessions (token, username) VALUES ($1, $2)', [token, user.username]);
+      res.json({ username: user.username, role: user.role, name: user.name, doctorId: user.doctor_id || undefined, token });
     } else {
       res.status(401).json({ error: 'รหัสผ่านไม่ถูกต้อง' });
     }
@@ -68,6 +95,16 @@ app.post('/api/login', async (req, res) => {
   }
 });
 
+app.post('/api/logout', async (req, res) => {
+  try {
+    await pool.query('DELETE FROM user_sessions WHERE token = $1', [(req.get('Authorization') || '').replace(/^Bearer /, '')]);
+    res.json({ success: true });
+  } catch (err) {
+    console.error("Logout Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
 // 1.1 Register
 app.post('/api/register', async (req, res) => {
   const { username, password, name } = req.body;
@@ -92,17 +129,68 @@ app.post('/api/register', async (req, res) => {
   }
 });
 
+// 1.2 Users: accounts and their linked doctor record (managed by admin)
+app.get('/api/users', requireAdmin, async (req, res) => {
+  try {
+    const result = await pool.query('SELECT username, role, name, doctor_id FROM users ORDER BY username ASC');
+    res.json(result.rows.map(u => ({ username: u.username, role: u.role, name: u.name, doctorId: u.doctor_id || undefined })));
+  } catch (err) {
+    console.error("Get Users Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.post('/api/users/:username/doctor', requireAdmin, async (req, res) => {
+  const { doctorId } = req.body;
+  try {
+    const result = await pool.query('UPDATE users SET doctor_id = $2 WHERE username = $1', [req.params.username, doctorId || null]);
+    if (result.rowCount === 0) return res.status(404).json({ error: 'ไม่พบผู้ใช้งาน' });
+    res.json({ success: true });
+  } catch (err) {
+    console.error("Link User Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
 // 2. Doctors
 app.get('/api/doctors', async (req, res) => {
   try {
-    const result = await pool.query('SELECT * FROM doctors ORDER BY name ASC');
+    // Employment dates as strings via to_char to avoid timezone shifts
+    const result = await pool.query(`
+      SELECT *, to_char(employment_start, 'YYYY-MM-DD') as employment_start_str, to_char(employment_end, 'YYYY-MM-DD') as employment_end_str
+      FROM doctors ORDER BY name ASC
+    `);
+    const leave = await pool.query(
+      "SELECT id, doctor_id, to_char(date, 'YYYY-MM-DD') as date_str, shifts, leave_type FROM doctor_unavailability ORDER BY date ASC"
+    );
+    const leaveByDoctor = {};
+    leave.rows.forEach(row => {
+      (leaveByDoctor[row.doctor_id] = leaveByDoctor[row.doctor_id] || []).push({
+        id: row.id,
+        date: row.date_str,
+        shifts: row.shifts && row.shifts.length > 0 ? row.shifts : undefined,
+        type: row.leave_type
+      });
+    });
     const doctors = result.rows.map(d => ({
       id: d.id,
       name: d.name,
       phone: d.phone,
       active: d.active,
       color: d.color,
-      unavailableDates: d.unavailable_dates || []
+      unavailability: leaveByDoctor[d.id] || [],
+      preferredDates: d.preferred_dates || [],
+      preferredOffDates: d.preferred_off_dates || [],
+      qualifications: d.qualifications || [],
+      unavailableWeekdays: d.unavailable_weekdays || [],
+      employmentStart: d.employment_start_str || undefined,
+      employmentEnd: d.employment_end_str || undefined,
+      quota: {
+        minDutyDays: d.min_duty_days ?? undefined,
+        maxDutyDays: d.max_duty_days ?? undefined,
+        maxHolidayDays: d.max_holiday_days ?? undefined,
+        maxIcuDays: d.max_icu_days ?? undefined
+      }
     }));
     res.json(doctors);
   } catch (err) {
@@ -111,9 +199,11 @@ app.get('/api/doctors', async (req, res) => {
   }
 });
 
-app.post('/api/doctors', async (req, res) => {
-  const doctors = req.body;
-  if (!Array.isArray(doctors)) return res.status(400).json({ error: 'Expected array' });
+// Unavailability is saved per entry: entries are upserted by id and only the ids the client removed are deleted,
+// so a tab that loaded before a leave approval doesn't wipe the approved entries
+app.post('/api/doctors', requireAdmin, async (req, res) => {
+  const { doctors, removedUnavailabilityIds = [] } = req.body;
+  if (!Array.isArray(doctors) || !Array.isArray(removedUnavailabilityIds)) return res.status(400).json({ error: 'Expected array' });
 
   const client = await pool.connect();
   try {
@@ -127,16 +217,47 @@ app.post('/api/doctors', async (req, res) => {
     }
     
     for (const doc of doctors) {
+      const quota = doc.quota || {};
       await client.query(`
-        INSERT INTO doctors (id, name, phone, active, color, unavailable_dates)
-        VALUES ($1, $2, $3, $4, $5, $6)
+        INSERT INTO doctors (id, name, phone, active, color, preferred_dates, preferred_off_dates, min_duty_days, max_duty_days, max_holiday_days, max_icu_days, qualifications, unavailable_weekdays, employment_start, employment_end)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
         ON CONFLICT (id) DO UPDATE SET
           name = EXCLUDED.name,
           phone = EXCLUDED.phone,
           active = EXCLUDED.active,
           color = EXCLUDED.color,
-          unavailable_dates = EXCLUDED.unavailable_dates;
-      `, [doc.id, doc.name, doc.phone, doc.active, doc.color, JSON.stringify(doc.unavailableDates)]);
+          preferred_dates = EXCLUDED.preferred_dates,
+          preferred_off_dates = EXCLUDED.preferred_off_dates,
+          min_duty_days = EXCLUDED.min_duty_days,
+          max_duty_days = EXCLUDED.max_duty_days,
+          max_holiday_days = EXCLUDED.max_holiday_days,
+          max_icu_days = EXCLUDED.max_icu_days,
+          qualifications = EXCLUDED.qualifications,
+          unavailable_weekdays = EXCLUDED.unavailable_weekdays,
+          employment_start = EXCLUDED.employment_start,
+          employment_end = EXCLUDED.employment_end;
+      `, [
+        doc.id, doc.name, doc.phone, doc.active, doc.color,
+        JSON.stringify(doc.preferredDates || []), JSON.stringify(doc.preferredOffDates || []),
+        quota.minDutyDays ?? null, quota.maxDutyDays ?? null, quota.maxHolidayDays ?? null, quota.maxIcuDays ?? null,
+        JSON.stringify(doc.qualifications || []), JSON.stringify(doc.unavailableWeekdays || []),
+        doc.employmentStart || null, doc.employmentEnd || null
+      ]);
+
+      // Unavailability entries (shifts empty = whole day)
+      for (const entry of doc.unavailability || []) {
+        await client.query(`
+          INSERT INTO doctor_unavailability (id, doctor_id, date, shifts, leave_type) VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (id) DO UPDATE SET
+            date = EXCLUDED.date,
+            shifts = EXCLUDED.shifts,
+            leave_type = EXCLUDED.leave_type;
+        `, [entry.id, doc.id, entry.date, entry.shifts || [], entry.type]);
+      }
+    }
+
+    if (removedUnavailabilityIds.length > 0) {
+      await client.query('DELETE FROM doctor_unavailability WHERE id = ANY($1::uuid[])', [removedUnavailabilityIds]);
     }
 
     await client.query('COMMIT');
@@ -150,8 +271,672 @@ app.post('/api/doctors', async (req, res) => {
   }
 });
 
+// 2.1 Leave Requests: doctors ask for leave, admins approve or reject
+const LEAVE_REQUEST_COLUMNS = `
+  id, doctor_id, ARRAY(SELECT to_char(d, 'YYYY-MM-DD') FROM unnest(dates) d ORDER BY d) as dates, shifts, leave_type, note, status,
+  requested_by, created_at, reviewed_by, reviewed_at, review_note
+`;
+
+const mapLeaveRequest = (row) => ({
+  id: row.id,
+  doctorId: row.doctor_id,
+  dates: row.dates,
+  shifts: row.shifts && row.shifts.length > 0 ? row.shifts : undefined,
+  type: row.leave_type,
+  note: row.note || undefined,
+  status: row.status,
+  requestedBy: row.requested_by,
+  createdAt: row.created_at.toISOString(),
+  reviewedBy: row.reviewed_by || undefined,
+  reviewedAt: row.reviewed_at ? row.reviewed_at.toISOString() : undefined,
+  reviewNote: row.review_note || undefined
+});
+
+app.get('/api/leave-requests', async (req, res) => {
+  const { status, requestedBy } = req.query;
+  try {
+    const result = await pool.query(`
+      SELECT ${LEAVE_REQUEST_COLUMNS} FROM leave_requests
+      WHERE ($1::text IS NULL OR status = $1) AND ($2::text IS NULL OR requested_by = $2)
+      ORDER BY created_at DESC
+    `, [status || null, requestedBy || null]);
+    res.json(result.rows.map(mapLeaveRequest));
+  } catch (err) {
+    console.error("Get Leave Requests Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.post('/api/leave-requests', requireStaff, async (req, res) => {
+  const { doctorId, dates, shifts, type, note } = req.body;
+  if (!doctorId || !Array.isArray(dates) || dates.length === 0 || !type) {
+    return res.status(400).json({ error: 'กรุณากรอกข้อมูลให้ครบถ้วน' });
+  }
+  // Linked doctors ask for themselves, admins may file for anyone
+  if (req.user.role !== 'admin' && req.user.doctorId && req.user.doctorId !== doctorId) {
+    return res.status(403).json({ error: 'ไม่มีสิทธิ์ดำเนินการนี้' });
+  }
+
+  try {
+    const result = await pool.query(`
+      INSERT INTO leave_requests (id, doctor_id, dates, shifts, leave_type, note, status, requested_by)
+      VALUES ($1, $2, $3, $4, $5, $6, 'pending', $7)
+      RETURNING ${LEAVE_REQUEST_COLUMNS}
+    `, [crypto.randomUUID(), doctorId, dates, shifts || [], type, note || null, req.user.username]);
+    res.json(mapLeaveRequest(result.rows[0]));
+  } catch (err) {
+    console.error("Create Leave Request Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Approve or reject a pending request. Approving adds the doctor's unavailability in the same transaction
+// and returns the new entries, so the client can merge them without reloading every doctor.
+app.post('/api/leave-requests/:id/review', requireAdmin, async (req, res) => {
+  const { status, reviewNote } = req.body;
+  if (status !== 'approved' && status !== 'rejected') return res.status(400).json({ error: 'Invalid status' });
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const current = await client.query(
+      'SELECT doctor_id, dates, shifts, leave_type, status FROM leave_requests WHERE id = $1 FOR UPDATE',
+      [req.params.id]
+    );
+    if (current.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'ไม่พบคำขอ' });
+    }
+    const request = current.rows[0];
+    if (request.status !== 'pending') {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'คำขอนี้ได้รับการพิจารณาแล้ว' });
+    }
+
+    const entries = [];
+    if (status === 'approved') {
+      for (const date of request.dates) {
+        // Skip dates that already carry the same kind of entry
+        const inserted = await client.query(`
+          INSERT INTO doctor_unavailability (id, doctor_id, date, shifts, leave_type)
+          SELECT $1, $2, $3, $4, $5
+          WHERE NOT EXISTS (
+            SELECT 1 FROM doctor_unavailability WHERE doctor_id = $2 AND date = $3 AND shifts = $4 AND leave_type = $5
+          )
+          RETURNING id, to_char(date, 'YYYY-MM-DD') as date_str, shifts, leave_type
+        `, [crypto.randomUUID(), request.doctor_id, date, request.shifts, request.leave_type]);
+        inserted.rows.forEach(row => entries.push({
+          id: row.id,
+          date: row.date_str,
+          shifts: row.shifts.length > 0 ? row.shifts : undefined,
+          type: row.leave_type
+        }));
+      }
+    }
+
+    const updated = await client.query(`
+      UPDATE leave_requests SET status = $2, reviewed_by = $3, reviewed_at = CURRENT_TIMESTAMP, review_note = $4
+      WHERE id = $1
+      RETURNING ${LEAVE_REQUEST_COLUMNS}
+    `, [req.params.id, status, req.user.username, reviewNote || null]);
+
+    await client.query('COMMIT');
+    res.json({ request: mapLeaveRequest(updated.rows[0]), entries });
+  } catch (err) {
+    await client.query('ROLLBACK');
+    console.error("Review Leave Request Error:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
+  }
+});
+
+// Requesters may withdraw a request while it is still pending
+app.delete('/api/leave-requests/:id', requireStaff, async (req, res) => {
+  try {
+    const result = await pool.query(
+      "DELETE FROM leave_requests WHERE id = $1 AND status = 'pending' AND requested_by = $2",
+      [req.params.id, req.user.username]
+    );
+    if (result.rowCount === 0) return res.status(409).json({ error: 'ยกเลิกได้เฉพาะคำขอที่รอพิจารณา' });
+    res.json({ success: true });
+  } catch (err) {
+    console.error("Delete Leave Request Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// 2.2 Swap Requests: a doctor gives or trades a shift with another doctor, who accepts;
+// an admin approves when the setting asks for it. The schedule changes are applied in the same transaction.
+const SWAP_REQUEST_COLUMNS = `
+  id, from_doctor_id, to_doctor_id, to_char(date, 'YYYY-MM-DD') as date_str, shift, ward,
+  to_char(trade_date, 'YYYY-MM-DD') as trade_date_str, trade_shift, trade_ward, note, status,
+  requested_by, created_at, responded_at, reviewed_by, reviewed_at, review_note
+`;
+
+const mapSwapRequest = (row) => ({
+  id: row.id,
+  fromDoctorId: row.from_doctor_id,
+  toDoctorId: row.to_doctor_id,
+  date: row.date_str,
+  shift: row.shift,
+  ward: row.ward,
+  trade: row.trade_date_str ? { date: row.trade_date_str, shift: row.trade_shift, ward: row.trade_ward } : undefined,
+  note: row.note || undefined,
+  status: row.status,
+  requestedBy: row.requested_by,
+  createdAt: row.created_at.toISOString(),
+  respondedAt: row.responded_at ? row.responded_at.toISOString() : undefined,
+  reviewedBy: row.reviewed_by || undefined,
+  reviewedAt: row.reviewed_at ? row.reviewed_at.toISOString() : undefined,
+  reviewNote: row.review_note || undefined
+});
+
+// Rotation rules as the client applies them (utils/scheduleCells.ts): the cells that run on a day type are linked
+// by the rules of that day type (continuity, the holiday pattern), and one doctor works every linked cell they hold
+const sameCell = (a, b) => a[0] === b[0] && a[1] === b[1];
+
+const getCell = (day, shift, ward) => {
+  const slot = day.shifts && day.shifts[shift];
+  return (slot && slot.assignments && slot.assignments[ward]) || null;
+};
+
+const getOpenCells = (isHoliday, config) => (config.shifts || [])
+  .filter(shift => (isHoliday ? shift.holiday : shift.weekday))
+  .flatMap(shift => (config.wards || [])
+    .filter(ward => ward.active && (isHoliday ? ward.holidayShifts : ward.weekdayShifts).includes(shift.id))
+    .map(ward => [shift.id, ward.id]));
+
+const getLinks = (isHoliday, config) => {
+  const open = getOpenCells(isHoliday, config);
+  const isOpen = (cell) => open.some(c => sameCell(c, cell));
+  return (config.rotationRules || [])
+    .filter(rule => (isHoliday ? rule.holiday : rule.weekday))
+    .map(rule => [[rule.fromShift, rule.fromWard], [rule.toShift, rule.toWard]])
+    .filter(([from, to]) => isOpen(from) && isOpen(to) && !sameCell(from, to));
+};
+
+// The cells linked to [shift, ward] that day which its doctor holds; they always move together
+const getHeldBlock = (day, config, shift, ward) => {
+  const links = getLinks(day.isHoliday, config);
+  const block = [[shift, ward]];
+  for (let i = 0; i < block.length; i++) {
+    links.forEach(([from, to]) => {
+      const other = sameCell(from, block[i]) ? to : sameCell(to, block[i]) ? from : null;
+      if (other && !block.some(c => sameCell(c, other))) block.push(other);
+    });
+  }
+  const doctorId = getCell(day, shift, ward);
+  return block.filter(([s, w]) => getCell(day, s, w) === doctorId);
+};
+
+const moveBlock = (days, config, date, shift, ward, from, to) => {
+  const day = days.find(d => d.date === date);
+  if (!day || getCell(day, shift, ward) !== from) return null;
+  return getHeldBlock(day, config, shift, ward).map(([s, w]) => ({ date, shift: s, ward: w, from, to }));
+};
+
+// Cell changes of a swap_requests row, built from the given days (same as getSwapChanges in utils/swaps.ts)
+const buildSwapChanges = (days, request, config) => {
+  const given = moveBlock(days, config, request.date_str, request.shift, request.ward, request.from_doctor_id, request.to_doctor_id);
+  if (!given) return { error: 'เวรที่ขอยก/แลกไม่ได้เป็นของแพทย์ผู้ขอแล้ว' };
+  if (!request.trade_date_str) return { changes: given };
+
+  const taken = moveBlock(days, config, request.trade_date_str, request.trade_shift, request.trade_ward, request.to_doctor_id, request.from_doctor_id);
+  if (!taken) return { error: 'เวรที่ขอแลกคืนไม่ได้เป็นของแพทย์อีกฝ่ายแล้ว' };
+  return { changes: [...given, ...taken] };
+};
+
+const applyChangesToDays = (days, changes) => days.map(day => {
+  const own = changes.filter(c => c.date === day.date);
+  if (own.length === 0) return day;
+  const shifts = structuredClone(day.shifts || {});
+  own.forEach(c => {
+    shifts[c.shift] = shifts[c.shift] || { assignments: {} };
+    shifts[c.shift].assignments[c.ward] = c.to;
+  });
+  return { ...day, shifts };
+});
+
+const getAssignedCells = (day) => Object.entries(day.shifts || {}).flatMap(([shift, slot]) =>
+  Object.entries((slot && slot.assignments) || {}).filter(([, id]) => !!id).map(([ward, id]) => [shift, ward, id]));
+
+// 0 = Sunday ... 6 = Saturday
+const weekdayOf = (date) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Why a doctor cannot work a shift on a date (as getUnavailability in utils/availability.ts), or null
+const getUnavailableReason = (doctor, date, shift) => {
+  if (doctor.employmentStart && date < doctor.employmentStart) return `เริ่มปฏิบัติงานวันที่ ${doctor.employmentStart}`;
+  if (doctor.employmentEnd && date > doctor.employmentEnd) return `สิ้นสุดการปฏิบัติงานวันที่ ${doctor.employmentEnd}`;
+  if (doctor.unavailableWeekdays.includes(weekdayOf(date))) return 'ไม่อยู่เวรประจำในวันนี้';
+  const entry = doctor.unavailability.find(e => e.date === date && (e.shifts.length === 0 || e.shifts.includes(shift)));
+  return entry ? 'แจ้งลาในวันนี้' : null;
+};
+
+// Pairing constraints broken on one shift of a day (as getPairingBreaches in utils/scheduleCells.ts)
+const getPairingBreaches = (config, doctors, isHoliday, shift, onShift) => (config.pairingConstraints || []).filter(c => {
+  if (!onShift.includes(c.doctorId)) return false;
+  if (c.shift && c.shift !== shift) return false;
+  if (c.dayType !== 'all' && c.dayType !== (isHoliday ? 'holiday' : 'weekday')) return false;
+  if (c.type === 'must-not-pair') return !!c.otherDoctorId && onShift.includes(c.otherDoctorId);
+  return !!c.tag && !onShift.some(id => id !== c.doctorId && (doctors.get(id)?.qualifications || []).includes(c.tag));
+});
+
+// Monthly duty, holiday and ICU days per doctor over the given days
+const countDuties = (days, config) => {
+  const counts = new Map();
+  days.forEach(day => {
+    const cells = getAssignedCells(day);
+    new Set(cells.map(([, , id]) => id)).forEach(id => {
+      const count = counts.get(id) || { duty: 0, holiday: 0, icu: 0 };
+      const onIcu = cells.some(([, ward, other]) => other === id && (config.wards || []).find(w => w.id === ward)?.intensiveCare);
+      counts.set(id, { duty: count.duty + 1, holiday: count.holiday + (day.isHoliday ? 1 : 0), icu: count.icu + (onIcu ? 1 : 0) });
+    });
+  });
+  return counts;
+};
+
+// Hard rules of the client's validator (utils/scheduleValidator.ts) that changed days break and did not break
+// before: the doctor given a cell is active, available and qualified for it, nobody is on two wards of a shift,
+// linked cells keep one doctor, pairing constraints hold and monthly quotas are kept. before and after hold
+// the same days in the same order. Returns one Thai message per break.
+const findIntroducedBreaches = (before, after, doctors, config) => {
+  const breaches = [];
+  const nameOf = (id) => doctors.get(id)?.name || id;
+  const tagsRequired = (shift, ward) => [
+    ...((config.wards || []).find(w => w.id === ward)?.requiredTags || []),
+    ...((config.shifts || []).find(s => s.id === shift)?.requiredTags || [])
+  ];
+
+  after.forEach((day, i) => {
+    const old = before[i];
+    if (day === old) return;
+
+    getAssignedCells(day).forEach(([shift, ward, id]) => {
+      if (getCell(old, shift, ward) === id) return;
+      const doctor = doctors.get(id);
+      if (!doctor) return breaches.push(`ไม่พบแพทย์รหัส ${id} ในระบบ`);
+      if (!doctor.active) breaches.push(`${doctor.name} ถูกตั้งเป็น Inactive`);
+      const reason = getUnavailableReason(doctor, day.date, shift);
+      if (reason) breaches.push(`${doctor.name} ${reason} (${day.date})`);
+      const missing = tagsRequired(shift, ward).filter(tag => !doctor.qualifications.includes(tag));
+      if (missing.length > 0) breaches.push(`${doctor.name} ไม่มีคุณสมบัติสำหรับเวรนี้ (ต้องมี: ${missing.join(', ')})`);
+    });
+
+    new Set([...Object.keys(day.shifts || {}), ...Object.keys(old.shifts || {})]).forEach(shift => {
+      const onShift = (d) => getAssignedCells(d).filter(([s]) => s === shift).map(([, , id]) => id);
+      const doubled = (d) => onShift(d).filter((id, k, all) => all.indexOf(id) !== k);
+      const doubledBefore = doubled(old);
+      new Set(doubled(day)).forEach(id => {
+        if (!doubledBefore.includes(id)) breaches.push(`${nameOf(id)} อยู่หลายวอร์ดพร้อมกันในวันที่ ${day.date}`);
+      });
+      const pairedBefore = getPairingBreaches(config, doctors, old.isHoliday, shift, onShift(old)).map(c => c.id);
+      getPairingBreaches(config, doctors, day.isHoliday, shift, onShift(day))
+        .filter(c => !pairedBefore.includes(c.id))
+        .forEach(c => breaches.push(c.type === 'must-not-pair'
+          ? `${nameOf(c.doctorId)} และ ${nameOf(c.otherDoctorId)} ต้องไม่อยู่เวรพร้อมกัน (${day.date})`
+          : `${nameOf(c.doctorId)} ต้องอยู่เวรกับแพทย์ที่มีคุณสมบัติ "${c.tag}" (${day.date})`));
+    });
+
+    getLinks(day.isHoliday, config).forEach(([[fromShift, fromWard], [toShift, toWard]]) => {
+      const isSplit = (d) => {
+        const from = getCell(d, fromShift, fromWard);
+        const to = getCell(d, toShift, toWard);
+        return !!from && !!to && from !== to;
+      };
+      if (isSplit(day) && !isSplit(old)) {
+        breaches.push(`เวรที่ต้องต่อกัน (เช่น บ่ายต่อดึก หรือรูปแบบเวรวันหยุด) วันที่ ${day.date} ไม่ใช่แพทย์คนเดียวกัน`);
+      }
+    });
+  });
+
+  const months = Array.from(new Set(after.filter((day, i) => day !== before[i]).map(day => day.date.slice(0, 7))));
+  months.forEach(month => {
+    const inMonth = (days) => days.filter(day => day.date.startsWith(month));
+    const countsBefore = countDuties(inMonth(before), config);
+    const countsAfter = countDuties(inMonth(after), config);
+    const none = { duty: 0, holiday: 0, icu: 0 };
+    doctors.forEach((doctor, id) => {
+      if (!doctor.active) return;
+      const old = countsBefore.get(id) || none;
+      const count = countsAfter.get(id) || none;
+      const limits = [['duty', doctor.quota.maxDutyDays, 'วันอยู่เวร'], ['holiday', doctor.quota.maxHolidayDays, 'วันอยู่เวรวันหยุด'], ['icu', doctor.quota.maxIcuDays, 'วันอยู่เวร ICU']];
+      limits.forEach(([key, max, label]) => {
+        if (max !== null && count[key] > max && old[key] <= max) breaches.push(`${doctor.name} มี${label}เกินโควตาสูงสุด ${max} วัน (${month})`);
+      });
+      const min = doctor.quota.minDutyDays;
+      if (min !== null && count.duty < min && old.duty >= min) breaches.push(`${doctor.name} มีวันอยู่เวรน้อยกว่าโควตาขั้นต่ำ ${min} วัน (${month})`);
+    });
+  });
+
+  return Array.from(new Set(breaches));
+};
+
+// Doctors by id with what findIntroducedBreaches reads; unavailability only on the given dates
+const loadRuleDoctors = async (client, dates) => {
+  const result = await client.query(`
+    SELECT id, name, active, qualifications, unavailable_weekdays, min_duty_days, max_duty_days, max_holiday_days, max_icu_days,
+      to_char(employment_start, 'YYYY-MM-DD') as employment_start_str, to_char(employment_end, 'YYYY-MM-DD') as employment_end_str
+    FROM doctors
+  `);
+  const leave = await client.query(
+    "SELECT doctor_id, to_char(date, 'YYYY-MM-DD') as date_str, shifts FROM doctor_unavailability WHERE date = ANY($1::date[])",
+    [dates]
+  );
+  return new Map(result.rows.map(d => [d.id, {
+    name: d.name,
+    active: d.active,
+    qualifications: d.qualifications || [],
+    unavailableWeekdays: d.unavailable_weekdays || [],
+    employmentStart: d.employment_start_str || undefined,
+    employmentEnd: d.employment_end_str || undefined,
+    unavailability: leave.rows.filter(e => e.doctor_id === d.id).map(e => ({ date: e.date_str, shifts: e.shifts || [] })),
+    quota: {
+      minDutyDays: d.min_duty_days, maxDutyDays: d.max_duty_days, maxHolidayDays: d.max_holiday_days, maxIcuDays: d.max_icu_days
+    }
+  }]));
+};
+
+// Every change to the draft bumps the revision of its months. Whole-month saves name the revisions they were
+// loaded with and are refused once the server changed the month since, so an open tab can't undo the change.
+// Returns { 'YYYY-MM': revision } of the given months.
+const bumpDraftRevisions = async (client, months) => {
+  const revisions = {};
+  for (const month of months) {
+    const result = await client.query(`
+      INSERT INTO draft_revisions (month, revision) VALUES ($1, 1)
+      ON CONFLICT (month) DO UPDATE SET revision = draft_revisions.revision + 1
+      RETURNING revision
+    `, [month]);
+    revisions[month] = result.rows[0].revision;
+  }
+  return revisions;
+};
+
+// Writes cell changes ({ date, shift, ward, from, to }) to the draft inside the caller's transaction.
+// Returns { revisions } of the changed months, or { error } without writing anything when a cell
+// no longer holds the expected doctor.
+const applyScheduleChanges = async (client, changes) => {
+  const dates = Array.from(new Set(changes.map(c => c.date)));
+  const days = new Map();
+  for (const date of dates) {
+    const result = await client.query('SELECT shifts FROM daily_schedules WHERE date = $1 FOR UPDATE', [date]);
+    if (result.rows.length === 0) return { error: `ไม่พบตารางเวรวันที่ ${date}` };
+    days.set(date, result.rows[0].shifts || {});
+  }
+
+  for (const change of changes) {
+    const shifts = days.get(change.date);
+    const slot = shifts[change.shift];
+    const current = (slot && slot.assignments && slot.assignments[change.ward]) || null;
+    if (current !== change.from) return { error: `ตารางเวรวันที่ ${change.date} มีการเปลี่ยนแปลงแล้ว กรุณาตรวจสอบอีกครั้ง` };
+    // A shift nobody was on yet may have no slot
+    shifts[change.shift] = { ...slot, assignments: { ...(slot && slot.assignments), [change.ward]: change.to } };
+  }
+
+  for (const [date, shifts] of days) {
+    await client.query('UPDATE daily_schedules SET shifts = $2 WHERE date = $1', [date, JSON.stringify(shifts)]);
+  }
+  return { revisions: await bumpDraftRevisions(client, Array.from(new Set(dates.map(date => date.slice(0, 7))))) };
+};
+
+const SWAP_VERSION_NOTE = 'แลกเวรตามคำขอ';
+
+// The settings a swap is built and checked with; wards, shifts, rotation rules and pairing constraints are stored
+// under their own keys (see POST /api/config)
+const loadSwapConfig = async (client) => {
+  const result = await client.query(
+    "SELECT key, value FROM app_settings WHERE key IN ('main_config', 'wards', 'shifts', 'rotation_rules', 'pairing_constraints')"
+  );
+  const valueOf = (key) => result.rows.find(row => row.key === key)?.value;
+  const main = valueOf('main_config');
+  return {
+    swapApprovalRequired: !main || main.swapApprovalRequired !== false,
+    wards: valueOf('wards') || [],
+    shifts: valueOf('shifts') || [],
+    rotationRules: valueOf('rotation_rules') || [],
+    pairingConstraints: valueOf('pairing_constraints') || []
+  };
+};
+
+// A swap changes the schedule everyone sees: its changes are built from the latest published version of each
+// month involved, checked against the hard rules, published as the next version and written to the admins'
+// draft as well, so edits still in the draft stay unpublished. Only an admin's approval may pass allowBreaches.
+// Returns { changes, revisions } or { error } (the caller rolls back).
+const applySwap = async (client, request, config, publishedBy, allowBreaches = false) => {
+  // Same lock as Publish, so the version read here is still the latest one when the next is added
+  await client.query('LOCK TABLE schedule_versions IN SHARE ROW EXCLUSIVE MODE');
+  const months = Array.from(new Set([request.date_str, request.trade_date_str].filter(Boolean).map(date => date.slice(0, 7))));
+  const latest = await client.query(
+    'SELECT DISTINCT ON (month) month, days FROM schedule_versions WHERE month = ANY($1::text[]) ORDER BY month, version DESC',
+    [months]
+  );
+  if (latest.rows.length < months.length) return { error: 'ยังไม่ได้เผยแพร่ตารางเวรของเดือนที่ขอแลก' };
+
+  const published = latest.rows.flatMap(row => row.days);
+  const { changes, error } = buildSwapChanges(published, request, config);
+  if (error) return { error };
+  const after = applyChangesToDays(published, changes);
+  if (!allowBreaches) {
+    const doctors = await loadRuleDoctors(client, Array.from(new Set(changes.map(c => c.date))));
+    const breaches = findIntroducedBreaches(published, after, doctors, config);
+    if (breaches.length > 0) return { error: `ไม่สามารถแลกเวรได้ เนื่องจากขัดกับกฎการจัดเวร:\n${breaches.map(b => `- ${b}`).join('\n')}` };
+  }
+
+  const written = await applyScheduleChanges(client, changes);
+  if (written.error) return { error: 'ฉบับร่างมีการแก้ไขเวรที่ขอแลกหลังการเผยแพร่ล่าสุด กรุณาให้ผู้ดูแลระบบเผยแพร่ตารางก่อน' };
+
+  for (const month of months) {
+    await client.query(`
+      INSERT INTO schedule_versions (id, month, version, days, published_by, note)
+      VALUES ($1, $2::text, (SELECT COALESCE(MAX(version), 0) + 1 FROM schedule_versions WHERE month = $2::text), $3, $4, $5)
+    `, [crypto.randomUUID(), month, JSON.stringify(after.filter(day => day.date.startsWith(month))), publishedBy, SWAP_VERSION_NOTE]);
+  }
+  return { changes, revisions: written.revisions };
+};
+
+app.get('/api/swap-requests', async (req, res) => {
+  const { status, doctorId } = req.query;
+  try {
+    const result = await pool.query(`
+      SELECT ${SWAP_REQUEST_COLUMNS} FROM swap_requests
+      WHERE ($1::text IS NULL OR status = $1) AND ($2::uuid IS NULL OR from_doctor_id = $2 OR to_doctor_id = $2)
+      ORDER BY created_at DESC
+    `, [status || null, doctorId || null]);
+    res.json(result.rows.map(mapSwapRequest));
+  } catch (err) {
+    console.error("Get Swap Requests Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.post('/api/swap-requests', requireStaff, async (req, res) => {
+  const { fromDoctorId, toDoctorId, date, shift, ward, trade, note } = req.body;
+  if (!fromDoctorId || !toDoctorId || !date || !shift || !ward) {
+    return res.status(400).json({ error: 'กรุณากรอกข้อมูลให้ครบถ้วน' });
+  }
+  if (fromDoctorId === toDoctorId) return res.status(400).json({ error: 'ไม่สามารถแลกเวรกับตนเองได้' });
+  // Doctors offer their own shifts, admins may file for anyone
+  if (req.user.role !== 'admin' && req.user.doctorId !== fromDoctorId) {
+    return res.status(403).json({ error: 'ไม่มีสิทธิ์ดำเนินการนี้' });
+  }
+
+  try {
+    const result = await pool.query(`
+      INSERT INTO swap_requests (id, from_doctor_id, to_doctor_id, date, shift, ward, trade_date, trade_shift, trade_ward, note, status, requested_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'proposed', $11)
+      RETURNING ${SWAP_REQUEST_COLUMNS}
+    `, [
+      crypto.randomUUID(), fromDoctorId, toDoctorId, date, shift, ward,
+      trade ? trade.date : null, trade ? trade.shift : null, trade ? trade.ward : null,
+      note || null, req.user.username
+    ]);
+    res.json(mapSwapRequest(result.rows[0]));
+  } catch (err) {
+    console.error("Create Swap Request Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// The receiving doctor accepts or declines. Without required approval, accepting applies the swap straight away.
+app.post('/api/swap-requests/:id/respond', requireStaff, async (req, res) => {
+  const { accept } = req.body;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const current = await client.query(`SELECT ${SWAP_REQUEST_COLUMNS} FROM swap_requests WHERE id = $1 FOR UPDATE`, [req.params.id]);
+    if (current.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'ไม่พบคำขอ' });
+    }
+    if (current.rows[0].to_doctor_id !== req.user.doctorId) {
+      await client.query('ROLLBACK');
+      return res.status(403).json({ error: 'คำขอนี้ต้องตอบโดยแพทย์ที่ได้รับคำขอ' });
+    }
+    if (current.rows[0].status !== 'proposed') {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'คำขอนี้ได้รับการตอบกลับแล้ว' });
+    }
+
+    const config = await loadSwapConfig(client);
+    const applied = !!accept && !config.swapApprovalRequired;
+
+    let changes = [];
+    let revisions = {};
+    if (applied) {
+      const result = await applySwap(client, current.rows[0], config, current.rows[0].requested_by);
+      if (result.error) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: result.error });
+      }
+      ({ changes, revisions } = result);
+    }
+
+    const status = !accept ? 'declined' : applied ? 'applied' : 'accepted';
+    const updated = await client.query(`
+      UPDATE swap_requests SET status = $2, responded_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING ${SWAP_REQUEST_COLUMNS}
+    `, [req.params.id, status]);
+
+    await client.query('COMMIT');
+    res.json({ request: mapSwapRequest(updated.rows[0]), applied, changes, revisions });
+  } catch (err) {
+    await client.query('ROLLBACK');
+    console.error("Respond Swap Request Error:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
+  }
+});
+
+// Admin approval of an accepted swap; `override` approves it even though it breaks a hard rule
+app.post('/api/swap-requests/:id/review', requireAdmin, async (req, res) => {
+  const { status, reviewNote, override } = req.body;
+  if (status !== 'applied' && status !== 'rejected') return res.status(400).json({ error: 'Invalid status' });
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const current = await client.query(`SELECT ${SWAP_REQUEST_COLUMNS} FROM swap_requests WHERE id = $1 FOR UPDATE`, [req.params.id]);
+    if (current.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'ไม่พบคำขอ' });
+    }
+    if (current.rows[0].status !== 'accepted') {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'คำขอนี้ไม่ได้อยู่ในสถานะรออนุมัติ' });
+    }
+
+    let changes = [];
+    let revisions = {};
+    if (status === 'applied') {
+      const result = await applySwap(client, current.rows[0], await loadSwapConfig(client), req.user.username, override === true);
+      if (result.error) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: result.error });
+      }
+      ({ changes, revisions } = result);
+    }
+
+    const updated = await client.query(`
+      UPDATE swap_requests SET status = $2, reviewed_by = $3, reviewed_at = CURRENT_TIMESTAMP, review_note = $4
+      WHERE id = $1
+      RETURNING ${SWAP_REQUEST_COLUMNS}
+    `, [req.params.id, status, req.user.username, reviewNote || null]);
+
+    await client.query('COMMIT');
+    res.json({ request: mapSwapRequest(updated.rows[0]), applied: status === 'applied', changes, revisions });
+  } catch (err) {
+    await client.query('ROLLBACK');
+    console.error("Review Swap Request Error:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
+  }
+});
+
+// Requesters (and admins) may cancel until the swap has been applied or turned down
+app.delete('/api/swap-requests/:id', requireStaff, async (req, res) => {
+  try {
+    const result = await pool.query(
+      "DELETE FROM swap_requests WHERE id = $1 AND status IN ('proposed', 'accepted') AND (requested_by = $2 OR $3)",
+      [req.params.id, req.user.username, req.user.role === 'admin']
+    );
+    if (result.rowCount === 0) return res.status(409).json({ error: 'ยกเลิกได้เฉพาะคำขอที่ยังไม่ดำเนินการ' });
+    res.json({ success: true });
+  } catch (err) {
+    console.error("Delete Swap Request Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// 2.3 Short-notice absence: the doctor's new unavailability and the re-planned cells of the draft are saved together.
+// Each cell must still hold the doctor the plan was made against, otherwise nothing is saved.
+// Answers with the new draft revisions of the re-planned months.
+app.post('/api/absences', requireAdmin, async (req, res) => {
+  const { doctorId, entries, changes } = req.body;
+  if (!doctorId || !Array.isArray(entries) || entries.length === 0 || !Array.isArray(changes)) {
+    return res.status(400).json({ error: 'กรุณากรอกข้อมูลให้ครบถ้วน' });
+  }
+  if (changes.some(c => !c || !c.date || !c.shift || !c.ward)) return res.status(400).json({ error: 'Invalid changes' });
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    for (const entry of entries) {
+      await client.query(`
+        INSERT INTO doctor_unavailability (id, doctor_id, date, shifts, leave_type) VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (id) DO NOTHING
+      `, [entry.id, doctorId, entry.date, entry.shifts || [], entry.type]);
+    }
+
+    let revisions = {};
+    if (changes.length > 0) {
+      const written = await applyScheduleChanges(client, changes);
+      if (written.error) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: written.error });
+      }
+      revisions = written.revisions;
+    }
+
+    await client.query('COMMIT');
+    res.json({ success: true, revisions });
+  } catch (err) {
+    await client.query('ROLLBACK');
+    console.error("Save Absence Error:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
+  }
+});
+
 // 3. Schedule
-app.get('/api/schedules', async (req, res) => {
+// daily_schedules is the admins' draft; other users read /api/schedules/published.
+// Comes with the revision of every month (see bumpDraftRevisions), to be sent back when saving.
+app.get('/api/schedules', requireAdmin, async (req, res) => {
   try {
     // FORCE Date to string using to_char to avoid timezone shifts and object type issues
     const result = await pool.query("SELECT to_char(date, 'YYYY-MM-DD') as date_str, is_holiday, holiday_name, shifts FROM daily_schedules ORDER BY date ASC");
@@ -162,17 +947,20 @@ app.get('/api/schedules', async (req, res) => {
       holidayName: s.holiday_name,
       shifts: s.shifts
     }));
-    res.json(schedule);
+    const revisions = await pool.query('SELECT month, revision FROM draft_revisions');
+    res.json({ days: schedule, revisions: Object.fromEntries(revisions.rows.map(row => [row.month, row.revision])) });
   } catch (err) {
     console.error("Get Schedule Error:", err);
     res.status(500).json({ error: err.message });
   }
 });
 
-app.post('/api/schedules', async (req, res) => {
-  const schedule = req.body;
+// Replaces whole days of the draft. `revisions` are those the days were loaded with; when the server changed
+// one of the months since (a swap, an absence re-plan, a restore), nothing is saved and the client reloads.
+app.post('/api/schedules', requireAdmin, async (req, res) => {
+  const { days: schedule, revisions = {} } = req.body;
   if (!Array.isArray(schedule)) return res.status(400).json({ error: 'Expected array' });
-  if (schedule.length === 0) return res.json({ success: true });
+  if (schedule.length === 0) return res.json({ success: true, revisions: {} });
 
   const client = await pool.connect();
   try {
@@ -183,6 +971,14 @@ app.post('/api/schedules', async (req, res) => {
     const startDate = dates[0];
     const endDate = dates[dates.length - 1];
 
+    const months = Array.from(new Set(dates.map(date => date.slice(0, 7))));
+    await client.query('INSERT INTO draft_revisions (month) SELECT unnest($1::text[]) ON CONFLICT (month) DO NOTHING', [months]);
+    const current = await client.query('SELECT month, revision FROM draft_revisions WHERE month = ANY($1::text[]) FOR UPDATE', [months]);
+    if (current.rows.some(row => row.revision !== (revisions[row.month] || 0))) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'ตารางเวรเดือนนี้ถูกแก้ไขจากที่อื่นหลังจากที่เปิดไว้ (เช่น มีการแลกเวร หรือจัดเวรแทนแพทย์ที่ลา)' });
+    }
+
     await client.query('DELETE FROM daily_schedules WHERE date >= $1 AND date <= $2', [startDate, endDate]);
 
     for (const day of schedule) {
@@ -193,8 +989,9 @@ app.post('/api/schedules', async (req, res) => {
       `, [dateStr, day.isHoliday, day.holidayName, JSON.stringify(day.shifts)]);
     }
 
+    const saved = await bumpDraftRevisions(client, months);
     await client.query('COMMIT');
-    res.json({ success: true });
+    res.json({ success: true, revisions: saved });
   } catch (err) {
     await client.query('ROLLBACK');
     console.error("Save Schedule Error:", err);
@@ -204,12 +1001,209 @@ app.post('/api/schedules', async (req, res) => {
   }
 });
 
+// 3.1 Published versions: daily_schedules is the admins' draft, Publish snapshots a month into an
+// immutable version and everyone else reads the latest version of each month
+const SCHEDULE_VERSION_COLUMNS = 'id, month, version, published_by, published_at, note';
+
+// Draft days of month $2 as a JSON array in the client's DailySchedule shape
+const DRAFT_DAYS_OF_MONTH = `(
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'date', to_char(date, 'YYYY-MM-DD'), 'isHoliday', is_holiday, 'holidayName', holiday_name, 'shifts', shifts
+  ) ORDER BY date), '[]'::jsonb)
+  FROM daily_schedules WHERE to_char(date, 'YYYY-MM') = $2::text
+)`;
+
+const mapScheduleVersion = (row) => ({
+  id: row.id,
+  month: row.month,
+  version: row.version,
+  publishedBy: row.published_by,
+  publishedAt: row.published_at.toISOString(),
+  note: row.note || undefined
+});
+
+app.get('/api/schedules/published', async (req, res) => {
+  try {
+    const result = await pool.query('SELECT DISTINCT ON (month) days FROM schedule_versions ORDER BY month, version DESC');
+    res.json(result.rows.flatMap(row => row.days));
+  } catch (err) {
+    console.error("Get Published Schedule Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.get('/api/schedule-versions', async (req, res) => {
+  try {
+    const result = await pool.query(`
+      SELECT ${SCHEDULE_VERSION_COLUMNS} FROM schedule_versions
+      WHERE ($1::text IS NULL OR month = $1)
+      ORDER BY month DESC, version DESC
+    `, [req.query.month || null]);
+    res.json(result.rows.map(mapScheduleVersion));
+  } catch (err) {
+    console.error("Get Schedule Versions Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.get('/api/schedule-versions/:id', async (req, res) => {
+  try {
+    const result = await pool.query(`SELECT ${SCHEDULE_VERSION_COLUMNS}, days FROM schedule_versions WHERE id = $1`, [req.params.id]);
+    if (result.rows.length === 0) return res.status(404).json({ error: 'ไม่พบฉบับที่เลือก' });
+    res.json({ ...mapScheduleVersion(result.rows[0]), days: result.rows[0].days });
+  } catch (err) {
+    console.error("Get Schedule Version Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Publish: snapshot the month's saved draft as the next version number
+app.post('/api/schedule-versions', requireAdmin, async (req, res) => {
+  const { month, note } = req.body;
+  if (!/^\d{4}-\d{2}$/.test(month || '')) return res.status(400).json({ error: 'กรุณากรอกข้อมูลให้ครบถ้วน' });
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    // One publish at a time, so two admins never get the same version number
+    await client.query('LOCK TABLE schedule_versions IN SHARE ROW EXCLUSIVE MODE');
+    const draft = await client.query("SELECT 1 FROM daily_schedules WHERE to_char(date, 'YYYY-MM') = $1 LIMIT 1", [month]);
+    if (draft.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: 'ยังไม่มีตารางเวรของเดือนนี้' });
+    }
+    const result = await client.query(`
+      INSERT INTO schedule_versions (id, month, version, days, published_by, note)
+      VALUES (
+        $1, $2::text,
+        (SELECT COALESCE(MAX(version), 0) + 1 FROM schedule_versions WHERE month = $2::text),
+        ${DRAFT_DAYS_OF_MONTH}, $3, $4
+      )
+      RETURNING ${SCHEDULE_VERSION_COLUMNS}
+    `, [crypto.randomUUID(), month, req.user.username, note || null]);
+    await client.query('COMMIT');
+    res.json(mapScheduleVersion(result.rows[0]));
+  } catch (err) {
+    await client.query('ROLLBACK');
+    console.error("Publish Schedule Error:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
+  }
+});
+
+// Restore: the version's days replace the month's draft; publishing it again is a separate step
+app.post('/api/schedule-versions/:id/restore', requireAdmin, async (req, res) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const version = await client.query('SELECT month, days FROM schedule_versions WHERE id = $1', [req.params.id]);
+    if (version.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'ไม่พบฉบับที่เลือก' });
+    }
+    const { month, days } = version.rows[0];
+    await client.query("DELETE FROM daily_schedules WHERE to_char(date, 'YYYY-MM') = $1", [month]);
+    for (const day of days) {
+      await client.query(`
+        INSERT INTO daily_schedules (date, is_holiday, holiday_name, shifts)
+        VALUES ($1, $2, $3, $4)
+      `, [day.date, day.isHoliday, day.holidayName, JSON.stringify(day.shifts)]);
+    }
+    await bumpDraftRevisions(client, [month]);
+    await client.query('COMMIT');
+    res.json({ success: true });
+  } catch (err) {
+    await client.query('ROLLBACK');
+    console.error("Restore Schedule Version Error:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
+  }
+});
+
+// 3.2 Fairness ledger: fiscal-year-to-date totals per doctor, up to (not including) the given month
+// Thai fiscal year starts on 1 October
+const FISCAL_YEAR_START_MONTH = 9;
+
+app.get('/api/stats', requireAdmin, async (req, res) => {
+  const now = new Date();
+  const year = parseInt(req.query.year, 10);
+  const month = parseInt(req.query.month, 10);
+  const targetYear = Number.isNaN(year) ? now.getFullYear() : year;
+  const targetMonth = Number.isNaN(month) ? now.getMonth() : month;
+
+  const startYear = targetMonth >= FISCAL_YEAR_START_MONTH ? targetYear : targetYear - 1;
+  const fiscalYearStart = format(new Date(startYear, FISCAL_YEAR_START_MONTH, 1), 'yyyy-MM-dd');
+  const until = format(new Date(targetYear, targetMonth, 1), 'yyyy-MM-dd');
+
+  try {
+    const result = await pool.query(
+      "SELECT to_char(date, 'YYYY-MM-DD') as date_str, is_holiday, holiday_name, shifts FROM daily_schedules WHERE date >= $1 AND date < $2 ORDER BY date ASC",
+      [fiscalYearStart, until]
+    );
+
+    const ledger = new Map();
+    const entryOf = (id) => {
+      if (!ledger.has(id)) {
+        ledger.set(id, {
+          doctorId: id,
+          dutyDays: 0,
+          holidayDays: 0,
+          holidayShifts: 0,
+          namedHolidayDays: 0,
+          namedHolidayShifts: 0,
+          wardShifts: {}
+        });
+      }
+      return ledger.get(id);
+    };
+
+    for (const row of result.rows) {
+      const shifts = row.shifts || {};
+      const onDuty = new Set();
+      for (const slot of Object.values(shifts)) {
+        const assignments = (slot && slot.assignments) || {};
+        for (const [ward, id] of Object.entries(assignments)) {
+          if (!id) continue;
+          const entry = entryOf(id);
+          entry.wardShifts[ward] = (entry.wardShifts[ward] || 0) + 1;
+          if (row.is_holiday) entry.holidayShifts++;
+          if (row.is_holiday && row.holiday_name) entry.namedHolidayShifts++;
+          onDuty.add(id);
+        }
+      }
+      for (const id of onDuty) {
+        const entry = entryOf(id);
+        entry.dutyDays++;
+        if (row.is_holiday) entry.holidayDays++;
+        if (row.is_holiday && row.holiday_name) entry.namedHolidayDays++;
+      }
+    }
+
+    res.json({ fiscalYearStart, until, doctors: Array.from(ledger.values()) });
+  } catch (err) {
+    console.error("Get Stats Error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
 // 4. Config
 app.get('/api/config', async (req, res) => {
   try {
     const settingsResult = await pool.query("SELECT value FROM app_settings WHERE key = 'main_config'");
     const mainConfig = settingsResult.rows.length > 0 ? settingsResult.rows[0].value : { year: new Date().getFullYear(), month: new Date().getMonth() };
 
+    // Wards, shifts and rotation rules are stored on their own so saving the month does not touch them; null = not set up yet
+    const wardsResult = await pool.query("SELECT value FROM app_settings WHERE key = 'wards'");
+    const wards = wardsResult.rows.length > 0 ? wardsResult.rows[0].value : null;
+    const shiftsResult = await pool.query("SELECT value FROM app_settings WHERE key = 'shifts'");
+    const shifts = shiftsResult.rows.length > 0 ? shiftsResult.rows[0].value : null;
+    const rulesResult = await pool.query("SELECT value FROM app_settings WHERE key = 'rotation_rules'");
+    const rotationRules = rulesResult.rows.length > 0 ? rulesResult.rows[0].value : null;
+    const pairingResult = await pool.query("SELECT value FROM app_settings WHERE key = 'pairing_constraints'");
+    const pairingConstraints = pairingResult.rows.length > 0 ? pairingResult.rows[0].value : [];
+
     const holidaysResult = await pool.query("SELECT * FROM holidays ORDER BY date ASC");
     const customHolidays = holidaysResult.rows.map(h => ({
       date: new Date(h.date).toISOString().split('T')[0],
@@ -219,16 +1213,21 @@ app.get('/api/config', async (req, res) => {
     res.json({
       year: mainConfig.year,
       month: mainConfig.month,
-      customHolidays
+      swapApprovalRequired: mainConfig.swapApprovalRequired ?? true,
+      customHolidays,
+      wards,
+      shifts,
+      rotationRules,
+      pairingConstraints
     });
   } catch (err) {
     console.error("Get Config Error:", err);
-    res.json({ year: new Date().getFullYear(), month: new Date().getMonth(), customHolidays: [] });
+    res.json({ year: new Date().getFullYear(), month: new Date().getMonth(), swapApprovalRequired: true, customHolidays: [], wards: null, shifts: null, rotationRules: null, pairingConstraints: [] });
   }
 });
 
-app.post('/api/config', async (req, res) => {
-  const { year, month, customHolidays } = req.body;
+app.post('/api/config', requireAdmin, async (req, res) => {
+  const { year, month, swapApprovalRequired, customHolidays, wards, shifts, rotationRules, pairingConstraints } = req.body;
   
   const client = await pool.connect();
   try {
@@ -238,7 +1237,40 @@ app.post('/api/config', async (req, res) => {
       INSERT INTO app_settings (key, value)
       VALUES ('main_config', $1)
       ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value
-    `, [JSON.stringify({ year, month })]);
+    `, [JSON.stringify({ year, month, swapApprovalRequired: swapApprovalRequired !== false })]);
+
+    if (Array.isArray(wards) && wards.length > 0) {
+      await client.query(`
+        INSERT INTO app_settings (key, value)
+        VALUES ('wards', $1)
+        ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = CURRENT_TIMESTAMP
+      `, [JSON.stringify(wards)]);
+    }
+
+    if (Array.isArray(shifts) && shifts.length > 0) {
+      await client.query(`
+        INSERT INTO app_settings (key, value)
+        VALUES ('shifts', $1)
+        ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = CURRENT_TIMESTAMP
+      `, [JSON.stringify(shifts)]);
+    }
+
+    // An empty list is a valid setup (no linked cells)
+    if (Array.isArray(rotationRules)) {
+      await client.query(`
+        INSERT INTO app_settings (key, value)
+        VALUES ('rotation_rules', $1)
+        ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = CURRENT_TIMESTAMP
+      `, [JSON.stringify(rotationRules)]);
+    }
+
+    if (Array.isArray(pairingConstraints)) {
+      await client.query(`
+        INSERT INTO app_settings (key, value)
+        VALUES ('pairing_constraints', $1)
+        ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = CURRENT_TIMESTAMP
+      `, [JSON.stringify(pairingConstraints)]);
+    }
 
     await client.query('DELETE FROM holidays');
     
@@ -263,7 +1295,7 @@ app.post('/api/config', async (req, res) => {
 const initDb = async () => {
   try {
     console.log("Initializing Database tables...");
-    
+
     // Create Tables if not exist
     await pool.query(`
       CREATE TABLE IF NOT EXISTS users (
@@ -273,13 +1305,69 @@ const initDb = async () => {
         name VARCHAR(100)
       );
 
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        token TEXT PRIMARY KEY,
+        username VARCHAR(50) NOT NULL REFERENCES users(username) ON DELETE CASCADE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
       CREATE TABLE IF NOT EXISTS doctors (
         id UUID PRIMARY KEY,
         name VARCHAR(100) NOT NULL,
         phone VARCHAR(50),
         active BOOLEAN DEFAULT TRUE,
         color VARCHAR(20),
-        unavailable_dates JSONB
+        unavailable_dates JSONB, -- Legacy whole days off, moved into doctor_unavailability
+        preferred_dates JSONB,
+        preferred_off_dates JSONB,
+        min_duty_days INTEGER,
+        max_duty_days INTEGER,
+        max_holiday_days INTEGER,
+        max_icu_days INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS doctor_unavailability (
+        id UUID PRIMARY KEY,
+        doctor_id UUID NOT NULL REFERENCES doctors(id) ON DELETE CASCADE,
+        date DATE NOT NULL,
+        shifts TEXT[] NOT NULL DEFAULT '{}',
+        leave_type VARCHAR(20) NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS doctor_unavailability_doctor_date ON doctor_unavailability (doctor_id, date);
+
+      CREATE TABLE IF NOT EXISTS leave_requests (
+        id UUID PRIMARY KEY,
+        doctor_id UUID NOT NULL REFERENCES doctors(id) ON DELETE CASCADE,
+        dates DATE[] NOT NULL,
+        shifts TEXT[] NOT NULL DEFAULT '{}',
+        leave_type VARCHAR(20) NOT NULL,
+        note TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        requested_by VARCHAR(50) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        reviewed_by VARCHAR(50),
+        reviewed_at TIMESTAMP WITH TIME ZONE,
+        review_note TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS swap_requests (
+        id UUID PRIMARY KEY,
+        from_doctor_id UUID NOT NULL REFERENCES doctors(id) ON DELETE CASCADE,
+        to_doctor_id UUID NOT NULL REFERENCES doctors(id) ON DELETE CASCADE,
+        date DATE NOT NULL,
+        shift VARCHAR(20) NOT NULL,
+        ward VARCHAR(50) NOT NULL,
+        trade_date DATE,
+        trade_shift VARCHAR(20),
+        trade_ward VARCHAR(50),
+        note TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'proposed',
+        requested_by VARCHAR(50) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        responded_at TIMESTAMP WITH TIME ZONE,
+        reviewed_by VARCHAR(50),
+        reviewed_at TIMESTAMP WITH TIME ZONE,
+        review_note TEXT
       );
 
       CREATE TABLE IF NOT EXISTS daily_schedules (
@@ -289,6 +1377,22 @@ const initDb = async () => {
         shifts JSONB
       );
 
+      CREATE TABLE IF NOT EXISTS draft_revisions (
+        month CHAR(7) PRIMARY KEY, -- YYYY-MM
+        revision INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS schedule_versions (
+        id UUID PRIMARY KEY,
+        month CHAR(7) NOT NULL, -- YYYY-MM
+        version INTEGER NOT NULL,
+        days JSONB NOT NULL,
+        published_by VARCHAR(50) NOT NULL,
+        published_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        note TEXT,
+        UNIQUE (month, version)
+      );
+
       CREATE TABLE IF NOT EXISTS holidays (
         date DATE PRIMARY KEY,
         name VARCHAR(100) NOT NULL
@@ -301,6 +1405,94 @@ const initDb = async () => {
       );
     `);
 
+    // Migrations for tables created before these columns existed
+    await pool.query(`
+      ALTER TABLE doctors ADD COLUMN IF NOT EXISTS min_duty_days INTEGER;
+      ALTER TABLE doctors ADD COLUMN IF NOT EXISTS max_duty_days INTEGER;
+      ALTER TABLE doctors ADD COLUMN IF NOT EXISTS max_holiday_days INTEGER;
+      ALTER TABLE doctors ADD COLUMN IF NOT EXISTS max_icu_days INTEGER;
+      ALTER TABLE doctors ADD COLUMN IF NOT EXISTS preferred_dates JSONB;
+      ALTER TABLE doctors ADD COLUMN IF NOT EXISTS preferred_off_dates JSONB;
+      ALTER TABLE doctors ADD COLUMN IF NOT EXISTS qualifications JSONB;
+      ALTER TABLE doctors ADD COLUMN IF NOT EXISTS unavailable_weekdays JSONB;
+      ALTER TABLE doctors ADD COLUMN IF NOT EXISTS employment_start DATE;
+      ALTER TABLE doctors ADD COLUMN IF NOT EXISTS employment_end DATE;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS doctor_id UUID REFERENCES doctors(id) ON DELETE SET NULL;
+    `);
+
+    // Whole days off used to be a JSONB list on the doctor; move them into doctor_unavailability as annual leave
+    const legacyLeave = await pool.query(
+      "SELECT id, unavailable_dates FROM doctors WHERE unavailable_dates IS NOT NULL AND jsonb_array_length(unavailable_dates) > 0"
+    );
+    // One transaction per doctor, so a restart after a failure finds the doctor's list unmoved and no copies
+    for (const row of legacyLeave.rows) {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        for (const date of row.unavailable_dates) {
+          await client.query(
+            "INSERT INTO doctor_unavailability (id, doctor_id, date, leave_type) VALUES ($1, $2, $3, 'annual-leave')",
+            [crypto.randomUUID(), row.id, date]
+          );
+        }
+        await client.query('UPDATE doctors SET unavailable_dates = NULL WHERE id = $1', [row.id]);
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      } finally {
+        client.release();
+      }
+    }
+
+    // Schedules saved before wards were configurable stored { icu, general, locked } per shift;
+    // move the doctors into { assignments: { icu, general }, locked }. Each day is one UPDATE and only
+    // slots without assignments are selected and converted, so running it again changes nothing.
+    const legacyDays = await pool.query(`
+      SELECT date, shifts FROM daily_schedules
+      WHERE jsonb_typeof(shifts) = 'object' AND EXISTS (
+        SELECT 1 FROM jsonb_each(shifts) slot WHERE jsonb_typeof(slot.value) = 'object' AND NOT (slot.value ? 'assignments')
+      )
+    `);
+    for (const row of legacyDays.rows) {
+      const shifts = {};
+      for (const [shift, slot] of Object.entries(row.shifts)) {
+        if (!slot) continue;
+        if (slot.assignments) {
+          shifts[shift] = slot;
+          continue;
+        }
+        const { locked, ...assignments } = slot;
+        shifts[shift] = locked ? { assignments, locked } : { assignments };
+      }
+      await pool.query('UPDATE daily_schedules SET shifts = $1 WHERE date = $2', [JSON.stringify(shifts), row.date]);
+    }
+
+    // Everyone saw every saved month before publishing existed; keep them visible as version 1.
+    // Runs once: the flag is set in the same transaction, so later unpublished drafts stay unpublished.
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const done = await client.query("SELECT 1 FROM app_settings WHERE key = 'versions_backfilled' FOR UPDATE");
+      if (done.rows.length === 0) {
+        const months = await client.query("SELECT DISTINCT to_char(date, 'YYYY-MM') AS month FROM daily_schedules");
+        for (const row of months.rows) {
+          await client.query(`
+            INSERT INTO schedule_versions (id, month, version, days, published_by, note)
+            VALUES ($1, $2::text, 1, ${DRAFT_DAYS_OF_MONTH}, 'system', 'ตารางเวรก่อนมีระบบเผยแพร่')
+            ON CONFLICT (month, version) DO NOTHING
+          `, [crypto.randomUUID(), row.month]);
+        }
+        await client.query("INSERT INTO app_settings (key, value) VALUES ('versions_backfilled', 'true') ON CONFLICT (key) DO NOTHING");
+      }
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+
     // Seed default admin if users table is empty
     const userCheck = await pool.query('SELECT 1 FROM users LIMIT 1');
     if (userCheck.rowCount === 0) {
@@ -1,5 +1,7 @@
 
-import { Doctor, DailySchedule, ScheduleConfig, User } from '../types';
+import { Doctor, DailySchedule, ScheduleConfig, User, FairnessLedger, LeaveRequest, LeaveRequestStatus, UnavailabilityEntry, CellChange, SwapRequest, DraftRevisions, ScheduleVersion, ScheduleVersionDetail } from '../types';
+import { getCell, normalizeDay } from '../utils/scheduleCells';
+import { applyCellChanges, getSwapChanges } from '../utils/swaps';
 
 /**
  * Data Service Layer (API Version)
@@ -8,20 +10,113 @@ import { Doctor, DailySchedule, ScheduleConfig, User } from '../types';
 
 const API_BASE = '/api';
 
+// The server answered with an error, as opposed to being unreachable (offline fallbacks only apply to the latter)
+export class ApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
 const handleResponse = async (response: Response) => {
   if (!response.ok) {
     const errorText = await response.text();
     // Try to parse JSON error if possible
+    let message = errorText || `API Error: ${response.status}`;
     try {
-        const jsonError = JSON.parse(errorText);
-        throw new Error(jsonError.error || `API Error: ${response.status}`);
+        message = JSON.parse(errorText).error || `API Error: ${response.status}`;
     } catch (e) {
-        throw new Error(errorText || `API Error: ${response.status}`);
+        // Not JSON, keep the text
     }
+    throw new ApiError(message, response.status);
   }
   return response.json();
 };
 
+// Set by login: the server works out who is asking from the token, the user names offline changes
+let sessionToken: string | null = null;
+let currentUser: User | null = null;
+
+const authHeaders = (): Record<string, string> => (sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {});
+
+const currentUsername = () => currentUser?.username || '';
+
+// Offline only: username -> doctor id for the fallback accounts
+const readLocalDoctorLinks = (): Record<string, string> => {
+  const local = localStorage.getItem('userDoctorLinks');
+  return local ? JSON.parse(local) : {};
+};
+
+const readLocalLeaveRequests = (): LeaveRequest[] => {
+  const local = localStorage.getItem('leaveRequests');
+  return local ? JSON.parse(local) : [];
+};
+
+const writeLocalLeaveRequests = (requests: LeaveRequest[]) => {
+  localStorage.setItem('leaveRequests', JSON.stringify(requests));
+};
+
+const readLocalSwapRequests = (): SwapRequest[] => {
+  const local = localStorage.getItem('swapRequests');
+  return local ? JSON.parse(local) : [];
+};
+
+const writeLocalSwapRequests = (requests: SwapRequest[]) => {
+  localStorage.setItem('swapRequests', JSON.stringify(requests));
+};
+
+const readLocalScheduleVersions = (): ScheduleVersionDetail[] => {
+  const local = localStorage.getItem('scheduleVersions');
+  return local ? JSON.parse(local) : [];
+};
+
+const writeLocalScheduleVersions = (versions: ScheduleVersionDetail[]) => {
+  localStorage.setItem('scheduleVersions', JSON.stringify(versions));
+};
+
+// Offline counterpart of the server's draft changes: every cell must still hold the expected doctor
+const applyLocalScheduleChanges = (changes: CellChange[]) => {
+  const local = localStorage.getItem('schedule');
+  const days: DailySchedule[] = local ? (JSON.parse(local) as DailySchedule[]).map(normalizeDay) : [];
+  const outdated = changes.some(c => {
+    const day = days.find(d => d.date === c.date);
+    return !day || getCell(day, c.shift, c.ward) !== c.from;
+  });
+  if (outdated) throw new Error('ตารางเวรมีการเปลี่ยนแปลงแล้ว กรุณาตรวจสอบอีกครั้ง');
+  localStorage.setItem('schedule', JSON.stringify(applyCellChanges(days, changes)));
+};
+
+const readLocalConfig = (): ScheduleConfig | null => {
+  const local = localStorage.getItem('config');
+  return local ? JSON.parse(local) : null;
+};
+
+// Offline counterpart of the server's swap apply: the changes are built from the latest version of each month
+// involved, which is published again with the swap, and written to the draft as above
+const applyLocalSwap = (request: SwapRequest, publishedBy: string): CellChange[] => {
+  const config = readLocalConfig();
+  if (!config) throw new Error('ไม่พบการตั้งค่าตารางเวร');
+  const versions = readLocalScheduleVersions();
+  const months = Array.from(new Set([request.date, request.trade?.date].filter((date): date is string => !!date).map(date => date.slice(0, 7))));
+  const latest = months.map(month => {
+    const version = versions.filter(v => v.month === month).sort((a, b) => b.version - a.version)[0];
+    if (!version) throw new Error('ยังไม่ได้เผยแพร่ตารางเวรของเดือนที่ขอแลก');
+    return { ...version, days: version.days.map(normalizeDay) };
+  });
+  const { changes, error } = getSwapChanges(latest.flatMap(v => v.days), request, config);
+  if (error) throw new Error(error);
+  applyLocalScheduleChanges(changes);
+  writeLocalScheduleVersions([...versions, ...latest.map(version => ({
+    ...version,
+    id: crypto.randomUUID(),
+    version: version.version + 1,
+    days: applyCellChanges(version.days, changes),
+    publishedBy,
+    publishedAt: new Date().toISOString(),
+    note: 'แลกเวรตามคำขอ'
+  }))]);
+  return changes;
+};
+
 export const dataService = {
   
   // --- AUTHENTICATION ---
@@ -32,22 +127,38 @@ export const dataService = {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ username, password })
         });
-        return handleResponse(res);
+        const { token, ...user }: User & { token: string } = await handleResponse(res);
+        sessionToken = token;
+        currentUser = user;
+        return user;
     } catch (error) {
+        if (error instanceof ApiError) throw error;
         console.error("Login API failed, checking local storage fallback...", error);
         // FALLBACK FOR DEVELOPMENT WITHOUT SERVER
         // NOTE: This assumes admin/password default if server is down.
         // In production, you would handle this error properly.
         if (username === 'admin' && password === 'password') {
-             return { username: 'admin', role: 'admin', name: 'Admin Fallback' };
+             currentUser = { username: 'admin', role: 'admin', name: 'Admin Fallback', doctorId: readLocalDoctorLinks().admin };
+             return currentUser;
         }
         if (username === 'user' && password === 'password') {
-             return { username: 'user', role: 'user', name: 'User Fallback' };
+             currentUser = { username: 'user', role: 'user', name: 'User Fallback', doctorId: readLocalDoctorLinks().user };
+             return currentUser;
         }
         throw error;
     }
   },
 
+  logout: async () => {
+    try {
+        await fetch(`${API_BASE}/logout`, { method: 'POST', headers: authHeaders() });
+    } catch (e) {
+        console.warn("API unavailable, ending the session locally");
+    }
+    sessionToken = null;
+    currentUser = null;
+  },
+
   register: async (username: string, password: string, name: string): Promise<{success: boolean, message: string}> => {
     const res = await fetch(`${API_BASE}/register`, {
       method: 'POST',
@@ -57,6 +168,39 @@ export const dataService = {
     return handleResponse(res);
   },
 
+  // --- USERS ---
+  getUsers: async (): Promise<User[]> => {
+    try {
+        const res = await fetch(`${API_BASE}/users`, { headers: authHeaders() });
+        return await handleResponse(res);
+    } catch (e) {
+        console.warn("API unavailable, using the fallback accounts");
+        const links = readLocalDoctorLinks();
+        return [
+          { username: 'admin', role: 'admin', name: 'Admin Fallback', doctorId: links.admin },
+          { username: 'user', role: 'user', name: 'User Fallback', doctorId: links.user }
+        ];
+    }
+  },
+
+  linkUserToDoctor: async (username: string, doctorId: string | null) => {
+    try {
+        const res = await fetch(`${API_BASE}/users/${encodeURIComponent(username)}/doctor`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
+          body: JSON.stringify({ doctorId })
+        });
+        await handleResponse(res);
+    } catch (e) {
+        if (e instanceof ApiError) throw e;
+        console.warn("API unavailable, saving the doctor link to localStorage");
+        const links = readLocalDoctorLinks();
+        if (doctorId) links[username] = doctorId;
+        else delete links[username];
+        localStorage.setItem('userDoctorLinks', JSON.stringify(links));
+    }
+  },
+
   // --- DOCTORS ---
   getDoctors: async (): Promise<Doctor[]> => {
     try {
@@ -69,12 +213,14 @@ export const dataService = {
     }
   },
 
-  saveDoctors: async (doctors: Doctor[]) => {
+  // Only the unavailability entries listed as removed are deleted on the server, entries it has that
+  // this tab never loaded (e.g. approved meanwhile) are kept
+  saveDoctors: async (doctors: Doctor[], removedUnavailabilityIds: string[] = []) => {
     try {
         await fetch(`${API_BASE}/doctors`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(doctors)
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ doctors, removedUnavailabilityIds })
         });
     } catch (e) {
         console.warn("API unavailable, saving to localStorage");
@@ -82,29 +228,317 @@ export const dataService = {
     }
   },
 
+  // --- LEAVE REQUESTS ---
+  getLeaveRequests: async (): Promise<LeaveRequest[]> => {
+    try {
+        const res = await fetch(`${API_BASE}/leave-requests?_t=${Date.now()}`);
+        return await handleResponse(res);
+    } catch (e) {
+        console.warn("API unavailable, using localStorage for Leave Requests");
+        return readLocalLeaveRequests();
+    }
+  },
+
+  // The server records the logged-in user as the requester
+  createLeaveRequest: async (request: Omit<LeaveRequest, 'id' | 'status' | 'createdAt' | 'requestedBy'>): Promise<LeaveRequest> => {
+    try {
+        const res = await fetch(`${API_BASE}/leave-requests`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
+          body: JSON.stringify(request)
+        });
+        return await handleResponse(res);
+    } catch (e) {
+        console.warn("API unavailable, saving Leave Request to localStorage");
+        const created: LeaveRequest = {
+          ...request, id: crypto.randomUUID(), status: 'pending', requestedBy: currentUsername(), createdAt: new Date().toISOString()
+        };
+        writeLocalLeaveRequests([created, ...readLocalLeaveRequests()]);
+        return created;
+    }
+  },
+
+  // Approving returns the unavailability entries that were added to the doctor
+  reviewLeaveRequest: async (
+    id: string, status: Exclude<LeaveRequestStatus, 'pending'>, reviewNote?: string
+  ): Promise<{ request: LeaveRequest; entries: UnavailabilityEntry[] }> => {
+    try {
+        const res = await fetch(`${API_BASE}/leave-requests/${id}/review`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
+          body: JSON.stringify({ status, reviewNote })
+        });
+        return await handleResponse(res);
+    } catch (e) {
+        if (e instanceof ApiError) throw e;
+        console.warn("API unavailable, reviewing Leave Request in localStorage");
+        const requests = readLocalLeaveRequests();
+        const current = requests.find(r => r.id === id);
+        if (!current || current.status !== 'pending') throw e;
+        const request: LeaveRequest = { ...current, status, reviewedBy: currentUsername(), reviewNote, reviewedAt: new Date().toISOString() };
+        writeLocalLeaveRequests(requests.map(r => (r.id === id ? request : r)));
+        const entries: UnavailabilityEntry[] = status === 'approved'
+          ? request.dates.map(date => ({ id: crypto.randomUUID(), date, shifts: request.shifts, type: request.type }))
+          : [];
+        return { request, entries };
+    }
+  },
+
+  deleteLeaveRequest: async (id: string) => {
+    try {
+        const res = await fetch(`${API_BASE}/leave-requests/${id}`, { method: 'DELETE', headers: authHeaders() });
+        await handleResponse(res);
+    } catch (e) {
+        if (e instanceof ApiError) throw e;
+        console.warn("API unavailable, removing Leave Request from localStorage");
+        writeLocalLeaveRequests(readLocalLeaveRequests().filter(r => r.id !== id || r.status !== 'pending'));
+    }
+  },
+
+  // --- SWAP REQUESTS ---
+  getSwapRequests: async (): Promise<SwapRequest[]> => {
+    try {
+        const res = await fetch(`${API_BASE}/swap-requests?_t=${Date.now()}`);
+        return await handleResponse(res);
+    } catch (e) {
+        console.warn("API unavailable, using localStorage for Swap Requests");
+        return readLocalSwapRequests();
+    }
+  },
+
+  createSwapRequest: async (request: Omit<SwapRequest, 'id' | 'status' | 'createdAt' | 'requestedBy'>): Promise<SwapRequest> => {
+    try {
+        const res = await fetch(`${API_BASE}/swap-requests`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
+          body: JSON.stringify(request)
+        });
+        return await handleResponse(res);
+    } catch (e) {
+        console.warn("API unavailable, saving Swap Request to localStorage");
+        const created: SwapRequest = {
+          ...request, id: crypto.randomUUID(), status: 'proposed', requestedBy: currentUsername(), createdAt: new Date().toISOString()
+        };
+        writeLocalSwapRequests([created, ...readLocalSwapRequests()]);
+        return created;
+    }
+  },
+
+  // The receiving doctor's answer; `applied` is true when the schedule was changed without waiting for an admin.
+  // The server builds the changes from the published schedule, checks them and returns them
+  // with the new draft revisions of their months.
+  respondSwapRequest: async (
+    id: string, accept: boolean
+  ): Promise<{ request: SwapRequest; applied: boolean; changes: CellChange[]; revisions: DraftRevisions }> => {
+    try {
+        const res = await fetch(`${API_BASE}/swap-requests/${id}/respond`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
+          body: JSON.stringify({ accept })
+        });
+        return await handleResponse(res);
+    } catch (e) {
+        if (e instanceof ApiError) throw e;
+        console.warn("API unavailable, responding to Swap Request in localStorage");
+        const requests = readLocalSwapRequests();
+        const current = requests.find(r => r.id === id);
+        if (!current || current.status !== 'proposed') throw e;
+        const applied = accept && !(readLocalConfig()?.swapApprovalRequired ?? true);
+        const changes = applied ? applyLocalSwap(current, current.requestedBy) : [];
+        const request: SwapRequest = {
+          ...current,
+          status: !accept ? 'declined' : applied ? 'applied' : 'accepted',
+          respondedAt: new Date().toISOString()
+        };
+        writeLocalSwapRequests(requests.map(r => (r.id === id ? request : r)));
+        return { request, applied, changes, revisions: {} };
+    }
+  },
+
+  // Same as responding; with `override` the admin approves a swap that breaks a hard rule
+  reviewSwapRequest: async (
+    id: string, status: 'applied' | 'rejected', reviewNote?: string, override = false
+  ): Promise<{ request: SwapRequest; applied: boolean; changes: CellChange[]; revisions: DraftRevisions }> => {
+    try {
+        const res = await fetch(`${API_BASE}/swap-requests/${id}/review`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
+          body: JSON.stringify({ status, reviewNote, override })
+        });
+        return await handleResponse(res);
+    } catch (e) {
+        if (e instanceof ApiError) throw e;
+        console.warn("API unavailable, reviewing Swap Request in localStorage");
+        const requests = readLocalSwapRequests();
+        const current = requests.find(r => r.id === id);
+        if (!current || current.status !== 'accepted') throw e;
+        const changes = status === 'applied' ? applyLocalSwap(current, currentUsername()) : [];
+        const request: SwapRequest = { ...current, status, reviewedBy: currentUsername(), reviewNote, reviewedAt: new Date().toISOString() };
+        writeLocalSwapRequests(requests.map(r => (r.id === id ? request : r)));
+        return { request, applied: status === 'applied', changes, revisions: {} };
+    }
+  },
+
+  deleteSwapRequest: async (id: string) => {
+    try {
+        const res = await fetch(`${API_BASE}/swap-requests/${id}`, { method: 'DELETE', headers: authHeaders() });
+        await handleResponse(res);
+    } catch (e) {
+        if (e instanceof ApiError) throw e;
+        console.warn("API unavailable, removing Swap Request from localStorage");
+        writeLocalSwapRequests(readLocalSwapRequests().filter(r => r.id !== id || (r.status !== 'proposed' && r.status !== 'accepted')));
+    }
+  },
+
   // --- SCHEDULE ---
-  getSchedule: async (): Promise<DailySchedule[]> => {
+  // The admins' draft and its revisions; the server answers admins only
+  getSchedule: async (): Promise<{ days: DailySchedule[]; revisions: DraftRevisions }> => {
     try {
         // Add cache busting query param
-        const res = await fetch(`${API_BASE}/schedules?_t=${Date.now()}`);
-        return await handleResponse(res);
+        const res = await fetch(`${API_BASE}/schedules?_t=${Date.now()}`, { headers: authHeaders() });
+        const { days, revisions }: { days: DailySchedule[]; revisions: DraftRevisions } = await handleResponse(res);
+        return { days: days.map(normalizeDay), revisions };
     } catch (e) {
+        if (e instanceof ApiError) throw e;
         console.warn("API unavailable, using localStorage for Schedule");
         const local = localStorage.getItem('schedule');
-        return local ? JSON.parse(local) : [];
+        // Days saved before wards were configurable use the old shift layout
+        return { days: local ? (JSON.parse(local) as DailySchedule[]).map(normalizeDay) : [], revisions: {} };
     }
   },
 
-  saveSchedule: async (schedule: DailySchedule[]) => {
+  // Throws an ApiError with status 409 when the server changed one of the months since `revisions`;
+  // returns the new revisions otherwise
+  saveSchedule: async (schedule: DailySchedule[], revisions: DraftRevisions): Promise<DraftRevisions> => {
     try {
-        await fetch(`${API_BASE}/schedules`, {
+        const res = await fetch(`${API_BASE}/schedules`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(schedule)
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ days: schedule, revisions })
         });
+        return (await handleResponse(res)).revisions;
     } catch (e) {
+         if (e instanceof ApiError) throw e;
          console.warn("API unavailable, saving to localStorage");
          localStorage.setItem('schedule', JSON.stringify(schedule));
+         return revisions;
+    }
+  },
+
+  // Short-notice absence: the leave entries and the re-planned draft cells are saved in one go.
+  // Offline, the entries reach localStorage with the doctors. Returns the new revisions of the re-planned months.
+  saveAbsence: async (doctorId: string, entries: UnavailabilityEntry[], changes: CellChange[]): Promise<DraftRevisions> => {
+    try {
+        const res = await fetch(`${API_BASE}/absences`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
+          body: JSON.stringify({ doctorId, entries, changes })
+        });
+        return (await handleResponse(res)).revisions;
+    } catch (e) {
+        if (e instanceof ApiError) throw e;
+        console.warn("API unavailable, saving the absence to localStorage");
+        applyLocalScheduleChanges(changes);
+        return {};
+    }
+  },
+
+  // --- SCHEDULE VERSIONS ---
+  // Latest published version of every month (what non-admins see)
+  getPublishedSchedule: async (): Promise<DailySchedule[]> => {
+    try {
+        const res = await fetch(`${API_BASE}/schedules/published?_t=${Date.now()}`);
+        const days: DailySchedule[] = await handleResponse(res);
+        return days.map(normalizeDay);
+    } catch (e) {
+        console.warn("API unavailable, using localStorage for the Published Schedule");
+        const latest = new Map<string, ScheduleVersionDetail>();
+        readLocalScheduleVersions().forEach(v => {
+          if ((latest.get(v.month)?.version || 0) < v.version) latest.set(v.month, v);
+        });
+        return Array.from(latest.values()).flatMap(v => v.days).map(normalizeDay);
+    }
+  },
+
+  // Newest first; month as YYYY-MM
+  getScheduleVersions: async (month: string): Promise<ScheduleVersion[]> => {
+    try {
+        const res = await fetch(`${API_BASE}/schedule-versions?month=${month}&_t=${Date.now()}`);
+        return await handleResponse(res);
+    } catch (e) {
+        console.warn("API unavailable, using localStorage for Schedule Versions");
+        return readLocalScheduleVersions()
+          .filter(v => v.month === month)
+          .sort((a, b) => b.version - a.version)
+          .map(({ days, ...version }) => version);
+    }
+  },
+
+  getScheduleVersion: async (id: string): Promise<ScheduleVersionDetail> => {
+    try {
+        const res = await fetch(`${API_BASE}/schedule-versions/${id}`);
+        const version: ScheduleVersionDetail = await handleResponse(res);
+        return { ...version, days: version.days.map(normalizeDay) };
+    } catch (e) {
+        console.warn("API unavailable, using localStorage for the Schedule Version");
+        const version = readLocalScheduleVersions().find(v => v.id === id);
+        if (!version) throw e;
+        return { ...version, days: version.days.map(normalizeDay) };
+    }
+  },
+
+  // Snapshots the saved draft of the month, so pending edits must be saved first
+  publishSchedule: async (month: string, note?: string): Promise<ScheduleVersion> => {
+    try {
+        const res = await fetch(`${API_BASE}/schedule-versions`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
+          body: JSON.stringify({ month, note })
+        });
+        return await handleResponse(res);
+    } catch (e) {
+        console.warn("API unavailable, publishing to localStorage");
+        const local = localStorage.getItem('schedule');
+        const days = (local ? (JSON.parse(local) as DailySchedule[]) : []).filter(d => d.date.startsWith(month));
+        if (days.length === 0) throw e;
+        const versions = readLocalScheduleVersions();
+        const version: ScheduleVersion = {
+          id: crypto.randomUUID(),
+          month,
+          version: Math.max(0, ...versions.filter(v => v.month === month).map(v => v.version)) + 1,
+          publishedBy: currentUsername(),
+          publishedAt: new Date().toISOString(),
+          note
+        };
+        writeLocalScheduleVersions([...versions, { ...version, days }]);
+        return version;
+    }
+  },
+
+  // Replaces the month's draft with the version's days
+  restoreScheduleVersion: async (id: string) => {
+    try {
+        const res = await fetch(`${API_BASE}/schedule-versions/${id}/restore`, { method: 'POST', headers: authHeaders() });
+        await handleResponse(res);
+    } catch (e) {
+        console.warn("API unavailable, restoring the Schedule Version in localStorage");
+        const version = readLocalScheduleVersions().find(v => v.id === id);
+        if (!version) throw e;
+        const local = localStorage.getItem('schedule');
+        const days = (local ? (JSON.parse(local) as DailySchedule[]) : []).filter(d => !d.date.startsWith(version.month));
+        localStorage.setItem('schedule', JSON.stringify([...days, ...version.days]));
+    }
+  },
+
+  // --- STATS ---
+  // Fiscal-year ledger up to the given month (month is 0-based like ScheduleConfig)
+  getStats: async (year: number, month: number): Promise<FairnessLedger | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/stats?year=${year}&month=${month}&_t=${Date.now()}`, { headers: authHeaders() });
+        return await handleResponse(res);
+    } catch (e) {
+        console.warn("API unavailable, generating without the fairness ledger");
+        return null;
     }
   },
 
@@ -115,8 +549,7 @@ export const dataService = {
         return await handleResponse(res);
     } catch (e) {
         console.warn("API unavailable, using localStorage for Config");
-        const local = localStorage.getItem('config');
-        return local ? JSON.parse(local) : null;
+        return readLocalConfig();
     }
   },
 
@@ -124,7 +557,7 @@ export const dataService = {
     try {
         await fetch(`${API_BASE}/config`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify(config)
         });
     } catch (e) {
@@ -1,26 +1,199 @@
 
-import { Doctor, ScheduleConfig, DailySchedule } from '../types';
+import { Doctor, ScheduleConfig, DailySchedule, GenerationResult, GenerationOptions, GenerationScope, ScheduleViolation, WardDefinition, ShiftPeriod, ShiftDefinition, PairingConstraint } from '../types';
 import { GoogleGenAI } from "@google/genai";
 import { getDaysInMonth, format } from 'date-fns';
+import { validateSchedule, compareViolations } from '../utils/scheduleValidator';
+import { repairScheduleLocally } from './localSolver';
+import { getBlockedShifts, isAvailableOn } from '../utils/availability';
+import { CONTEXT_DAYS, RosterLayout, createEmptyDay, dayNumber, fromDayNumber, getAssignedCells, getLinks, isCellFixed, mergeGeneratedSchedule, summarizeContext } from '../utils/scheduleCells';
 
-// Helper to validate and parse Minified JSON from AI to DailySchedule
-const mapMinifiedToSchedule = (minifiedData: any[]): DailySchedule[] => {
-  return minifiedData.map(item => ({
-    date: item.d,
-    isHoliday: item.h,
-    holidayName: item.hn,
-    shifts: {
-      morning: item.s.m ? { icu: item.s.m.i || null, general: item.s.m.g || null } : undefined,
-      afternoon: { icu: item.s.a?.i || null, general: item.s.a?.g || null },
-      night: { icu: item.s.n?.i || null, general: item.s.n?.g || null }
-    }
+// Total AI calls per generation (first attempt + repair rounds)
+export const MAX_ATTEMPTS = 3;
+// Keep the repair prompt short: only the first N violations are sent back
+const MAX_FEEDBACK_ITEMS = 40;
+
+// Shift short keys used in the prompt and the answer: the first letter of the id (m/a/n
+// for the default shifts) unless two shifts share it, then the position in the list
+interface ShiftCodes {
+  code: (shift: ShiftPeriod) => string;
+  shiftOf: (key: string) => ShiftPeriod | undefined;
+}
+
+const buildShiftCodes = (shifts: ShiftDefinition[]): ShiftCodes => {
+  const initials = shifts.map(s => s.id.charAt(0));
+  const codes = new Map(shifts.map((s, i) => [
+    s.id,
+    initials.filter(c => c === initials[i]).length === 1 ? initials[i] : String(i + 1)
+  ]));
+  return {
+    code: shift => codes.get(shift) || shift,
+    shiftOf: key => shifts.find(s => codes.get(s.id) === key)?.id
+  };
+};
+
+// Helper to validate and parse Minified JSON from AI to DailySchedule.
+// Each shift holds { <ward id>: doctor id }; unknown wards are kept so the validator can report them.
+const mapMinifiedToSchedule = (minifiedData: any[], layout: RosterLayout, codes: ShiftCodes): DailySchedule[] => {
+  return minifiedData.map(item => {
+    const day = createEmptyDay(item.d, !!item.h, item.hn || undefined, layout);
+    Object.entries(item.s || {}).forEach(([key, cells]) => {
+      const shift = codes.shiftOf(key);
+      if (!shift || !cells || typeof cells !== 'object') return;
+      const slot = day.shifts[shift] || { assignments: {} };
+      Object.entries(cells as Record<string, string | null>).forEach(([ward, id]) => {
+        slot.assignments[ward] = id || null;
+      });
+      day.shifts[shift] = slot;
+    });
+    return day;
+  });
+};
+
+// Fixed cells (locked, or outside the rebuild scope) in the same short keys as the output (sh: shift key, w: ward id)
+const collectFixedAssignments = (current: DailySchedule[], codes: ShiftCodes, scope?: GenerationScope) => {
+  const fixed: { d: string; sh: string; w: string; id: string }[] = [];
+  current.forEach(day => getAssignedCells(day).forEach(([shift, ward, id]) => {
+    if (!isCellFixed(day, shift, ward, scope)) return;
+    fixed.push({ d: day.date, sh: codes.code(shift), w: ward, id });
+  }));
+  return fixed;
+};
+
+// Ward setup in short keys: wd/hd = shifts run on weekdays/holidays, ic = intensive care, rq = required tags
+const compactWards = (wards: WardDefinition[], codes: ShiftCodes) =>
+  wards.filter(w => w.active).map(w => ({
+    id: w.id,
+    n: w.name,
+    wd: w.weekdayShifts.map(codes.code),
+    hd: w.holidayShifts.map(codes.code),
+    ic: w.intensiveCare,
+    rq: w.requiredTags?.length ? w.requiredTags : undefined
+  }));
+
+// Shift setup in short keys: t = start-end time, wd/hd = runs on weekdays/holidays, rq = required tags
+const compactShifts = (shifts: ShiftDefinition[], codes: ShiftCodes) =>
+  shifts.map(s => ({
+    k: codes.code(s.id),
+    n: s.name,
+    t: `${s.start}-${s.end}`,
+    wd: s.weekday,
+    hd: s.holiday,
+    rq: s.requiredTags?.length ? s.requiredTags : undefined
+  }));
+
+// Pairing constraints in short keys: x = never on the same shift as, tg = needs a partner with this tag,
+// sh = only this shift key, dt = a (all) / wd / hd day types
+const compactPairings = (constraints: PairingConstraint[], codes: ShiftCodes) =>
+  constraints.map(c => ({
+    id: c.doctorId,
+    x: c.type === 'must-not-pair' ? c.otherDoctorId : undefined,
+    tg: c.type === 'must-pair-with-tag' ? c.tag : undefined,
+    sh: c.shift ? codes.code(c.shift) : undefined,
+    dt: c.dayType === 'all' ? 'a' : c.dayType === 'weekday' ? 'wd' : 'hd'
+  }));
+
+// Linked cells per day type as "shift:ward -> shift:ward"
+const describeLinks = (isHoliday: boolean, layout: RosterLayout, codes: ShiftCodes) =>
+  getLinks(isHoliday, layout).map(([[fs, fw], [ts, tw]]) => `${codes.code(fs)}:${fw} -> ${codes.code(ts)}:${tw}`);
+
+// Neighbouring months: duties right at the boundary (spacing) and last month's holiday duties (fairness)
+const summarizeNeighbourMonths = (context: DailySchedule[], monthStart: string, monthEnd: string) => {
+  const edge: { d: string; id: string }[] = [];
+  const holidays: Record<string, number> = {};
+  const from = dayNumber(monthStart) - CONTEXT_DAYS;
+  const to = dayNumber(monthEnd) + CONTEXT_DAYS;
+  summarizeContext(context, monthStart).forEach((duties, id) => {
+    [...duties.before, ...duties.after]
+      .filter(n => n >= from && n <= to)
+      .forEach(n => edge.push({ d: fromDayNumber(n), id }));
+    if (duties.holidays > 0) holidays[id] = duties.holidays;
+  });
+  return { edge: edge.sort((x, y) => x.d.localeCompare(y.d)), holidays };
+};
+
+// Every date of the month the doctor cannot work (leave, weekly days off, outside employment)
+const unavailableInMonth = (doctor: Doctor, monthDates: string[]) =>
+  monthDates.filter(date => !isAvailableOn(doctor, date));
+
+// Dates on which only some shifts are blocked, as { date: [shift keys] } (undefined = none)
+const partialUnavailability = (doctor: Doctor, monthDates: string[], codes: ShiftCodes) => {
+  const partial: Record<string, string[]> = {};
+  monthDates.forEach(date => {
+    const shifts = isAvailableOn(doctor, date) ? getBlockedShifts(doctor, date) : [];
+    if (shifts.length > 0) partial[date] = shifts.map(codes.code);
+  });
+  return Object.keys(partial).length > 0 ? partial : undefined;
+};
+
+// Quota in short keys for the prompt (undefined = no limits, dropped by JSON.stringify)
+const compactQuota = (doctor: Doctor) => {
+  const q = doctor.quota;
+  if (!q) return undefined;
+  const compact = { min: q.minDutyDays, max: q.maxDutyDays, maxH: q.maxHolidayDays, maxI: q.maxIcuDays };
+  return Object.values(compact).some(v => v !== undefined) ? compact : undefined;
+};
+
+// Reverse of mapMinifiedToSchedule, used to show the model its previous answer
+const mapScheduleToMinified = (schedule: DailySchedule[], codes: ShiftCodes) => {
+  return schedule.map(day => ({
+    d: day.date,
+    h: day.isHoliday,
+    hn: day.holidayName || null,
+    s: Object.fromEntries(Object.entries(day.shifts)
+      .filter(([, slot]) => slot)
+      .map(([shift, slot]) => [codes.code(shift), slot!.assignments]))
   }));
 };
 
+const buildRepairPrompt = (basePrompt: string, previous: DailySchedule[], violations: ScheduleViolation[], codes: ShiftCodes) => {
+  const feedback = violations
+    .filter(v => v.severity === 'hard')
+    .slice(0, MAX_FEEDBACK_ITEMS)
+    .map(v => ({ d: v.date, sh: v.shift && codes.code(v.shift), w: v.ward, id: v.doctorId, rule: v.rule }));
+
+  return `
+    ${basePrompt}
+
+    REPAIR REQUEST:
+    Your previous roster broke the STRICT RULES at these places (d=date, sh=shift, w=ward, id=doctor, rule=broken rule):
+    ${JSON.stringify(feedback)}
+
+    Previous roster:
+    ${JSON.stringify(mapScheduleToMinified(previous, codes))}
+
+    Fix every listed problem. Keep all other assignments unchanged unless a fix requires moving them.
+    Return the FULL corrected month in the same JSON format.
+  `;
+};
+
+const requestRoster = async (ai: GoogleGenAI, prompt: string, layout: RosterLayout, codes: ShiftCodes): Promise<DailySchedule[]> => {
+  // Use gemini-2.5-flash for speed and latest features
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json"
+    }
+  });
+
+  const jsonText = response.text;
+  if (!jsonText) throw new Error("No data received from AI");
+
+  const minifiedData = JSON.parse(jsonText);
+  
+  // Validate that we got an array
+  if (!Array.isArray(minifiedData)) {
+    throw new Error("AI response format error: Expected Array");
+  }
+
+  return mapMinifiedToSchedule(minifiedData, layout, codes);
+};
+
 export const generateScheduleWithGemini = async (
   doctors: Doctor[],
-  config: ScheduleConfig
-): Promise<DailySchedule[]> => {
+  config: ScheduleConfig,
+  options: GenerationOptions = {}
+): Promise<GenerationResult> => {
   // Use Client-Side Generation to avoid Vercel Serverless Function Timeout (10s limit on Hobby tier)
   
   if (!process.env.API_KEY) {
@@ -31,35 +204,60 @@ export const generateScheduleWithGemini = async (
   const daysInMonth = getDaysInMonth(new Date(config.year, config.month));
   const monthName = format(new Date(config.year, config.month), 'MMMM yyyy');
   const activeDoctors = doctors.filter(d => d.active);
+  const current = options.current || [];
+  const scope = options.scope;
+  const context = options.context || [];
+  const codes = buildShiftCodes(config.shifts);
+  const fixedAssignments = collectFixedAssignments(current, codes, scope);
+  const monthStart = format(new Date(config.year, config.month, 1), 'yyyy-MM-dd');
+  const monthEnd = format(new Date(config.year, config.month, daysInMonth), 'yyyy-MM-dd');
+  const monthDates = Array.from({ length: daysInMonth }, (_, i) => format(new Date(config.year, config.month, i + 1), 'yyyy-MM-dd'));
+  const neighbours = summarizeNeighbourMonths(context, monthStart, monthEnd);
+  // Fiscal-year totals replace last month's holiday counts when the ledger is available
+  const history = options.ledger
+    ? Object.fromEntries(options.ledger.doctors.map(e => [e.doctorId, { h: e.holidayDays, nh: e.namedHolidayDays, w: e.wardShifts }]))
+    : Object.fromEntries(Object.entries(neighbours.holidays).map(([id, h]) => [id, { h }]));
+  const historyNote = options.ledger
+    ? `Fiscal year since ${options.ledger.fiscalYearStart}`
+    : 'Last month only';
+  const scopeNote = scope
+    ? `Rebuild ONLY ${scope.startDate} to ${scope.endDate} for wards [${scope.wards.join(', ')}]. Everything else is already decided and listed in 'Fixed'.`
+    : 'Build the whole month.';
 
   // Updated Prompt based on User Requirements
   const prompt = `
     Role: Medical Scheduler.
     Task: Create a roster for ${monthName} (${daysInMonth} days).
+    Scope: ${scopeNote}
     
     Resources:
-    - Doctors: ${JSON.stringify(activeDoctors.map(d => ({ id: d.id, n: d.name, un: d.unavailableDates })))}
+    - Doctors: ${JSON.stringify(activeDoctors.map(d => ({ id: d.id, n: d.name, un: unavailableInMonth(d, monthDates), us: partialUnavailability(d, monthDates, codes), pon: d.preferredDates, poff: d.preferredOffDates, q: compactQuota(d), tg: d.qualifications?.length ? d.qualifications : undefined })))}
+    - Shifts: ${JSON.stringify(compactShifts(config.shifts, codes))} (In time order. k = shift key used everywhere below, n = name, t = start-end time, wd/hd = runs on weekdays/holidays, rq = required qualification tags).
+    - Wards: ${JSON.stringify(compactWards(config.wards, codes))} (wd/hd = shift keys run on weekdays/holidays, ic = intensive care, rq = required qualification tags).
+    - Pairing: ${JSON.stringify(compactPairings(config.pairingConstraints, codes))} (id = doctor, x = must never be on the same shift as this doctor, tg = another doctor on the same shift must have this tag, sh = only this shift key (all shifts if missing), dt = a all days / wd weekdays / hd holidays).
     - Holidays: ${JSON.stringify(config.customHolidays.map(h => ({d: h.date, n: h.name})))} (Includes Weekends).
+    - Fixed: ${JSON.stringify(fixedAssignments)} (Locked by admin or outside the scope. d=date, sh=shift key, w=ward id, id=doctor).
+    - Adjacent: ${JSON.stringify(neighbours.edge)} (Duties already saved in the last days of the previous month and the first days of the next month. Read-only, do NOT output them).
+    - History: ${JSON.stringify(history)} (${historyNote}, before this month. h=holiday duty days, nh=named holiday duty days e.g. Songkran/New Year, w=shifts per ward id).
 
     STRICT RULES (Must follow):
-    1. Unavailable: If a doctor has a date in their 'un' list, they CANNOT work any shift on that date (Morning, Afternoon, or Night).
-    2. Continuity: For ANY day (Weekday or Holiday), the Afternoon and Night shift on a specific ward must be the same doctor.
-       - General Ward: Afternoon Doc = Night Doc.
-       - ICU Ward: Afternoon Doc = Night Doc.
-    3. Separation: On any given shift, General Ward Doc != ICU Ward Doc.
-    4. Weekday Structure (Non-Holiday):
-       - Morning: Closed (null).
-       - Afternoon/Night: Assign 2 different doctors (one for Gen, one for ICU).
-    5. Holiday/Weekend Structure:
-       - Morning: Open. Requires 2 doctors.
-       - PATTERN A (Doctor 1): Morning General -> Afternoon ICU -> Night ICU.
-       - PATTERN B (Doctor 2): Morning ICU -> Afternoon General -> Night General.
-       - Doctor 1 != Doctor 2.
+    1. Unavailable: If a doctor has a date in their 'un' list, they CANNOT work any shift on that date. If 'us' maps a date to shift keys, they CANNOT work those shifts on that date (other shifts are fine).
+    2. Structure: Every ward needs exactly one doctor on each shift it runs that day ('wd' on weekdays, 'hd' on holidays/weekends). Shifts a ward does not run stay empty (leave the ward out).
+    3. Separation: On any given shift, a doctor can be on one ward only.
+    4. Links: Linked cells (shift:ward) must be the same doctor.
+       - Weekdays: ${JSON.stringify(describeLinks(false, config, codes))}
+       - Holidays/Weekends: ${JSON.stringify(describeLinks(true, config, codes))}
+    5. One Chain Per Day: A doctor works at most one chain of linked cells per day; different chains on the same day are different doctors.
+    6. Qualifications: A doctor may only work a cell if their 'tg' list contains every tag in the ward's 'rq' and the shift's 'rq'. With linked cells, the doctor must qualify for every cell of the chain.
+    7. Pairing: Follow every 'Pairing' entry. "Same shift" means the same shift key on the same day, on any ward.
+    8. Fixed: Every assignment in the 'Fixed' list must appear exactly as given. Plan the rest around them, counting them for spacing and balance.
+    9. Quotas: A doctor's 'q' limits their duty DAYS this month (a day counts once however many shifts). min/max = total duty days, maxH = holiday duty days, maxI = days with any shift on an intensive care ('ic') ward. Missing = no limit.
 
     OPTIMIZATION GOALS (Prioritize in order):
-    1. Spacing: Ideally, leave at least 2 rest days between duty days for a doctor (e.g., Work, Rest, Rest, Work). If staffing is tight, 1 rest day is acceptable. Avoid consecutive working days.
-    2. Holiday Distribution: Distribute Holiday/Weekend shifts evenly. Target: Each doctor gets at least 1 holiday shift if possible. Minimize doctors with 0 holiday shifts.
-    3. Ward Balance: Over the month, try to balance each doctor's assignments so they do ~50% General Ward roles and ~50% ICU roles.
+    1. Spacing: Ideally, leave at least 2 rest days between duty days for a doctor (e.g., Work, Rest, Rest, Work). If staffing is tight, 1 rest day is acceptable. Avoid consecutive working days. Count the 'Adjacent' duties too, so the 1st and last days of the month respect spacing across the month boundary.
+    2. Holiday Distribution: Distribute Holiday/Weekend shifts evenly. Target: Each doctor gets at least 1 holiday shift if possible. Minimize doctors with 0 holiday shifts. Fairness is cumulative: doctors with a higher 'h' in 'History' should get fewer holiday shifts this month, and doctors with a lower 'nh' should be preferred for named holidays (days with a name in 'Holidays').
+    3. Ward Balance: Over the month, try to balance each doctor's assignments so their mix of wards matches the mix of shifts the wards need (~50% / ~50% with two equal wards). Include 'w' from 'History' so the yearly totals even out.
+    4. Preferences: Try to schedule doctors on their 'pon' dates and keep them off their 'poff' dates. These are wishes only: never break a STRICT RULE or a higher goal for them.
 
     Output: JSON Array of Objects with these short keys ONLY:
     {
@@ -67,35 +265,61 @@ export const generateScheduleWithGemini = async (
       "h": boolean (isHoliday),
       "hn": string (holidayName or null),
       "s": {
-        "m": { "i": "id"|null, "g": "id"|null } (Morning, null if weekday),
-        "a": { "i": "id", "g": "id" } (Afternoon),
-        "n": { "i": "id", "g": "id" } (Night)
+        "<shift key>": { "<ward id>": "id" } (One entry per shift running that day, only wards running it, null if none)
       }
     }
     Return ONLY valid JSON.
   `;
 
   try {
-    // Use gemini-2.5-flash for speed and latest features
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json"
+    // Repair loop: feed the detected violations back to the model and keep the best attempt
+    let best: { schedule: DailySchedule[]; violations: ScheduleViolation[] } | null = null;
+    let attempts = 0;
+
+    while (attempts < MAX_ATTEMPTS) {
+      const currentPrompt = best ? buildRepairPrompt(prompt, best.schedule, best.violations, codes) : prompt;
+      attempts++;
+
+      let candidate: DailySchedule[];
+      try {
+        candidate = await requestRoster(ai, currentPrompt, config, codes);
+      } catch (error) {
+        // A broken repair answer should not throw away a usable earlier attempt
+        if (!best) throw error;
+        console.warn(`AI attempt ${attempts} failed:`, error);
+        continue;
       }
-    });
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No data received from AI");
+      // Fixed cells always win over what the model returned
+      if (current.length > 0) candidate = mergeGeneratedSchedule(current, candidate, scope);
 
-    const minifiedData = JSON.parse(jsonText);
-    
-    // Validate that we got an array
-    if (!Array.isArray(minifiedData)) {
-      throw new Error("AI response format error: Expected Array");
+      const violations = validateSchedule(candidate, doctors, config, context);
+      if (!best || compareViolations(violations, best.violations) < 0) {
+        best = { schedule: candidate, violations };
+      }
+      if (!best.violations.some(v => v.severity === 'hard')) break;
+    }
+
+    if (!best) throw new Error("Failed to generate schedule");
+
+    // Whatever the model could not fix goes through the local repair pass
+    let repairedLocally = false;
+    if (best.violations.some(v => v.severity === 'hard')) {
+      let repaired = await repairScheduleLocally(best.schedule, doctors, config, scope, context, options.ledger);
+      if (current.length > 0) repaired = mergeGeneratedSchedule(current, repaired, scope);
+      const violations = validateSchedule(repaired, doctors, config, context);
+      if (compareViolations(violations, best.violations) < 0) {
+        best = { schedule: repaired, violations };
+        repairedLocally = true;
+      }
     }
 
-    return mapMinifiedToSchedule(minifiedData);
+    return {
+      schedule: best.schedule,
+      attempts,
+      repairedLocally,
+      violations: best.violations
+    };
 
   } catch (error: any) {
     console.error("AI Generation Error:", error);
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { DailySchedule, Doctor, GenerationScope } from '../types';
+import { getAssignedCells, getCell, setCell } from '../utils/scheduleCells';
+import { validateSchedule } from '../utils/scheduleValidator';
+import { config, doctor } from '../utils/testFixtures';
+import { generateScheduleLocally, repairScheduleLocally } from './localSolver';
+
+const doctors = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => doctor(id));
+
+const hardViolations = (schedule: DailySchedule[], team: Doctor[] = doctors) =>
+  validateSchedule(schedule, team, config).filter(v => v.severity === 'hard');
+
+const onDuty = (day: DailySchedule) => getAssignedCells(day).map(([, , id]) => id);
+
+describe('generateScheduleLocally', () => {
+  it('fills the month without breaking a strict rule', async () => {
+    const schedule = await generateScheduleLocally(doctors, config);
+    expect(schedule).toHaveLength(31);
+    expect(hardViolations(schedule)).toEqual([]);
+  });
+
+  it('keeps doctors off their leave', async () => {
+    const onLeave = doctors.map(d => (d.id === 'a' ? { ...d, unavailability: [{ id: 'l1', date: '2025-03-10', type: 'annual-leave' as const }] } : d));
+    const schedule = await generateScheduleLocally(onLeave, config);
+    expect(onDuty(schedule.find(d => d.date === '2025-03-10')!)).not.toContain('a');
+    expect(hardViolations(schedule, onLeave)).toEqual([]);
+  });
+
+  it('leaves inactive doctors out', async () => {
+    const schedule = await generateScheduleLocally(doctors.map(d => (d.id === 'f' ? { ...d, active: false } : d)), config);
+    expect(schedule.flatMap(onDuty)).not.toContain('f');
+  });
+
+  it('keeps locked cells', async () => {
+    const current = await generateScheduleLocally(doctors, config);
+    const locked = current.map(d => (d.date === '2025-03-20'
+      ? { ...d, shifts: { ...d.shifts, afternoon: { ...d.shifts.afternoon, locked: { icu: true } } } }
+      : d));
+    const rebuilt = await generateScheduleLocally(doctors.slice().reverse(), config, { current: locked });
+    expect(getCell(rebuilt[19], 'afternoon', 'icu')).toBe(getCell(current[19], 'afternoon', 'icu'));
+    expect(hardViolations(rebuilt)).toEqual([]);
+  });
+
+  it('keeps everything outside the scope', async () => {
+    const current = await generateScheduleLocally(doctors, config);
+    const scope: GenerationScope = { startDate: '2025-03-10', endDate: '2025-03-20', wards: ['icu'] };
+    const rebuilt = await generateScheduleLocally(doctors.slice().reverse(), config, { current, scope });
+    rebuilt.forEach((d, i) => {
+      if (d.date < scope.startDate || d.date > scope.endDate) expect(d.shifts).toEqual(current[i].shifts);
+      else expect(getCell(d, 'night', 'general')).toBe(getCell(current[i], 'night', 'general'));
+    });
+    expect(hardViolations(rebuilt)).toEqual([]);
+  });
+
+  it('keeps each doctor within their monthly quota', async () => {
+    const limited = doctors.map(d => (d.id === 'a' ? { ...d, quota: { maxDutyDays: 3 } } : d.id === 'b' ? { ...d, quota: { minDutyDays: 14 } } : d));
+    const schedule = await generateScheduleLocally(limited, config);
+    expect(schedule.filter(d => onDuty(d).includes('a')).length).toBeLessThanOrEqual(3);
+    expect(schedule.filter(d => onDuty(d).includes('b')).length).toBeGreaterThanOrEqual(14);
+    expect(hardViolations(schedule, limited)).toEqual([]);
+  });
+
+  it('makes a different schedule for another variant, still without breaking a strict rule', async () => {
+    const first = await generateScheduleLocally(doctors, config);
+    const second = await generateScheduleLocally(doctors, config, { variant: 1 });
+    expect(second).not.toEqual(first);
+    expect(hardViolations(second)).toEqual([]);
+  });
+
+  it('only gives a ward to doctors holding its required tags', async () => {
+    const icuConfig = { ...config, wards: config.wards.map(w => (w.id === 'icu' ? { ...w, requiredTags: ['ICU'] } : w)) };
+    const tagged = doctors.map(d => (['a', 'b', 'c'].includes(d.id) ? { ...d, qualifications: ['ICU'] } : d));
+    const schedule = await generateScheduleLocally(tagged, icuConfig);
+    const onIcu = schedule.flatMap(d => getAssignedCells(d).filter(([, ward]) => ward === 'icu').map(([, , id]) => id));
+    expect(new Set(onIcu)).toEqual(new Set(['a', 'b', 'c']));
+    expect(validateSchedule(schedule, tagged, icuConfig).filter(v => v.severity === 'hard')).toEqual([]);
+  });
+});
+
+describe('repairScheduleLocally', () => {
+  it('re-fills only the cells that break a strict rule', async () => {
+    const schedule = await generateScheduleLocally(doctors, config);
+    // March 3rd: the ICU doctor also takes the General Afternoon, so one of their two blocks is re-filled
+    const icu = getCell(schedule[2], 'afternoon', 'icu');
+    const broken = schedule.map((d, i) => (i === 2 ? setCell(d, 'afternoon', 'general', icu) : d));
+
+    const repaired = await repairScheduleLocally(broken, doctors, config);
+    expect(hardViolations(repaired)).toEqual([]);
+    expect(repaired.filter((_, i) => i !== 2)).toEqual(schedule.filter((_, i) => i !== 2));
+    expect(onDuty(repaired[2]).filter(id => id === icu)).toHaveLength(2);
+  });
+});
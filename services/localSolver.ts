@@ -0,0 +1,500 @@
+import { Doctor, ScheduleConfig, DailySchedule, WardKey, GenerationOptions, GenerationScope, FairnessLedger, DoctorQuota, PairingConstraint, ShiftPeriod } from '../types';
+import { getDaysInMonth, format } from 'date-fns';
+import { isAvailableFor, isAvailableOn } from '../utils/availability';
+import { CONTEXT_DAYS, CellRef, RosterLayout, createEmptyDay, dayNumber, getBlocks, getCell, getPairingBreaches, isCellFixed, isQualifiedFor, summarizeContext } from '../utils/scheduleCells';
+
+/**
+ * Local Constraint Solver
+ * สร้างตารางเวรในเครื่องโดยไม่ต้องใช้ AI (ใช้ได้แม้ไม่มีอินเทอร์เน็ต และได้ผลเหมือนเดิมทุกครั้ง)
+ *
+ * Every day is split into duty blocks (groups of cells linked by the rotation rules,
+ * see getBlocks), each covered by a single doctor. With the default rules:
+ * - Afternoon + Night ICU (holidays: Morning General first = Pattern A)
+ * - Afternoon + Night General (holidays: Morning ICU first = Pattern B)
+ * Assigning whole blocks keeps the rotation and separation rules
+ * true by construction, so the search only deals with availability, the per-doctor
+ * quotas and pairing constraints (heavily penalised, but never above leaving a block empty), the doctors'
+ * qualifications (a block only goes to a doctor holding every tag its cells require) and the
+ * optimisation goals (rest spacing > holiday distribution > ward balance), plus the
+ * doctors' preferred on/off dates as weighted wishes.
+ * Blocks touching a fixed cell (locked, or outside a partial rebuild scope) are pinned
+ * and never moved by the search, but still count towards spacing and balance.
+ * Saved days of the neighbouring months are read-only context: their duties count
+ * for spacing across the month boundary and last month's holidays for holiday fairness.
+ * With the fiscal-year ledger, holiday, named-holiday and ward totals carry over instead,
+ * so doctors who are behind for the year are preferred.
+ */
+
+const PENALTY = {
+  unfilled: 1000,       // Block left empty although a doctor was free
+  quota: 400,           // Per day above a doctor's maximum or below their minimum
+  pairing: 400,         // Per shift breaking a pairing constraint
+  consecutiveDay: 100,  // Work, Work
+  oneRestDay: 15,       // Work, Rest, Work
+  holidaySpread: 8,     // Per squared deviation from the mean holiday count
+  namedHolidaySpread: 10, // Per squared deviation from the mean named-holiday count (Songkran, New Year...)
+  noHoliday: 25,        // Doctor with 0 holiday duties while there are enough to go round
+  workloadSpread: 6,    // Per squared deviation from the mean duty count
+  wardImbalance: 2,     // Per shift away from the ward's share of all shifts
+  preference: 20        // Per preferred duty date not worked / preferred-off date worked
+};
+
+const MAX_PASSES = 50;
+// The search runs on the page's thread: hand control back this often so the page keeps painting
+const YIELD_EVERY_MS = 50;
+
+interface DayPlan {
+  date: string;
+  isHoliday: boolean;
+  holidayName?: string;
+  available: string[]; // Doctor IDs not blocked for the whole day
+  eligible: string[][]; // Doctor IDs free and qualified for every cell of each block
+  preferOn: string[]; // Doctor IDs who would like to work this day
+  preferOff: string[]; // Doctor IDs who would rather be off this day
+  cells: CellRef[][]; // Cells covered by each block
+  blocks: (string | null)[]; // Doctor per block
+  fixed: boolean[]; // Block is pinned by a fixed cell
+}
+
+interface Tally {
+  days: number[];
+  holidays: number;
+  namedHolidays: number;
+  icuDays: number;
+  wards: Record<WardKey, number>; // Shifts per ward
+}
+
+type Quotas = Map<string, DoctorQuota>;
+
+const buildQuotas = (doctors: Doctor[]): Quotas =>
+  new Map(doctors.filter(d => d.quota).map(d => [d.id, d.quota!]));
+
+// Days outside a doctor's monthly limits
+const quotaExcess = (tally: Tally, quota?: DoctorQuota): number => {
+  if (!quota) return 0;
+  const over = (value: number, max?: number) => (max !== undefined ? Math.max(0, value - max) : 0);
+  return over(tally.days.length, quota.maxDutyDays)
+    + over(tally.holidays, quota.maxHolidayDays)
+    + over(tally.icuDays, quota.maxIcuDays)
+    + (quota.minDutyDays !== undefined ? Math.max(0, quota.minDutyDays - tally.days.length) : 0);
+};
+
+// What a doctor brings into the month: neighbouring duties (days as indexes relative
+// to the first day of the month) and totals already worked earlier in the year
+interface CarryOver {
+  before: number[];
+  after: number[];
+  holidays: number;
+  namedHolidays: number;
+  wards: Record<WardKey, number>;
+}
+
+type Carry = Map<string, CarryOver>;
+
+const buildCarry = (plans: DayPlan[], context: DailySchedule[] = [], ledger?: FairnessLedger): Carry => {
+  const carry: Carry = new Map();
+  if (plans.length === 0) return carry;
+  const base = dayNumber(plans[0].date);
+  const carryOf = (id: string): CarryOver => {
+    let entry = carry.get(id);
+    if (!entry) {
+      entry = { before: [], after: [], holidays: 0, namedHolidays: 0, wards: {} };
+      carry.set(id, entry);
+    }
+    return entry;
+  };
+
+  summarizeContext(context, plans[0].date).forEach((duties, id) => {
+    const entry = carryOf(id);
+    // Only the trailing days can affect spacing inside the month
+    entry.before = duties.before.map(n => n - base).filter(index => index >= -CONTEXT_DAYS);
+    entry.after = duties.after.map(n => n - base);
+    // The ledger already covers last month
+    if (!ledger) entry.holidays = duties.holidays;
+  });
+
+  ledger?.doctors.forEach(totals => {
+    const entry = carryOf(totals.doctorId);
+    entry.holidays = totals.holidayDays;
+    entry.namedHolidays = totals.namedHolidayDays;
+    entry.wards = { ...totals.wardShifts };
+  });
+  return carry;
+};
+
+const buildDayPlans = (doctors: Doctor[], config: ScheduleConfig): DayPlan[] => {
+  const daysInMonth = getDaysInMonth(new Date(config.year, config.month));
+  const plans: DayPlan[] = [];
+
+  for (let i = 1; i <= daysInMonth; i++) {
+    const date = new Date(config.year, config.month, i);
+    const dateStr = format(date, 'yyyy-MM-dd');
+    const dayOfWeek = date.getDay();
+    const customHoliday = config.customHolidays.find(h => h.date === dateStr);
+    const isHoliday = dayOfWeek === 0 || dayOfWeek === 6 || !!customHoliday;
+    const cells = getBlocks(isHoliday, config);
+    const available = doctors.filter(d => isAvailableOn(d, dateStr));
+
+    plans.push({
+      date: dateStr,
+      isHoliday,
+      holidayName: customHoliday?.name,
+      available: available.map(d => d.id),
+      eligible: cells.map(block => available
+        .filter(d => block.every(([shift, ward]) => isAvailableFor(d, dateStr, shift) && isQualifiedFor(d, config, shift, ward)))
+        .map(d => d.id)),
+      preferOn: doctors.filter(d => d.preferredDates?.includes(dateStr)).map(d => d.id),
+      preferOff: doctors.filter(d => d.preferredOffDates?.includes(dateStr)).map(d => d.id),
+      cells,
+      blocks: cells.map(() => null),
+      fixed: cells.map(() => false)
+    });
+  }
+  return plans;
+};
+
+// Seeded random numbers (mulberry32), so a variant gives the same schedule every time
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Another variant tries the doctors in another order, so ties and local optima resolve differently
+const shuffleEligible = (plans: DayPlan[], variant: number) => {
+  const random = createRandom(variant);
+  plans.forEach(day => day.eligible.forEach(ids => {
+    for (let i = ids.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [ids[i], ids[j]] = [ids[j], ids[i]];
+    }
+  }));
+};
+
+// Pin every block that has a doctor in a fixed cell to that doctor.
+// Blocks lying completely outside the scope stay as they are, even when empty.
+const applyFixedCells = (plans: DayPlan[], current: DailySchedule[], scope?: GenerationScope) => {
+  plans.forEach(plan => {
+    const day = current.find(s => s.date === plan.date);
+    if (!day) return;
+    plan.cells.forEach((cells, blockIndex) => {
+      const pinned = cells.find(([shift, ward]) => isCellFixed(day, shift, ward, scope) && getCell(day, shift, ward));
+      if (pinned) {
+        plan.blocks[blockIndex] = getCell(day, pinned[0], pinned[1]);
+        plan.fixed[blockIndex] = true;
+      } else if (cells.every(([shift, ward]) => isCellFixed(day, shift, ward, scope))) {
+        plan.blocks[blockIndex] = null;
+        plan.fixed[blockIndex] = true;
+      }
+    });
+  });
+};
+
+// Share of the month's shifts on each ward; a balanced doctor works the same mix
+const buildWardShares = (plans: DayPlan[]): Record<WardKey, number> => {
+  const shares: Record<WardKey, number> = {};
+  let total = 0;
+  plans.forEach(day => day.cells.forEach(cells => cells.forEach(([, ward]) => {
+    shares[ward] = (shares[ward] || 0) + 1;
+    total++;
+  })));
+  Object.keys(shares).forEach(ward => { shares[ward] /= total; });
+  return shares;
+};
+
+interface Scoring {
+  doctorIds: string[];
+  carry: Carry;
+  quotas: Quotas;
+  shares: Record<WardKey, number>;
+  intensiveWards: Set<WardKey>;
+  pairings: PairingConstraint[];
+  tagsOf: (id: string) => string[];
+}
+
+const createScoring = (plans: DayPlan[], doctors: Doctor[], config: ScheduleConfig, carry: Carry): Scoring => {
+  const tags = new Map(doctors.map(d => [d.id, d.qualifications || []]));
+  return {
+    doctorIds: doctors.map(d => d.id),
+    carry,
+    quotas: buildQuotas(doctors),
+    shares: buildWardShares(plans),
+    intensiveWards: new Set(config.wards.filter(w => w.intensiveCare).map(w => w.id)),
+    pairings: config.pairingConstraints,
+    tagsOf: id => tags.get(id) || []
+  };
+};
+
+// Pairing constraints broken on a day, over every shift that has doctors
+const pairingBreaches = (day: DayPlan, pairings: PairingConstraint[], tagsOf: (id: string) => string[]): number => {
+  const onShift = new Map<ShiftPeriod, string[]>();
+  day.blocks.forEach((id, blockIndex) => {
+    if (!id) return;
+    day.cells[blockIndex].forEach(([shift]) => onShift.set(shift, [...(onShift.get(shift) || []), id]));
+  });
+  let breaches = 0;
+  onShift.forEach((ids, shift) => {
+    breaches += getPairingBreaches(pairings, tagsOf, day.isHoliday, shift, ids).length;
+  });
+  return breaches;
+};
+
+// Total cost of the current plan (lower is better)
+const scorePlans = (plans: DayPlan[], { doctorIds, carry, quotas, shares, intensiveWards, pairings, tagsOf }: Scoring): number => {
+  const tallies = new Map<string, Tally>();
+  doctorIds.forEach(id => tallies.set(id, { days: [], holidays: 0, namedHolidays: 0, icuDays: 0, wards: {} }));
+
+  let cost = 0;
+  let totalDuties = 0;
+  let totalHolidayDuties = 0;
+  let totalNamedHolidayDuties = 0;
+
+  plans.forEach((day, dayIndex) => {
+    const freeDoctors = day.available.length;
+    day.preferOn.forEach(id => { if (!day.blocks.includes(id)) cost += PENALTY.preference; });
+    day.preferOff.forEach(id => { if (day.blocks.includes(id)) cost += PENALTY.preference; });
+    if (pairings.length > 0) cost += pairingBreaches(day, pairings, tagsOf) * PENALTY.pairing;
+    day.blocks.forEach((id, blockIndex) => {
+      if (!id) {
+        if (freeDoctors > blockIndex && day.eligible[blockIndex].length > 0) cost += PENALTY.unfilled;
+        return;
+      }
+      const tally = tallies.get(id);
+      if (!tally) return;
+      tally.days.push(dayIndex);
+      // Count shifts per ward over every cell of the block
+      const cells = day.cells[blockIndex];
+      cells.forEach(([, ward]) => { tally.wards[ward] = (tally.wards[ward] || 0) + 1; });
+      if (cells.some(([, ward]) => intensiveWards.has(ward))) tally.icuDays++;
+      if (day.isHoliday) {
+        tally.holidays++;
+        totalHolidayDuties++;
+        if (day.holidayName) {
+          tally.namedHolidays++;
+          totalNamedHolidayDuties++;
+        }
+      }
+      totalDuties++;
+    });
+  });
+
+  const doctorCount = Math.max(doctorIds.length, 1);
+  const meanDuties = totalDuties / doctorCount;
+  // Holiday fairness is cumulative: holiday duties worked before this month are added on top
+  const carriedHolidays = doctorIds.reduce((sum, id) => sum + (carry.get(id)?.holidays || 0), 0);
+  const carriedNamedHolidays = doctorIds.reduce((sum, id) => sum + (carry.get(id)?.namedHolidays || 0), 0);
+  const meanHolidays = (totalHolidayDuties + carriedHolidays) / doctorCount;
+  const meanNamedHolidays = (totalNamedHolidayDuties + carriedNamedHolidays) / doctorCount;
+  const wardKeys = Object.keys(shares);
+
+  tallies.forEach((tally, id) => {
+    const context = carry.get(id);
+    const days = context ? [...context.before, ...tally.days, ...context.after] : tally.days;
+    for (let k = 1; k < days.length; k++) {
+      const restDays = days[k] - days[k - 1] - 1;
+      if (restDays === 0) cost += PENALTY.consecutiveDay;
+      else if (restDays === 1) cost += PENALTY.oneRestDay;
+    }
+    cost += (tally.days.length - meanDuties) ** 2 * PENALTY.workloadSpread;
+    cost += (tally.holidays + (context?.holidays || 0) - meanHolidays) ** 2 * PENALTY.holidaySpread;
+    cost += (tally.namedHolidays + (context?.namedHolidays || 0) - meanNamedHolidays) ** 2 * PENALTY.namedHolidaySpread;
+    if (tally.holidays === 0 && totalHolidayDuties >= doctorCount) cost += PENALTY.noHoliday;
+    cost += quotaExcess(tally, quotas.get(id)) * PENALTY.quota;
+
+    // With two equal wards this is the difference between ICU and General
+    const wardTotal = (ward: WardKey) => (tally.wards[ward] || 0) + (context?.wards[ward] || 0);
+    const shifts = wardKeys.reduce((sum, ward) => sum + wardTotal(ward), 0);
+    wardKeys.forEach(ward => {
+      cost += Math.abs(wardTotal(ward) - shifts * shares[ward]) * PENALTY.wardImbalance;
+    });
+  });
+
+  return cost;
+};
+
+const isEligible = (day: DayPlan, id: string | null, blockIndex: number): boolean =>
+  !id || day.eligible[blockIndex].includes(id);
+
+const canWork = (day: DayPlan, id: string | null, blockIndex: number): boolean => {
+  if (day.fixed[blockIndex]) return false;
+  if (!id) return true;
+  return isEligible(day, id, blockIndex) && day.blocks.every((other, i) => i === blockIndex || other !== id);
+};
+
+type Pause = () => Promise<void>;
+
+// Waits for the next macrotask once YIELD_EVERY_MS has passed since the last wait
+const createPause = (): Pause => {
+  let last = Date.now();
+  return async () => {
+    if (Date.now() - last < YIELD_EVERY_MS) return;
+    await new Promise(resolve => setTimeout(resolve, 0));
+    last = Date.now();
+  };
+};
+
+// 1. Greedy construction: fill each empty block in date order with the cheapest doctor
+const constructGreedy = async (plans: DayPlan[], scoring: Scoring, pause: Pause) => {
+  for (const day of plans) {
+    day.blocks.forEach((current, blockIndex) => {
+      if (current || day.fixed[blockIndex]) return;
+      let best: string | null = null;
+      let bestCost = Infinity;
+
+      for (const id of day.eligible[blockIndex]) {
+        if (day.blocks.includes(id)) continue;
+        day.blocks[blockIndex] = id;
+        const cost = scorePlans(plans, scoring);
+        if (cost < bestCost) {
+          bestCost = cost;
+          best = id;
+        }
+      }
+      day.blocks[blockIndex] = best;
+    });
+    await pause();
+  }
+};
+
+// 2. Local search: apply strictly improving moves until none is left
+const improveLocally = async (plans: DayPlan[], scoring: Scoring, pause: Pause) => {
+  let current = scorePlans(plans, scoring);
+  let improved = true;
+  let pass = 0;
+
+  const tryMove = (apply: () => void, revert: () => void) => {
+    apply();
+    const cost = scorePlans(plans, scoring);
+    if (cost < current) {
+      current = cost;
+      improved = true;
+    } else {
+      revert();
+    }
+  };
+
+  while (improved && pass < MAX_PASSES) {
+    improved = false;
+    pass++;
+
+    for (let dayIndex = 0; dayIndex < plans.length; dayIndex++) {
+      const day = plans[dayIndex];
+      // a) Swap two blocks of the day (e.g. moves both doctors to the other ward)
+      for (let i = 0; i < day.blocks.length; i++) {
+        for (let j = i + 1; j < day.blocks.length; j++) {
+          if (day.fixed[i] || day.fixed[j]) continue;
+          const a = day.blocks[i];
+          const b = day.blocks[j];
+          if (!isEligible(day, b, i) || !isEligible(day, a, j)) continue;
+          tryMove(
+            () => { day.blocks[i] = b; day.blocks[j] = a; },
+            () => { day.blocks[i] = a; day.blocks[j] = b; }
+          );
+        }
+      }
+
+      // b) Hand a block to another free doctor
+      day.blocks.forEach((original, blockIndex) => {
+        if (day.fixed[blockIndex]) return;
+        for (const id of day.eligible[blockIndex]) {
+          if (day.blocks.includes(id)) continue;
+          tryMove(
+            () => { day.blocks[blockIndex] = id; },
+            () => { day.blocks[blockIndex] = original; }
+          );
+          if (day.blocks[blockIndex] !== original) break;
+        }
+      });
+
+      // c) Exchange a block with a block on a later day
+      for (let otherIndex = dayIndex + 1; otherIndex < plans.length; otherIndex++) {
+        const other = plans[otherIndex];
+        for (let i = 0; i < day.blocks.length; i++) {
+          for (let j = 0; j < other.blocks.length; j++) {
+            const mine = day.blocks[i];
+            const theirs = other.blocks[j];
+            if (mine === theirs || !canWork(day, theirs, i) || !canWork(other, mine, j)) continue;
+            tryMove(
+              () => { day.blocks[i] = theirs; other.blocks[j] = mine; },
+              () => { day.blocks[i] = mine; other.blocks[j] = theirs; }
+            );
+          }
+        }
+      }
+      await pause();
+    }
+  }
+};
+
+const toDailySchedule = (day: DayPlan, layout: RosterLayout): DailySchedule => {
+  const result = createEmptyDay(day.date, day.isHoliday, day.holidayName, layout);
+  day.cells.forEach((cells, blockIndex) => cells.forEach(([shift, ward]) => {
+    result.shifts[shift]!.assignments[ward] = day.blocks[blockIndex];
+  }));
+  return result;
+};
+
+export const generateScheduleLocally = async (
+  doctors: Doctor[],
+  config: ScheduleConfig,
+  options: GenerationOptions = {}
+): Promise<DailySchedule[]> => {
+  const activeDoctors = doctors.filter(d => d.active);
+  const plans = buildDayPlans(activeDoctors, config);
+  if (options.variant) shuffleEligible(plans, options.variant);
+  applyFixedCells(plans, options.current || [], options.scope);
+  const carry = buildCarry(plans, options.context, options.ledger);
+  const scoring = createScoring(plans, activeDoctors, config, carry);
+
+  const pause = createPause();
+  await constructGreedy(plans, scoring, pause);
+  await improveLocally(plans, scoring, pause);
+
+  return plans.map(day => toDailySchedule(day, config));
+};
+
+// Afternoon decides who owns a block, then Night, then the Morning that starts a rotation
+const READ_ORDER = ['afternoon', 'night', 'morning'];
+const readRank = (shift: string) => (READ_ORDER.includes(shift) ? READ_ORDER.indexOf(shift) : READ_ORDER.length);
+
+// Read the doctor owning a block from an existing day. Anyone not allowed to work it is dropped.
+const readBlock = (day: DailySchedule, plan: DayPlan, blockIndex: number): string | null => {
+  const candidates = [...plan.cells[blockIndex]]
+    .sort((a, b) => readRank(a[0]) - readRank(b[0]))
+    .map(([shift, ward]) => getCell(day, shift, ward));
+  return candidates.find(id => !!id && plan.eligible[blockIndex].includes(id)) || null;
+};
+
+/**
+ * Local repair pass: keeps every valid block of an existing schedule and only
+ * re-fills the blocks that break a STRICT RULE (unknown/unavailable/unqualified doctor,
+ * broken rotation rule, same doctor on two wards).
+ */
+export const repairScheduleLocally = async (
+  schedule: DailySchedule[],
+  doctors: Doctor[],
+  config: ScheduleConfig,
+  scope?: GenerationScope,
+  context: DailySchedule[] = [],
+  ledger?: FairnessLedger
+): Promise<DailySchedule[]> => {
+  const activeDoctors = doctors.filter(d => d.active);
+  const plans = buildDayPlans(activeDoctors, config);
+
+  plans.forEach(plan => {
+    const day = schedule.find(s => s.date === plan.date);
+    if (!day) return;
+    plan.cells.forEach((_, blockIndex) => {
+      const id = readBlock(day, plan, blockIndex);
+      // A doctor keeps only the first block they own that day
+      plan.blocks[blockIndex] = id && !plan.blocks.includes(id) ? id : null;
+    });
+  });
+  applyFixedCells(plans, schedule, scope);
+
+  const carry = buildCarry(plans, context, ledger);
+  await constructGreedy(plans, createScoring(plans, activeDoctors, config, carry), createPause());
+
+  return plans.map(day => toDailySchedule(day, config));
+};
@@ -1,49 +1,166 @@
 
+// Monthly limits per doctor (part-time/senior doctors work less, fellows more). Missing = no limit.
+export interface DoctorQuota {
+  minDutyDays?: number;
+  maxDutyDays?: number;
+  maxHolidayDays?: number;
+  maxIcuDays?: number; // Days with at least one shift in an intensive-care ward
+}
+
+export type LeaveType = 'annual-leave' | 'conference' | 'sick' | 'post-call';
+
+// One day (or some shifts of a day) a doctor cannot be on duty
+export interface UnavailabilityEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  shifts?: ShiftPeriod[]; // Affected shifts; missing/empty = the whole day
+  type: LeaveType;
+}
+
+export type LeaveRequestStatus = 'pending' | 'approved' | 'rejected';
+
+// Leave asked for by a doctor; approving it adds one UnavailabilityEntry per date
+export interface LeaveRequest {
+  id: string;
+  doctorId: string;
+  dates: string[]; // YYYY-MM-DD
+  shifts?: ShiftPeriod[]; // Missing/empty = the whole day
+  type: LeaveType;
+  note?: string;
+  status: LeaveRequestStatus;
+  requestedBy: string; // Username
+  createdAt: string; // ISO timestamp
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string; // e.g. reason for rejecting
+}
+
 export interface Doctor {
   id: string;
   name: string;
   phone: string;
-  unavailableDates: string[]; // ISO dates YYYY-MM-DD
+  unavailability: UnavailabilityEntry[];
+  unavailableWeekdays?: number[]; // Never on duty these weekdays (0 = Sunday ... 6 = Saturday)
+  employmentStart?: string; // First working date YYYY-MM-DD (inclusive)
+  employmentEnd?: string; // Last working date YYYY-MM-DD (inclusive)
+  preferredDates?: string[]; // Would like to work these dates (soft)
+  preferredOffDates?: string[]; // Would rather not work these dates (soft)
   active: boolean;
   color: string;
+  quota?: DoctorQuota;
+  qualifications?: string[]; // Tags such as 'ICU', matched against ward/shift requiredTags
 }
 
-export type ShiftPeriod = 'morning' | 'afternoon' | 'night';
-export type WardType = 'ICU' | 'General';
+export type ShiftPeriod = string; // ShiftDefinition.id
+export type WardKey = string; // WardDefinition.id
 
-// Morning: 8:31-16:30 (Only Weekends/Holidays)
-// Afternoon: 16:31-00:30 (Everyday)
-// Night: 00:31-08:30 (Everyday)
+// Admin-defined shift period of the day, in the order they follow each other
+export interface ShiftDefinition {
+  id: ShiftPeriod; // Stable key used in saved schedules, e.g. 'morning'
+  name: string;
+  start: string; // HH:mm
+  end: string; // HH:mm, may be past midnight (earlier than start)
+  weekday: boolean; // Runs on weekdays
+  holiday: boolean; // Runs on weekends/holidays
+  requiredTags?: string[]; // Qualification tags every doctor on this shift needs
+}
+
+// Admin-defined ward (column group of the schedule)
+export interface WardDefinition {
+  id: WardKey; // Stable key used in saved schedules, e.g. 'icu'
+  name: string;
+  color: string; // Hex, used for headers and exports
+  weekdayShifts: ShiftPeriod[]; // Shifts staffed on weekdays
+  holidayShifts: ShiftPeriod[]; // Shifts staffed on weekends/holidays
+  intensiveCare: boolean; // Counts towards ICU quotas and statistics
+  requiredTags?: string[]; // Qualification tags every doctor on this ward needs
+  active: boolean; // Inactive wards are not generated; they stay visible in months that used them
+}
+
+// Admin-defined link between two cells of the same day: whoever works the "from" cell
+// also works the "to" cell, e.g. Afternoon ICU -> Night ICU
+export interface RotationRule {
+  id: string;
+  fromShift: ShiftPeriod;
+  fromWard: WardKey;
+  toShift: ShiftPeriod;
+  toWard: WardKey;
+  weekday: boolean; // Applies on weekdays
+  holiday: boolean; // Applies on weekends/holidays
+}
+
+// Who may or must share a shift with a doctor
+export type PairingType =
+  | 'must-not-pair' // doctorId and otherDoctorId never on the same shift
+  | 'must-pair-with-tag'; // Whenever doctorId works, another doctor on that shift holds the tag
+
+export interface PairingConstraint {
+  id: string;
+  type: PairingType;
+  doctorId: string;
+  otherDoctorId?: string; // must-not-pair only
+  tag?: string; // must-pair-with-tag only
+  shift?: ShiftPeriod; // Only this shift; every shift when missing
+  dayType: 'all' | 'weekday' | 'holiday';
+}
 
 export interface Holiday {
   date: string;
   name: string;
 }
 
+export interface ShiftSlot {
+  assignments: Record<WardKey, string | null>; // Ward ID -> Doctor ID
+  locked?: Record<WardKey, boolean>; // Pinned by the admin, generation must keep these
+}
+
 export interface DailySchedule {
   date: string; // ISO string
   isHoliday: boolean;
   holidayName?: string;
-  shifts: {
-    morning?: {
-      icu: string | null; // Doctor ID
-      general: string | null;
-    };
-    afternoon: {
-      icu: string | null;
-      general: string | null;
-    };
-    night: {
-      icu: string | null;
-      general: string | null;
-    };
-  };
+  shifts: Partial<Record<ShiftPeriod, ShiftSlot>>; // Only shifts that run that day
+}
+
+// One cell handed from one doctor to another; `from` is checked against the saved schedule when applied
+export interface CellChange {
+  date: string; // YYYY-MM-DD
+  shift: ShiftPeriod;
+  ward: WardKey;
+  from: string | null;
+  to: string | null;
+}
+
+// proposed -> accepted by the other doctor -> applied (after admin approval when required)
+export type SwapStatus = 'proposed' | 'accepted' | 'applied' | 'declined' | 'rejected';
+
+// A doctor gives a cell (with the cells linked to it that day) to another doctor, or trades it for one of theirs
+export interface SwapRequest {
+  id: string;
+  fromDoctorId: string;
+  toDoctorId: string;
+  date: string;
+  shift: ShiftPeriod;
+  ward: WardKey;
+  trade?: { date: string; shift: ShiftPeriod; ward: WardKey }; // The other doctor's cell taken in return
+  note?: string;
+  status: SwapStatus;
+  requestedBy: string; // Username
+  createdAt: string; // ISO timestamp
+  respondedAt?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
 }
 
 export interface ScheduleConfig {
   year: number;
   month: number; // 0-11
   customHolidays: Holiday[]; // Array of Holiday objects
+  wards: WardDefinition[];
+  shifts: ShiftDefinition[];
+  rotationRules: RotationRule[];
+  pairingConstraints: PairingConstraint[];
+  swapApprovalRequired: boolean; // Swaps both doctors agreed on still wait for an admin
 }
 
 export type UserRole = 'admin' | 'user' | 'viewer';
@@ -52,4 +169,184 @@ export interface User {
   username: string;
   role: UserRole;
   name?: string;
+  doctorId?: string; // Doctor record of this account, linked by an admin
+}
+
+export interface GenerationScope {
+  startDate: string; // YYYY-MM-DD (inclusive)
+  endDate: string; // YYYY-MM-DD (inclusive)
+  wards: WardKey[]; // Wards to rebuild
+}
+
+export interface GenerationOptions {
+  current?: DailySchedule[]; // Schedule on screen; its locked cells are fixed inputs
+  scope?: GenerationScope; // Rebuild only part of the month, everything outside is fixed context
+  context?: DailySchedule[]; // Saved days of the previous/next month, read-only (spacing + holiday fairness)
+  ledger?: FairnessLedger; // Fiscal-year history, so under-served doctors are prioritised
+  variant?: number; // Local solver only: 0/undefined = default order, others try doctors in a different (reproducible) order
+}
+
+// --- SCHEDULE VALIDATION ---
+
+export type ViolationSeverity = 'hard' | 'soft'; // hard = STRICT RULE, soft = optimisation goal
+
+export type ViolationRule =
+  | 'unknown-doctor'
+  | 'inactive-doctor'
+  | 'unavailable'
+  | 'unqualified'
+  | 'pairing'
+  | 'unfilled'
+  | 'double-booked'
+  | 'rotation'
+  | 'closed-shift'
+  | 'consecutive-days'
+  | 'short-rest'
+  | 'no-holiday'
+  | 'ward-imbalance'
+  | 'quota';
+
+export interface ScheduleViolation {
+  severity: ViolationSeverity;
+  rule: ViolationRule;
+  message: string;
+  date?: string; // Missing for month-level goals (e.g. ward balance)
+  shift?: ShiftPeriod;
+  ward?: WardKey;
+  doctorId?: string;
+}
+
+export interface GenerationResult {
+  schedule: DailySchedule[];
+  attempts: number; // Number of generation rounds used (AI calls)
+  repairedLocally: boolean; // True when the local repair pass changed the best AI attempt
+  violations: ScheduleViolation[]; // Violations still left in the returned schedule
+}
+
+// 0-100 per optimisation goal (higher is better), used to compare generated candidates
+export interface QualityScore {
+  total: number; // Weighted goals minus a deduction per STRICT RULE violation
+  hardViolations: number;
+  restSpacing: number;
+  holidayDistribution: number;
+  wardBalance: number;
+  consecutiveDays: number; // Counts behind the goal scores
+  shortRests: number;
+  holidaySpread: number; // Standard deviation of holiday duty days between doctors
+  noHoliday: number;
+  wardImbalance: number;
+}
+
+// One roster from a Generate click, waiting for the admin to pick it
+export interface ScheduleCandidate {
+  id: string;
+  result: GenerationResult;
+  quality: QualityScore;
+}
+
+// --- STATISTICS ---
+
+export interface DoctorStats {
+  doctorId: string;
+  name: string;
+  color: string;
+  totalShifts: number;
+  dutyDays: number;
+  wardShifts: Record<WardKey, number>;
+  holidayDays: number; // Duty days on weekends/holidays
+  weekdayDays: number;
+  shiftCounts: Record<ShiftPeriod, number>; // Shifts worked per shift period
+  minRestGap: number | null; // Fewest rest days between two duty days (null = fewer than 2 duty days)
+  longestStreak: number; // Most duty days in a row
+}
+
+export interface PreferenceSummary {
+  doctorId: string;
+  name: string;
+  preferredOn: number; // Preferred duty dates in the month
+  honouredOn: number; // ...that the doctor actually works
+  preferredOff: number; // Preferred-off dates in the month
+  honouredOff: number; // ...that the doctor is actually off
+}
+
+// Fiscal-year-to-date totals per doctor, built by the server from saved daily_schedules (GET /api/stats)
+export interface LedgerEntry {
+  doctorId: string;
+  dutyDays: number;
+  holidayDays: number;
+  holidayShifts: number;
+  namedHolidayDays: number; // Holidays with a name (e.g. Songkran, New Year), weekends excluded
+  namedHolidayShifts: number;
+  wardShifts: Record<WardKey, number>;
+}
+
+export interface FairnessLedger {
+  fiscalYearStart: string; // YYYY-MM-DD
+  until: string; // Exclusive end: first day of the month being planned
+  doctors: LedgerEntry[];
+}
+
+// --- SUBSTITUTES ---
+
+export type SubstituteTone = 'good' | 'neutral' | 'bad';
+
+// One line of the explanation shown next to a ranked doctor
+export interface SubstituteReason {
+  text: string;
+  tone: SubstituteTone;
+}
+
+export interface SubstituteCandidate {
+  doctorId: string;
+  score: number; // Lower is better
+  reasons: SubstituteReason[];
+}
+
+// A doctor who cannot take the cells at all, with the reason
+export interface ExcludedSubstitute {
+  doctorId: string;
+  reason: string;
+}
+
+// --- EMERGENCY ABSENCE ---
+
+export type AbsenceCoverKind = 'replace' | 'swap' | 'unfilled';
+
+// How one of an absent doctor's duty blocks is covered in the proposed re-plan
+export interface AbsenceCover {
+  date: string;
+  cells: [ShiftPeriod, WardKey][]; // The absent doctor's linked cells that day
+  kind: AbsenceCoverKind; // replace = another doctor takes them, swap = a doctor on duty moves over and is replaced
+  changes: CellChange[]; // Proposed cell changes, including the swapped block
+  options: SubstituteCandidate[]; // Direct replacements, best first, for the admin to pick instead
+  violations: string[]; // Hard rules the proposal still breaks
+}
+
+// --- SCHEDULE VERSIONS ---
+
+// Revision of each draft month ('YYYY-MM'), bumped by the server on every change to it.
+// Whole-month saves send back the revisions they were loaded with.
+export type DraftRevisions = Record<string, number>;
+
+// Immutable snapshot of a month's draft, made by Publish. Only admins see the draft itself.
+export interface ScheduleVersion {
+  id: string;
+  month: string; // YYYY-MM
+  version: number; // 1, 2, ... within the month
+  publishedBy: string;
+  publishedAt: string;
+  note?: string;
+}
+
+export interface ScheduleVersionDetail extends ScheduleVersion {
+  days: DailySchedule[];
+}
+
+// --- SCHEDULE DIFF ---
+
+// Cells one doctor received or gave up between two versions of a month
+export interface DoctorChangeSummary {
+  doctorId: string;
+  gained: CellChange[];
+  lost: CellChange[];
 }
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Doctor, ScheduleConfig } from '../types';
+import { addUnavailability } from './availability';
+import { planAbsenceCover } from './absence';
+import { config as baseConfig, day, doctor as baseDoctor } from './testFixtures';
+
+// ICU cells need the ICU tag
+const config: ScheduleConfig = { ...baseConfig, wards: baseConfig.wards.map(w => (w.id === 'icu' ? { ...w, requiredTags: ['ICU'] } : w)) };
+
+const doctor = (id: string, qualifications: string[] = []): Doctor => baseDoctor(id, { qualifications });
+
+const sick = (doctors: Doctor[], id: string, date: string) =>
+  doctors.map(d => (d.id === id ? addUnavailability(d, [{ id: `sick-${date}`, date, type: 'sick' }]) : d));
+
+const saved = [day('2025-03-03', { afternoon: ['a', 'b'], night: ['a', 'b'] })];
+
+describe('planAbsenceCover', () => {
+  it('hands the absent doctor\'s block to a free doctor', () => {
+    const doctors = sick([doctor('a'), doctor('b', ['ICU']), doctor('c')], 'a', '2025-03-03');
+    const [cover] = planAbsenceCover(saved, doctors, config, 'a', '2025-03-03', '2025-03-03');
+    expect(cover.kind).toBe('replace');
+    expect(cover.changes).toEqual([
+      { date: '2025-03-03', shift: 'afternoon', ward: 'general', from: 'a', to: 'c' },
+      { date: '2025-03-03', shift: 'night', ward: 'general', from: 'a', to: 'c' }
+    ]);
+    expect(cover.violations).toEqual([]);
+  });
+
+  it('moves a doctor on duty over when no free doctor may take the cells', () => {
+    // c is free but may not work ICU; d may, and is on General that day
+    const doctors = sick([doctor('b', ['ICU']), doctor('c'), doctor('d', ['ICU'])], 'b', '2025-03-03');
+    const onGeneral = [day('2025-03-03', { afternoon: ['d', 'b'], night: ['d', 'b'] })];
+    const [cover] = planAbsenceCover(onGeneral, doctors, config, 'b', '2025-03-03', '2025-03-03');
+    expect(cover.kind).toBe('swap');
+    expect(cover.changes).toEqual(expect.arrayContaining([
+      { date: '2025-03-03', shift: 'afternoon', ward: 'icu', from: 'b', to: 'd' },
+      { date: '2025-03-03', shift: 'night', ward: 'icu', from: 'b', to: 'd' },
+      { date: '2025-03-03', shift: 'afternoon', ward: 'general', from: 'd', to: 'c' },
+      { date: '2025-03-03', shift: 'night', ward: 'general', from: 'd', to: 'c' }
+    ]));
+    expect(cover.violations).toEqual([]);
+  });
+
+  it('leaves the cells empty when nobody can take them', () => {
+    const doctors = sick([doctor('a'), doctor('b', ['ICU'])], 'a', '2025-03-03');
+    const [cover] = planAbsenceCover(saved, doctors, config, 'a', '2025-03-03', '2025-03-03');
+    expect(cover.kind).toBe('unfilled');
+    expect(cover.changes.every(c => c.from === 'a' && c.to === null)).toBe(true);
+    expect(cover.violations.length).toBeGreaterThan(0);
+  });
+
+  it('plans each day of the absence that the doctor works', () => {
+    const week = [...saved, day('2025-03-04', { afternoon: ['b', 'a'], night: ['b', 'a'] }), day('2025-03-05', { afternoon: ['b', 'c'], night: ['b', 'c'] })];
+    const doctors = ['2025-03-03', '2025-03-04', '2025-03-05'].reduce(
+      (list, date) => sick(list, 'a', date),
+      [doctor('a', ['ICU']), doctor('b', ['ICU']), doctor('c', ['ICU']), doctor('d', ['ICU'])]
+    );
+    const plan = planAbsenceCover(week, doctors, config, 'a', '2025-03-03', '2025-03-05');
+    expect(plan.map(c => c.date)).toEqual(['2025-03-03', '2025-03-04']);
+    expect(plan.flatMap(c => c.changes).every(c => c.from === 'a' && c.to !== 'a')).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+import { AbsenceCover, CellChange, DailySchedule, Doctor, ScheduleConfig } from '../types';
+import { format } from 'date-fns';
+import { isAvailableFor } from './availability';
+import { CellRef, getAssignedCells, getHeldBlock, getNeighbourDays, isQualifiedFor } from './scheduleCells';
+import { findSubstitutes } from './substitutes';
+import { applyCellChanges, findIntroducedViolations } from './swaps';
+
+/**
+ * Emergency absence
+ * แพทย์หยุดกะทันหันหลายวัน: หาเวรของแพทย์คนนั้นในเดือนปัจจุบันและเดือนถัดไปที่บันทึกไว้ แล้วเสนอแผนจัดเวรใหม่
+ * ที่แตะช่องอื่นน้อยที่สุด ใช้แพทย์ที่ว่างมาแทนตรงๆ ก่อน ถ้าไม่มีใครแทนได้โดยไม่ผิดกฎ จึงสลับกับแพทย์ที่อยู่เวรวันนั้น
+ * (แพทย์คนนั้นย้ายมาแทน และหาแพทย์ที่ว่างมาแทนเวรเดิมของเขา)
+ */
+
+// Config of the month a date falls in, so month-based helpers look at the right days
+const monthConfigOf = (config: ScheduleConfig, date: string): ScheduleConfig => {
+  const [year, month] = date.split('-').map(Number);
+  return { ...config, year, month: month - 1 };
+};
+
+// The absent doctor's cells handed to one doctor (null = left empty)
+export const coverChanges = (cover: Pick<AbsenceCover, 'date' | 'cells'>, absentId: string, doctorId: string | null): CellChange[] =>
+  cover.cells.map(([shift, ward]) => ({ date: cover.date, shift, ward, from: absentId, to: doctorId }));
+
+// Each duty block of the doctor between from and to, in the current and the next month
+const findAffectedBlocks = (
+  saved: DailySchedule[], config: ScheduleConfig, doctorId: string, from: string, to: string
+): { date: string; cells: CellRef[] }[] => {
+  const months = [0, 1].map(offset => format(new Date(config.year, config.month + offset, 1), 'yyyy-MM'));
+  return saved
+    .filter(day => day.date >= from && day.date <= to && months.includes(day.date.slice(0, 7)))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap(day => {
+      const blocks: { date: string; cells: CellRef[] }[] = [];
+      getAssignedCells(day).filter(([, , id]) => id === doctorId).forEach(([shift, ward]) => {
+        if (blocks.some(b => b.cells.some(([s, w]) => s === shift && w === ward))) return;
+        blocks.push({ date: day.date, cells: getHeldBlock(day, config, shift, ward) });
+      });
+      return blocks;
+    });
+};
+
+/**
+ * Proposes a cover for every affected block, one after another so each pick sees the earlier ones.
+ * `doctors` must already include the absence, so the absent doctor is never picked again.
+ */
+export const planAbsenceCover = (
+  saved: DailySchedule[], doctors: Doctor[], config: ScheduleConfig, doctorId: string, from: string, to: string
+): AbsenceCover[] => {
+  let working = saved;
+  const covers: AbsenceCover[] = [];
+
+  findAffectedBlocks(saved, config, doctorId, from, to).forEach(({ date, cells }) => {
+    const monthConfig = monthConfigOf(config, date);
+    const monthDays = working.filter(d => d.date.startsWith(date.slice(0, 7)));
+    const context = getNeighbourDays(working, monthConfig);
+    const [shift, ward] = cells[0];
+    const introduced = (changes: CellChange[]) => findIntroducedViolations(working, changes, doctors, config);
+
+    const search = findSubstitutes(monthDays, doctors, monthConfig, context, date, shift, ward);
+    let kind: AbsenceCover['kind'] = 'replace';
+    let changes: CellChange[] | null = null;
+
+    // 1. A free doctor takes the cells: only the absent doctor's cells change
+    const direct = search.candidates.find(c => introduced(coverChanges({ date, cells }, doctorId, c.doctorId)).length === 0);
+    if (direct) changes = coverChanges({ date, cells }, doctorId, direct.doctorId);
+
+    // 2. A doctor already on duty that day moves over and a free doctor takes their block
+    if (!changes) {
+      const day = working.find(d => d.date === date)!;
+      const others = new Map<string, CellRef[]>();
+      getAssignedCells(day).forEach(([s, w, id]) => {
+        if (id !== doctorId && !others.has(id)) others.set(id, getHeldBlock(day, config, s, w));
+      });
+
+      for (const [otherId, otherCells] of others) {
+        const other = doctors.find(d => d.id === otherId);
+        if (!other?.active || !cells.every(([s, w]) => isAvailableFor(other, date, s) && isQualifiedFor(other, config, s, w))) continue;
+        const moved = coverChanges({ date, cells }, doctorId, otherId);
+        const [otherShift, otherWard] = otherCells[0];
+        const replacement = findSubstitutes(monthDays, doctors, monthConfig, context, date, otherShift, otherWard).candidates
+          .map(c => [...moved, ...otherCells.map(([s, w]) => ({ date, shift: s, ward: w, from: otherId, to: c.doctorId }))])
+          .find(candidate => introduced(candidate).length === 0);
+        if (replacement) {
+          kind = 'swap';
+          changes = replacement;
+          break;
+        }
+      }
+    }
+
+    // 3. Nobody fits every rule: the best-ranked doctor (or an empty cell) for the admin to review
+    if (!changes) {
+      const best = search.candidates[0];
+      kind = best ? 'replace' : 'unfilled';
+      changes = coverChanges({ date, cells }, doctorId, best ? best.doctorId : null);
+    }
+
+    covers.push({
+      date,
+      cells,
+      kind,
+      changes,
+      options: search.candidates,
+      violations: introduced(changes).map(v => v.message)
+    });
+    working = applyCellChanges(working, changes);
+  });
+
+  return covers;
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Doctor } from '../types';
+import { addUnavailability, describeUnavailability, getBlockedShifts, getUnavailability, migrateLegacyLeave } from './availability';
+import { doctor } from './testFixtures';
+
+describe('getUnavailability', () => {
+  it('blocks dates outside employment and the weekdays the doctor never works', () => {
+    const d = doctor('a', { employmentStart: '2025-03-05', employmentEnd: '2025-03-20', unavailableWeekdays: [1] });
+    expect(getUnavailability(d, '2025-03-04')).toBe('before-start');
+    expect(getUnavailability(d, '2025-03-21')).toBe('after-end');
+    expect(getUnavailability(d, '2025-03-10')).toBe('weekday'); // Monday
+    expect(getUnavailability(d, '2025-03-11')).toBeNull();
+  });
+
+  it('counts partial-day entries only for their shifts', () => {
+    const d = doctor('a', { unavailability: [{ id: 'p', date: '2025-03-11', type: 'conference', shifts: ['night'] }] });
+    expect(getUnavailability(d, '2025-03-11')).toBeNull();
+    expect(getUnavailability(d, '2025-03-11', 'afternoon')).toBeNull();
+    expect(getUnavailability(d, '2025-03-11', 'night')).toBe('conference');
+    expect(getBlockedShifts(d, '2025-03-11')).toEqual(['night']);
+  });
+
+  it('counts whole-day entries for every shift', () => {
+    const d = doctor('a', { unavailability: [{ id: 'w', date: '2025-03-11', type: 'sick' }] });
+    expect(getUnavailability(d, '2025-03-11')).toBe('sick');
+    expect(getUnavailability(d, '2025-03-11', 'morning')).toBe('sick');
+    expect(getBlockedShifts(d, '2025-03-11')).toEqual([]);
+  });
+});
+
+describe('describeUnavailability', () => {
+  it('names the weekday, the employment dates and the type of leave', () => {
+    const d = doctor('a', { employmentStart: '2025-03-05' });
+    expect(describeUnavailability(d, 'weekday', '2025-03-10')).toContain('จันทร์');
+    expect(describeUnavailability(d, 'before-start', '2025-03-04')).toContain('2025-03-05');
+    expect(describeUnavailability(d, 'sick', '2025-03-10')).toContain('ลาป่วย');
+  });
+});
+
+describe('migrateLegacyLeave', () => {
+  it('turns the old list of dates into annual leave entries', () => {
+    const legacy = { ...doctor('a'), unavailability: undefined, unavailableDates: ['2025-03-03'] } as unknown as Doctor;
+    const migrated = migrateLegacyLeave(legacy);
+    expect(migrated.unavailability).toEqual([expect.objectContaining({ date: '2025-03-03', type: 'annual-leave' })]);
+    expect(migrated).not.toHaveProperty('unavailableDates');
+  });
+
+  it('leaves typed entries as they are', () => {
+    const current = doctor('a', { unavailability: [{ id: 'x', date: '2025-03-03', type: 'sick' }] });
+    expect(migrateLegacyLeave(current)).toEqual(current);
+  });
+});
+
+describe('addUnavailability', () => {
+  it('skips entries the doctor already has', () => {
+    const d = doctor('a', { unavailability: [{ id: 'x', date: '2025-03-11', type: 'sick', shifts: ['night', 'afternoon'] }] });
+    const repeat = { id: 'y', date: '2025-03-11', type: 'sick' as const, shifts: ['afternoon', 'night'] };
+    expect(addUnavailability(d, [repeat])).toBe(d);
+    const other = { id: 'z', date: '2025-03-12', type: 'sick' as const };
+    expect(addUnavailability(d, [repeat, other]).unavailability.map(e => e.id)).toEqual(['x', 'z']);
+  });
+});
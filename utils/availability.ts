@@ -0,0 +1,85 @@
+import { Doctor, LeaveType, ShiftPeriod, UnavailabilityEntry } from '../types';
+import { dayNumber } from './scheduleCells';
+
+/**
+ * Doctor availability
+ * รวมเงื่อนไขวันที่แพทย์อยู่เวรไม่ได้ไว้ที่เดียว: วันลาที่แจ้ง (ทั้งวันหรือเฉพาะบางเวร) วันในสัปดาห์ที่ไม่อยู่เวรประจำ
+ * และช่วงวันที่เริ่ม/สิ้นสุดการปฏิบัติงาน ใช้ร่วมกันทั้งตาราง การจัดเวร และการตรวจสอบ
+ */
+
+export type UnavailableReason = LeaveType | 'weekday' | 'before-start' | 'after-end';
+
+export const LEAVE_TYPES: { key: LeaveType; label: string }[] = [
+  { key: 'annual-leave', label: 'ลาพักร้อน' },
+  { key: 'conference', label: 'ประชุม/อบรม' },
+  { key: 'sick', label: 'ลาป่วย' },
+  { key: 'post-call', label: 'พักหลังเวร' }
+];
+
+export const getLeaveLabel = (type: LeaveType): string => LEAVE_TYPES.find(t => t.key === type)?.label || type;
+
+export const WEEKDAY_LABELS = ['อา', 'จ', 'อ', 'พ', 'พฤ', 'ศ', 'ส'];
+export const WEEKDAY_NAMES = ['อาทิตย์', 'จันทร์', 'อังคาร', 'พุธ', 'พฤหัสบดี', 'ศุกร์', 'เสาร์'];
+
+// 0 = Sunday ... 6 = Saturday, independent of the local time zone
+export const weekdayOf = (date: string): number => new Date(dayNumber(date) * 86400000).getUTCDay();
+
+export const isWholeDay = (entry: UnavailabilityEntry): boolean => !entry.shifts?.length;
+
+// Same set of affected shifts, in any order
+export const sameShifts = (a: ShiftPeriod[] = [], b: ShiftPeriod[] = []): boolean =>
+  a.length === b.length && a.every(s => b.includes(s));
+
+export const getEntriesOn = (doctor: Doctor, date: string): UnavailabilityEntry[] =>
+  (doctor.unavailability || []).filter(e => e.date === date);
+
+/**
+ * Why a doctor cannot work on a date, or null when they can.
+ * With a shift, entries for that shift count too; without one only whole-day blocks do.
+ */
+export const getUnavailability = (doctor: Doctor, date: string, shift?: ShiftPeriod): UnavailableReason | null => {
+  if (doctor.employmentStart && date < doctor.employmentStart) return 'before-start';
+  if (doctor.employmentEnd && date > doctor.employmentEnd) return 'after-end';
+  if (doctor.unavailableWeekdays?.includes(weekdayOf(date))) return 'weekday';
+  const entry = getEntriesOn(doctor, date).find(e => isWholeDay(e) || (!!shift && e.shifts!.includes(shift)));
+  return entry ? entry.type : null;
+};
+
+// Free for the whole day
+export const isAvailableOn = (doctor: Doctor, date: string): boolean => getUnavailability(doctor, date) === null;
+
+export const isAvailableFor = (doctor: Doctor, date: string, shift: ShiftPeriod): boolean =>
+  getUnavailability(doctor, date, shift) === null;
+
+// Shifts blocked on a date by partial-day entries (whole-day blocks are not listed)
+export const getBlockedShifts = (doctor: Doctor, date: string): ShiftPeriod[] =>
+  Array.from(new Set(getEntriesOn(doctor, date).flatMap(e => e.shifts || [])));
+
+// Short Thai explanation of an unavailability, e.g. for validation messages and tooltips
+export const describeUnavailability = (doctor: Doctor, reason: UnavailableReason, date: string): string => {
+  switch (reason) {
+    case 'before-start': return `เริ่มปฏิบัติงานวันที่ ${doctor.employmentStart}`;
+    case 'after-end': return `สิ้นสุดการปฏิบัติงานวันที่ ${doctor.employmentEnd}`;
+    case 'weekday': return `ไม่อยู่เวรทุกวัน${WEEKDAY_NAMES[weekdayOf(date)]}`;
+    default: return `แจ้ง${getLeaveLabel(reason)}ในวันนี้`;
+  }
+};
+
+// Doctors saved before typed unavailability kept a plain list of whole days off
+export const migrateLegacyLeave = (doctor: Doctor & { unavailableDates?: string[] }): Doctor => {
+  const { unavailableDates, ...rest } = doctor;
+  if (Array.isArray(rest.unavailability)) return rest;
+  return {
+    ...rest,
+    unavailability: (unavailableDates || []).map(date => ({ id: crypto.randomUUID(), date, type: 'annual-leave' }))
+  };
+};
+
+// Adds entries (e.g. from an approved leave request), skipping repeats of an existing entry
+export const addUnavailability = (doctor: Doctor, entries: UnavailabilityEntry[]): Doctor => {
+  const current = doctor.unavailability || [];
+  const added = entries.filter(entry => !current.some(e =>
+    e.date === entry.date && e.type === entry.type && sameShifts(e.shifts, entry.shifts)
+  ));
+  return added.length > 0 ? { ...doctor, unavailability: [...current, ...added] } : doctor;
+};
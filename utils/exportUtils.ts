@@ -1,7 +1,8 @@
 
-import { DailySchedule, Doctor, ScheduleConfig } from '../types';
+import { DailySchedule, Doctor, ScheduleConfig, ShiftPeriod, WardKey } from '../types';
 import { format } from 'date-fns';
 import th from 'date-fns/locale/th';
+import { getCell, getVisibleWards, getWardColumns } from './scheduleCells';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { 
@@ -52,6 +53,21 @@ const arrayBufferToBase64 = (buffer: ArrayBuffer) => {
   return window.btoa(binary);
 };
 
+// Sub-header of a shift column: configured name and time, e.g. "บ่าย 16:30-00:30"
+const shiftHeader = (config: ScheduleConfig, shift: ShiftPeriod, separator: string) => {
+  const definition = config.shifts.find(s => s.id === shift);
+  return definition ? `${definition.name}${separator}${definition.start}-${definition.end}` : shift;
+};
+
+// Ward header groups and the [shift, ward] of every doctor column, in table order
+const getExportColumns = (schedule: DailySchedule[], config: ScheduleConfig) => {
+  const wards = getVisibleWards(config.wards, schedule);
+  return {
+    wards: wards.map(ward => ({ ward, shifts: getWardColumns(ward, config.shifts) })),
+    cells: wards.flatMap(ward => getWardColumns(ward, config.shifts).map(shift => [shift, ward.id] as [ShiftPeriod, WardKey]))
+  };
+};
+
 const hexToRgb = (hex: string): [number, number, number] | null => {
   const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
   return result ? [
@@ -108,10 +124,12 @@ export const exportToPDF = async (schedule: DailySchedule[], doctors: Doctor[],
   doc.setFont("Sarabun", "bold");
   doc.text(fullTitle, 105, 15, { align: 'center' }); // Centered title
 
+  const columns = getExportColumns(selectedSchedule, config);
+
   // Calculate width for equal columns
   // A4 Width = 210mm. Left margin 10, Right 10. Usable = 190mm.
-  // 7 columns (Date + 3 Gen + 3 ICU)
-  const colWidth = 190 / 7;
+  // Date + one column per shift of every ward (7 with the default wards)
+  const colWidth = 190 / (1 + columns.cells.length);
 
   // Prepare Body Data with Styles (Colors)
   const tableBody = selectedSchedule.map(day => {
@@ -150,12 +168,7 @@ export const exportToPDF = async (schedule: DailySchedule[], doctors: Doctor[],
           halign: 'center' as 'center'
         } 
       },
-      createCell(day.shifts.morning?.general),
-      createCell(day.shifts.afternoon.general),
-      createCell(day.shifts.night.general),
-      createCell(day.shifts.morning?.icu),
-      createCell(day.shifts.afternoon.icu),
-      createCell(day.shifts.night.icu),
+      ...columns.cells.map(([shift, ward]) => createCell(getCell(day, shift, ward)))
     ];
   });
 
@@ -163,13 +176,14 @@ export const exportToPDF = async (schedule: DailySchedule[], doctors: Doctor[],
     head: [
       [
         { content: 'วันที่', rowSpan: 2, styles: { valign: 'middle', halign: 'center', fillColor: [31, 41, 55] as [number, number, number], textColor: 255 } }, // Dark Gray #1F2937
-        { content: 'สามัญ / นอกแผนก', colSpan: 3, styles: { halign: 'center', fillColor: [127, 149, 209] as [number, number, number], textColor: 255 } }, // #7F95D1
-        { content: 'ICU / CCU', colSpan: 3, styles: { halign: 'center', fillColor: [240, 114, 92] as [number, number, number], textColor: 255 } } // #F0725C
+        // One header per ward in the ward's colour
+        ...columns.wards.map(({ ward, shifts }) => ({
+          content: ward.name,
+          colSpan: shifts.length,
+          styles: { halign: 'center' as 'center', fillColor: (hexToRgb(ward.color) || [107, 114, 128]) as [number, number, number], textColor: 255 }
+        }))
       ],
-      [
-        'เช้า', 'บ่าย', 'ดึก',
-        'เช้า', 'บ่าย', 'ดึก'
-      ]
+      columns.cells.map(([shift]) => shiftHeader(config, shift, '\n'))
     ],
     body: tableBody,
     startY: 20,
@@ -185,16 +199,10 @@ export const exportToPDF = async (schedule: DailySchedule[], doctors: Doctor[],
       lineColor: [200, 200, 200] as [number, number, number],
       textColor: [0, 0, 0] as [number, number, number]
     },
-    // Enforce equal column width for all 7 columns
-    columnStyles: {
-      0: { cellWidth: colWidth },
-      1: { cellWidth: colWidth },
-      2: { cellWidth: colWidth },
-      3: { cellWidth: colWidth },
-      4: { cellWidth: colWidth },
-      5: { cellWidth: colWidth },
-      6: { cellWidth: colWidth },
-    },
+    // Enforce equal column width for all columns
+    columnStyles: Object.fromEntries(
+      Array.from({ length: 1 + columns.cells.length }, (_, i) => [i, { cellWidth: colWidth }])
+    ),
     headStyles: {
       font: 'Sarabun', 
       fontStyle: 'bold',
@@ -270,25 +278,20 @@ export const exportToDocx = async (schedule: DailySchedule[], doctors: Doctor[],
     margins: { top: CELL_MARGIN_Y, bottom: CELL_MARGIN_Y, left: 40, right: 40 }
   });
 
+  const columns = getExportColumns(selectedSchedule, config);
+
   const tableRows = [
     // Main Header Row
     new TableRow({
       children: [
         createHeaderCell("วันที่", "1F2937", 1, 2), // Dark Gray
-        createHeaderCell("สามัญ / นอกแผนก", "7F95D1", 3, 1), // Custom Blue #7F95D1
-        createHeaderCell("ICU / CCU", "F0725C", 3, 1), // Custom Red #F0725C
+        // One header per ward in the ward's colour
+        ...columns.wards.map(({ ward, shifts }) => createHeaderCell(ward.name, ward.color.replace('#', ''), shifts.length, 1)),
       ],
     }),
     // Sub Header Row
     new TableRow({
-      children: [
-        createSubHeaderCell("เช้า"),
-        createSubHeaderCell("บ่าย"),
-        createSubHeaderCell("ดึก"),
-        createSubHeaderCell("เช้า"),
-        createSubHeaderCell("บ่าย"),
-        createSubHeaderCell("ดึก"),
-      ]
+      children: columns.cells.map(([shift]) => createSubHeaderCell(shiftHeader(config, shift, ' ')))
     })
   ];
 
@@ -345,21 +348,15 @@ export const exportToDocx = async (schedule: DailySchedule[], doctors: Doctor[],
       new TableRow({
         children: [
           dateCell,
-          // General
-          createDocCell(day.shifts.morning?.general || null),
-          createDocCell(day.shifts.afternoon.general),
-          createDocCell(day.shifts.night.general),
-          // ICU
-          createDocCell(day.shifts.morning?.icu || null),
-          createDocCell(day.shifts.afternoon.icu),
-          createDocCell(day.shifts.night.icu),
+          ...columns.cells.map(([shift, ward]) => createDocCell(getCell(day, shift, ward))),
         ]
       })
     );
   });
 
-  // Calculate total width for A4 Portrait with Narrow Margins
-  const COL_WIDTH = 1495;
+  // Calculate total width for A4 Portrait with Narrow Margins (7 x 1495 twips), shared by all columns
+  const TABLE_WIDTH = 7 * 1495;
+  const COL_WIDTH = Math.floor(TABLE_WIDTH / (1 + columns.cells.length));
 
   const doc = new Document({
     sections: [{
@@ -391,7 +388,7 @@ export const exportToDocx = async (schedule: DailySchedule[], doctors: Doctor[],
           layout: TableLayoutType.FIXED, // FORCE EQUAL WIDTHS
           rows: tableRows,
           width: { size: 100, type: WidthType.PERCENTAGE },
-          columnWidths: [COL_WIDTH, COL_WIDTH, COL_WIDTH, COL_WIDTH, COL_WIDTH, COL_WIDTH, COL_WIDTH],
+          columnWidths: Array(1 + columns.cells.length).fill(COL_WIDTH),
           borders: {
              top: { style: BorderStyle.SINGLE, size: 4, color: "888888" },
              bottom: { style: BorderStyle.SINGLE, size: 4, color: "888888" },
@@ -408,3 +405,9 @@ export const exportToDocx = async (schedule: DailySchedule[], doctors: Doctor[],
   const blob = await Packer.toBlob(doc);
   saveAs(blob, `medical_schedule_${buddhistYear}_${config.month + 1}.docx`);
 };
+
+// Change notice from formatChangeNotice as a text file
+export const exportChangeNotice = (notice: string, config: ScheduleConfig) => {
+  const buddhistYear = config.year + 543;
+  saveAs(new Blob([notice], { type: 'text/plain;charset=utf-8' }), `medical_schedule_changes_${buddhistYear}_${config.month + 1}.txt`);
+};
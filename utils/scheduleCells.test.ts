@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { DailySchedule, ShiftPeriod, WardKey } from '../types';
+import { getCell, mergeGeneratedSchedule, normalizeDay } from './scheduleCells';
+import { day } from './testFixtures';
+
+const lock = (d: DailySchedule, shift: ShiftPeriod, ward: WardKey): DailySchedule => ({
+  ...d,
+  shifts: { ...d.shifts, [shift]: { ...d.shifts[shift]!, locked: { [ward]: true } } }
+});
+
+describe('mergeGeneratedSchedule', () => {
+  const current = [
+    day('2025-03-03', { afternoon: ['a', 'b'], night: ['a', 'b'] }),
+    day('2025-03-04', { afternoon: ['c', 'd'], night: ['c', 'd'] })
+  ];
+  const generated = [
+    day('2025-03-03', { afternoon: ['e', 'f'], night: ['e', 'f'] }),
+    day('2025-03-04', { afternoon: ['g', 'h'], night: ['g', 'h'] })
+  ];
+
+  it('takes every cell from the generated schedule', () => {
+    expect(mergeGeneratedSchedule(current, generated)).toEqual(generated);
+  });
+
+  it('keeps locked cells and their lock', () => {
+    const merged = mergeGeneratedSchedule([lock(current[0], 'night', 'icu'), current[1]], generated);
+    expect(getCell(merged[0], 'night', 'icu')).toBe('b');
+    expect(getCell(merged[0], 'night', 'general')).toBe('e');
+    expect(merged[0].shifts.night?.locked).toEqual({ icu: true });
+  });
+
+  it('only rebuilds the wards and dates of the scope', () => {
+    const merged = mergeGeneratedSchedule(current, generated, { startDate: '2025-03-04', endDate: '2025-03-04', wards: ['icu'] });
+    expect(merged[0]).toBe(current[0]);
+    expect(merged[1]).toEqual(day('2025-03-04', { afternoon: ['c', 'h'], night: ['c', 'h'] }));
+  });
+
+  it('keeps days the generator did not return', () => {
+    expect(mergeGeneratedSchedule(current, generated.slice(0, 1))[1]).toBe(current[1]);
+  });
+});
+
+describe('normalizeDay', () => {
+  it('moves legacy { icu, general } slots into assignments and keeps the locks', () => {
+    const legacy = {
+      date: '2025-03-03',
+      isHoliday: false,
+      shifts: { afternoon: { icu: 'b', general: 'a', locked: { icu: true } }, night: { icu: 'b', general: 'a' } }
+    } as unknown as DailySchedule;
+    expect(normalizeDay(legacy).shifts).toEqual({
+      afternoon: { assignments: { icu: 'b', general: 'a' }, locked: { icu: true } },
+      night: { assignments: { icu: 'b', general: 'a' } }
+    });
+  });
+
+  it('leaves current slots as they are', () => {
+    const current = day('2025-03-03', { afternoon: ['a', 'b'], night: ['a', 'b'] });
+    expect(normalizeDay(current)).toEqual(current);
+  });
+});
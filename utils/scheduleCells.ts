@@ -0,0 +1,352 @@
+import { DailySchedule, Doctor, GenerationScope, PairingConstraint, RotationRule, ScheduleConfig, ShiftDefinition, ShiftPeriod, ShiftSlot, WardDefinition, WardKey } from '../types';
+import { format, getDaysInMonth } from 'date-fns';
+
+/**
+ * Cell helpers
+ * A "cell" is one doctor slot in the table: date + shift + ward.
+ * Shifts and wards are admin-defined (ScheduleConfig.shifts / .wards); a ward only has
+ * cells on the shifts that run that day type and that the ward staffs on that day type.
+ * Which cells must be worked by the same doctor comes from the rotation rules (.rotationRules).
+ */
+
+export type CellRef = [ShiftPeriod, WardKey];
+
+// The part of the config that decides which cells a day has
+export type CellLayout = Pick<ScheduleConfig, 'wards' | 'shifts'>;
+
+// ...and how they are linked
+export type RosterLayout = Pick<ScheduleConfig, 'wards' | 'shifts' | 'rotationRules'>;
+
+// The three shifts the department always had; used until the admin defines others
+export const DEFAULT_SHIFTS: ShiftDefinition[] = [
+  { id: 'morning', name: 'เช้า', start: '08:30', end: '16:30', weekday: false, holiday: true },
+  { id: 'afternoon', name: 'บ่าย', start: '16:30', end: '00:30', weekday: true, holiday: true },
+  { id: 'night', name: 'ดึก', start: '00:30', end: '08:30', weekday: true, holiday: true }
+];
+
+// The two wards the department always had; used until the admin defines others
+export const DEFAULT_WARDS: WardDefinition[] = [
+  {
+    id: 'general',
+    name: 'สามัญ / นอกแผนก / Stroke Fast Tract',
+    color: '#7F95D1',
+    weekdayShifts: ['afternoon', 'night'],
+    holidayShifts: ['morning', 'afternoon', 'night'],
+    intensiveCare: false,
+    active: true
+  },
+  {
+    id: 'icu',
+    name: 'ICU / CCU STEMI Fast Tract',
+    color: '#F0725C',
+    weekdayShifts: ['afternoon', 'night'],
+    holidayShifts: ['morning', 'afternoon', 'night'],
+    intensiveCare: true,
+    active: true
+  }
+];
+
+export const getShiftName = (shifts: ShiftDefinition[], id: ShiftPeriod): string =>
+  shifts.find(s => s.id === id)?.name || id;
+
+export const formatShiftTime = (shift: ShiftDefinition): string => `${shift.start} - ${shift.end}`;
+
+// Shifts that run on a day type, in day order
+export const getDayShifts = (isHoliday: boolean, shifts: ShiftDefinition[]): ShiftDefinition[] =>
+  shifts.filter(shift => (isHoliday ? shift.holiday : shift.weekday));
+
+export const runsShift = (ward: WardDefinition, shift: ShiftPeriod, isHoliday: boolean): boolean =>
+  (isHoliday ? ward.holidayShifts : ward.weekdayShifts).includes(shift);
+
+// Table columns of a ward: every shift it runs on any day type, in day order
+export const getWardColumns = (ward: WardDefinition, shifts: ShiftDefinition[]): ShiftPeriod[] =>
+  shifts
+    .filter(shift => ward.weekdayShifts.includes(shift.id) || ward.holidayShifts.includes(shift.id))
+    .map(shift => shift.id);
+
+// Cells that must be staffed on a day (active wards only)
+export const getOpenCells = (isHoliday: boolean, layout: CellLayout): CellRef[] =>
+  getDayShifts(isHoliday, layout.shifts).flatMap(shift => layout.wards
+    .filter(ward => ward.active && runsShift(ward, shift.id, isHoliday))
+    .map(ward => [shift.id, ward.id] as CellRef));
+
+// Qualification tags a doctor needs for a cell: the ward's and the shift's requirements
+export const getRequiredTags = (layout: CellLayout, shift: ShiftPeriod, ward: WardKey): string[] => Array.from(new Set([
+  ...(layout.wards.find(w => w.id === ward)?.requiredTags || []),
+  ...(layout.shifts.find(s => s.id === shift)?.requiredTags || [])
+]));
+
+export const isQualifiedFor = (doctor: Doctor, layout: CellLayout, shift: ShiftPeriod, ward: WardKey): boolean =>
+  getRequiredTags(layout, shift, ward).every(tag => doctor.qualifications?.includes(tag));
+
+export const pairingAppliesTo = (constraint: PairingConstraint, isHoliday: boolean, shift: ShiftPeriod): boolean =>
+  (!constraint.shift || constraint.shift === shift)
+  && (constraint.dayType === 'all' || constraint.dayType === (isHoliday ? 'holiday' : 'weekday'));
+
+// Pairing constraints broken on one shift of a day, given every doctor on that shift (any ward)
+export const getPairingBreaches = (
+  constraints: PairingConstraint[],
+  tagsOf: (id: string) => string[],
+  isHoliday: boolean,
+  shift: ShiftPeriod,
+  onShift: string[]
+): PairingConstraint[] =>
+  constraints.filter(c => {
+    if (!onShift.includes(c.doctorId) || !pairingAppliesTo(c, isHoliday, shift)) return false;
+    if (c.type === 'must-not-pair') return !!c.otherDoctorId && onShift.includes(c.otherDoctorId);
+    return !!c.tag && !onShift.some(id => id !== c.doctorId && tagsOf(id).includes(c.tag!));
+  });
+
+// Every qualification tag in use, offered as suggestions when tagging
+export const collectTags = (doctors: Doctor[], layout: CellLayout): string[] => Array.from(new Set([
+  ...doctors.flatMap(d => d.qualifications || []),
+  ...layout.wards.flatMap(w => w.requiredTags || []),
+  ...layout.shifts.flatMap(s => s.requiredTags || [])
+])).sort((a, b) => a.localeCompare(b, 'th'));
+
+// Active wards, plus inactive ones that still hold assignments in the given days
+export const getVisibleWards = (wards: WardDefinition[], schedule: DailySchedule[]): WardDefinition[] =>
+  wards.filter(ward => ward.active || schedule.some(day => getAssignedCells(day).some(([, w]) => w === ward.id)));
+
+const sameCell = (a: CellRef, b: CellRef) => a[0] === b[0] && a[1] === b[1];
+
+// The rotation the department always used, for the given wards and day type:
+// - Continuity: Afternoon -> Night on the same ward
+// - Morning rotation: wards that run both Morning and Afternoon that day hand over in turn,
+//   the Morning doctor of one ward continues on the next ward's Afternoon
+//   (with the default wards: Pattern A = Morning General -> ICU, Pattern B = Morning ICU -> General)
+const classicLinks = (isHoliday: boolean, layout: CellLayout): [CellRef, CellRef][] => {
+  const open = getOpenCells(isHoliday, layout);
+  const isOpen = (shift: ShiftPeriod, ward: WardKey) => open.some(c => sameCell(c, [shift, ward]));
+  const active = layout.wards.filter(ward => ward.active);
+  const links: [CellRef, CellRef][] = [];
+  active.forEach(ward => {
+    if (isOpen('afternoon', ward.id) && isOpen('night', ward.id)) {
+      links.push([['afternoon', ward.id], ['night', ward.id]]);
+    }
+  });
+  const rotation = active.filter(ward => isOpen('morning', ward.id) && isOpen('afternoon', ward.id));
+  if (rotation.length >= 2) {
+    rotation.forEach((ward, i) => {
+      links.push([['morning', ward.id], ['afternoon', rotation[(i + 1) % rotation.length].id]]);
+    });
+  }
+  return links;
+};
+
+// Rules reproducing the classic rotation; offered to the admin as a starting point
+export const suggestRotationRules = (layout: CellLayout): RotationRule[] => {
+  const rules = new Map<string, RotationRule>();
+  [false, true].forEach(isHoliday => classicLinks(isHoliday, layout).forEach(([[fromShift, fromWard], [toShift, toWard]]) => {
+    const id = `${fromShift}-${fromWard}-${toShift}-${toWard}`;
+    const rule = rules.get(id) || { id, fromShift, fromWard, toShift, toWard, weekday: false, holiday: false };
+    rules.set(id, { ...rule, [isHoliday ? 'holiday' : 'weekday']: true });
+  }));
+  return Array.from(rules.values());
+};
+
+export const DEFAULT_ROTATION_RULES: RotationRule[] = suggestRotationRules({ wards: DEFAULT_WARDS, shifts: DEFAULT_SHIFTS });
+
+export const ruleAppliesOn = (rule: RotationRule, isHoliday: boolean): boolean =>
+  isHoliday ? rule.holiday : rule.weekday;
+
+/**
+ * Linked cells must be covered by the same doctor, one link per rotation rule of the day type.
+ * Only open cells are linked, so rules on shifts or wards that do not run that day are skipped.
+ */
+export const getLinks = (isHoliday: boolean, layout: RosterLayout): [CellRef, CellRef][] => {
+  const open = getOpenCells(isHoliday, layout);
+  const isOpen = (cell: CellRef) => open.some(c => sameCell(c, cell));
+  return layout.rotationRules
+    .filter(rule => ruleAppliesOn(rule, isHoliday))
+    .map(rule => [[rule.fromShift, rule.fromWard], [rule.toShift, rule.toWard]] as [CellRef, CellRef])
+    .filter(([from, to]) => isOpen(from) && isOpen(to) && !sameCell(from, to));
+};
+
+// Cells filled automatically after picking a doctor for one cell (follows links forward)
+export const getLinkedCells = (isHoliday: boolean, layout: RosterLayout, shift: ShiftPeriod, ward: WardKey): CellRef[] => {
+  const links = getLinks(isHoliday, layout);
+  const result: CellRef[] = [];
+  let frontier: CellRef[] = [[shift, ward]];
+  while (frontier.length > 0) {
+    const next = links
+      .filter(([from, to]) => frontier.some(c => sameCell(c, from)) && !sameCell(to, [shift, ward]) && !result.some(c => sameCell(c, to)))
+      .map(([, to]) => to);
+    result.push(...next);
+    frontier = next;
+  }
+  return result;
+};
+
+// Groups of linked cells (connected components); each group is worked by one doctor
+export const getBlocks = (isHoliday: boolean, layout: RosterLayout): CellRef[][] => {
+  const cells = getOpenCells(isHoliday, layout);
+  const links = getLinks(isHoliday, layout);
+  const blocks: CellRef[][] = [];
+  cells.forEach(cell => {
+    if (blocks.some(block => block.some(c => sameCell(c, cell)))) return;
+    const block: CellRef[] = [cell];
+    for (let i = 0; i < block.length; i++) {
+      links.forEach(([from, to]) => {
+        const other = sameCell(from, block[i]) ? to : sameCell(to, block[i]) ? from : null;
+        if (other && !block.some(c => sameCell(c, other))) block.push(other);
+      });
+    }
+    blocks.push(block);
+  });
+  return blocks;
+};
+
+// The cells of [shift, ward]'s block worked by the same doctor that day (just the cell outside every block).
+// Replacing or swapping that doctor moves all of them, so linked cells never split.
+export const getHeldBlock = (day: DailySchedule, layout: RosterLayout, shift: ShiftPeriod, ward: WardKey): CellRef[] => {
+  const doctorId = getCell(day, shift, ward);
+  const block = getBlocks(day.isHoliday, layout).find(b => b.some(c => sameCell(c, [shift, ward]))) || [[shift, ward]];
+  return doctorId ? block.filter(([s, w]) => getCell(day, s, w) === doctorId) : [[shift, ward]];
+};
+
+// Rules that chain one doctor onto two wards of the same shift can never be satisfied
+export const findRuleConflicts = (layout: RosterLayout): { isHoliday: boolean; shift: ShiftPeriod; wards: WardKey[] }[] =>
+  [false, true].flatMap(isHoliday => getBlocks(isHoliday, layout).flatMap(block =>
+    Array.from(new Set(block.map(([shift]) => shift)))
+      .map(shift => ({ isHoliday, shift, wards: block.filter(([s]) => s === shift).map(([, ward]) => ward) }))
+      .filter(conflict => conflict.wards.length > 1)));
+
+export const cellKey = (date: string, shift: ShiftPeriod, ward: WardKey) => `${date}|${shift}|${ward}`;
+
+export const getCell = (day: DailySchedule, shift: ShiftPeriod, ward: WardKey): string | null =>
+  day.shifts[shift]?.assignments[ward] || null;
+
+// Every filled cell of a day as [shift, ward, doctorId]
+export const getAssignedCells = (day: DailySchedule): [ShiftPeriod, WardKey, string][] =>
+  Object.entries(day.shifts).flatMap(([shift, slot]) => Object.entries(slot?.assignments || {})
+    .filter(([, id]) => !!id)
+    .map(([ward, id]) => [shift, ward, id as string] as [ShiftPeriod, WardKey, string]));
+
+// Returns a new day with one cell changed (creates the shift slot when missing)
+export const setCell = (day: DailySchedule, shift: ShiftPeriod, ward: WardKey, doctorId: string | null): DailySchedule => {
+  const slot: ShiftSlot = day.shifts[shift] || { assignments: {} };
+  return {
+    ...day,
+    shifts: { ...day.shifts, [shift]: { ...slot, assignments: { ...slot.assignments, [ward]: doctorId } } }
+  };
+};
+
+// A new day with an empty slot for every shift that runs on its day type
+export const createEmptyDay = (date: string, isHoliday: boolean, holidayName: string | undefined, layout: CellLayout): DailySchedule => {
+  const shifts: Partial<Record<ShiftPeriod, ShiftSlot>> = {};
+  getDayShifts(isHoliday, layout.shifts).forEach(shift => {
+    shifts[shift.id] = {
+      assignments: Object.fromEntries(layout.wards.filter(w => runsShift(w, shift.id, isHoliday)).map(w => [w.id, null]))
+    };
+  });
+  return { date, isHoliday, holidayName, shifts };
+};
+
+// Schedules saved before wards were configurable stored { icu, general } per shift
+type LegacyShiftSlot = { icu?: string | null; general?: string | null; locked?: Record<WardKey, boolean> };
+
+const isCurrentSlot = (slot: ShiftSlot | LegacyShiftSlot): slot is ShiftSlot => 'assignments' in slot;
+
+export const normalizeDay = (day: DailySchedule): DailySchedule => {
+  const stored = day.shifts as Record<ShiftPeriod, ShiftSlot | LegacyShiftSlot | null | undefined>;
+  const shifts: DailySchedule['shifts'] = {};
+  Object.entries(stored).forEach(([shift, slot]) => {
+    if (!slot) return;
+    if (isCurrentSlot(slot)) {
+      shifts[shift] = slot;
+      return;
+    }
+    const { locked, ...assignments } = slot;
+    shifts[shift] = locked ? { assignments, locked } : { assignments };
+  });
+  return { ...day, shifts };
+};
+
+export const isCellLocked = (day: DailySchedule, shift: ShiftPeriod, ward: WardKey): boolean =>
+  !!day.shifts[shift]?.locked?.[ward];
+
+export const isCellInScope = (date: string, ward: WardKey, scope?: GenerationScope): boolean =>
+  !scope || (date >= scope.startDate && date <= scope.endDate && scope.wards.includes(ward));
+
+// Fixed cells must survive generation: locked by the admin or outside the rebuild scope
+export const isCellFixed = (day: DailySchedule, shift: ShiftPeriod, ward: WardKey, scope?: GenerationScope): boolean =>
+  isCellLocked(day, shift, ward) || !isCellInScope(day.date, ward, scope);
+
+// Put a generated month into the current one without touching fixed cells
+export const mergeGeneratedSchedule = (
+  current: DailySchedule[],
+  generated: DailySchedule[],
+  scope?: GenerationScope
+): DailySchedule[] => {
+  return current.map(day => {
+    const genDay = generated.find(g => g.date === day.date);
+    if (!genDay) return day;
+    if (scope && (day.date < scope.startDate || day.date > scope.endDate)) return day;
+
+    const shifts = { ...genDay.shifts };
+    new Set([...Object.keys(day.shifts), ...Object.keys(genDay.shifts)]).forEach(shift => {
+      const slot = day.shifts[shift];
+      const genSlot = genDay.shifts[shift];
+      if (!slot && !genSlot) return;
+
+      const wards = new Set([...Object.keys(slot?.assignments || {}), ...Object.keys(genSlot?.assignments || {})]);
+      const assignments: Record<WardKey, string | null> = {};
+      wards.forEach(ward => {
+        assignments[ward] = isCellFixed(day, shift, ward, scope)
+          ? getCell(day, shift, ward)
+          : genSlot?.assignments[ward] || null;
+      });
+      shifts[shift] = slot?.locked ? { assignments, locked: slot.locked } : { assignments };
+    });
+    return { ...day, shifts };
+  });
+};
+
+// --- Cross-month context ---
+
+// Days of the next month taken into account (the previous month is used in full for holiday fairness)
+export const CONTEXT_DAYS = 3;
+
+// Whole days since epoch, so gaps can be measured across month boundaries
+export const dayNumber = (date: string): number => {
+  const [y, m, d] = date.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / 86400000);
+};
+
+export const fromDayNumber = (n: number): string => new Date(n * 86400000).toISOString().split('T')[0];
+
+// Saved days around the configured month: all of the previous month + the first days of the next one
+export const getNeighbourDays = (saved: DailySchedule[], config: ScheduleConfig): DailySchedule[] => {
+  const prevStart = format(new Date(config.year, config.month - 1, 1), 'yyyy-MM-dd');
+  const monthStart = format(new Date(config.year, config.month, 1), 'yyyy-MM-dd');
+  const monthEnd = format(new Date(config.year, config.month, getDaysInMonth(new Date(config.year, config.month))), 'yyyy-MM-dd');
+  const nextEnd = format(new Date(config.year, config.month + 1, CONTEXT_DAYS), 'yyyy-MM-dd');
+
+  return saved
+    .map(day => ({ ...day, date: day.date.split('T')[0] }))
+    .filter(day => (day.date >= prevStart && day.date < monthStart) || (day.date > monthEnd && day.date <= nextEnd))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export interface ContextDuties {
+  before: number[]; // dayNumber of duty days before the month
+  after: number[]; // dayNumber of duty days after the month
+  holidays: number; // Holiday duties before the month
+}
+
+// Who worked when in the neighbouring days
+export const summarizeContext = (context: DailySchedule[], monthStart: string): Map<string, ContextDuties> => {
+  const summary = new Map<string, ContextDuties>();
+  context.forEach(day => {
+    const isBefore = day.date < monthStart;
+    const onDuty = new Set(getAssignedCells(day).map(([, , id]) => id));
+    onDuty.forEach(id => {
+      const duties = summary.get(id) || { before: [], after: [], holidays: 0 };
+      (isBefore ? duties.before : duties.after).push(dayNumber(day.date));
+      if (isBefore && day.isHoliday) duties.holidays++;
+      summary.set(id, duties);
+    });
+  });
+  return summary;
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { diffSchedules, summarizeChangesByDoctor } from './scheduleDiff';
+import { day, doctor } from './testFixtures';
+
+const before = [
+  day('2025-03-03', { afternoon: ['a', 'b'], night: ['a', 'b'] }),
+  day('2025-03-04', { afternoon: ['c', 'd'], night: ['c', 'd'] })
+];
+
+describe('diffSchedules', () => {
+  it('is empty for identical schedules', () => {
+    expect(diffSchedules(before, structuredClone(before))).toEqual([]);
+  });
+
+  it('lists changed, emptied and newly filled cells in date order', () => {
+    const after = [
+      day('2025-03-04', { afternoon: ['c', 'e'], night: ['c', 'e'] }),
+      day('2025-03-03', { afternoon: ['a', null], night: ['a', 'b'], morning: ['f', null] })
+    ];
+    const changes = diffSchedules(before, after);
+    expect(changes.map(c => c.date)).toEqual(['2025-03-03', '2025-03-03', '2025-03-04', '2025-03-04']);
+    expect(changes).toEqual(expect.arrayContaining([
+      { date: '2025-03-03', shift: 'afternoon', ward: 'icu', from: 'b', to: null },
+      { date: '2025-03-03', shift: 'morning', ward: 'general', from: null, to: 'f' },
+      { date: '2025-03-04', shift: 'afternoon', ward: 'icu', from: 'd', to: 'e' },
+      { date: '2025-03-04', shift: 'night', ward: 'icu', from: 'd', to: 'e' }
+    ]));
+  });
+
+  it('treats a day missing on one side as empty', () => {
+    expect(diffSchedules(before.slice(0, 1), before)).toHaveLength(4);
+    expect(diffSchedules(before, []).every(c => c.to === null)).toBe(true);
+  });
+});
+
+describe('summarizeChangesByDoctor', () => {
+  it('groups gained and lost cells per doctor in the order of the doctor list', () => {
+    const doctors = ['e', 'd'].map(id => doctor(id));
+    const after = [before[0], day('2025-03-04', { afternoon: ['c', 'e'], night: ['c', 'e'] })];
+    const summaries = summarizeChangesByDoctor(diffSchedules(before, after), doctors);
+    expect(summaries.map(s => [s.doctorId, s.gained.length, s.lost.length])).toEqual([['e', 2, 0], ['d', 0, 2]]);
+  });
+});
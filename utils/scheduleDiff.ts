@@ -0,0 +1,75 @@
+import { CellChange, DailySchedule, Doctor, DoctorChangeSummary, ScheduleConfig } from '../types';
+import { format, parseISO } from 'date-fns';
+import { th } from 'date-fns/locale';
+import { cellKey, getAssignedCells, getShiftName } from './scheduleCells';
+
+/**
+ * Schedule Diff
+ * เปรียบเทียบตารางเวรสองฉบับของเดือนเดียวกัน (ฉบับที่เผยแพร่ หรือฉบับร่าง): ช่องที่เปลี่ยน
+ * เวรที่แพทย์แต่ละคนได้เพิ่มหรือไม่ต้องอยู่แล้ว และข้อความประกาศการเปลี่ยนแปลงแบบสั้นสำหรับแจ้งแพทย์
+ */
+
+// Every cell holding another doctor (or none) in `after`, as a change from `before`, in date order
+export const diffSchedules = (before: DailySchedule[], after: DailySchedule[]): CellChange[] => {
+  const cells = new Map<string, CellChange>();
+  before.forEach(day => getAssignedCells(day).forEach(([shift, ward, id]) => {
+    cells.set(cellKey(day.date, shift, ward), { date: day.date, shift, ward, from: id, to: null });
+  }));
+  after.forEach(day => getAssignedCells(day).forEach(([shift, ward, id]) => {
+    const key = cellKey(day.date, shift, ward);
+    cells.set(key, { date: day.date, shift, ward, from: cells.get(key)?.from || null, to: id });
+  }));
+  return Array.from(cells.values())
+    .filter(c => c.from !== c.to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Gained and lost cells per doctor, in the order of the doctor list
+export const summarizeChangesByDoctor = (changes: CellChange[], doctors: Doctor[]): DoctorChangeSummary[] => {
+  const summaries = new Map<string, DoctorChangeSummary>();
+  const summaryOf = (id: string) => {
+    let summary = summaries.get(id);
+    if (!summary) {
+      summary = { doctorId: id, gained: [], lost: [] };
+      summaries.set(id, summary);
+    }
+    return summary;
+  };
+  changes.forEach(change => {
+    if (change.to) summaryOf(change.to).gained.push(change);
+    if (change.from) summaryOf(change.from).lost.push(change);
+  });
+
+  const rank = (id: string) => {
+    const index = doctors.findIndex(d => d.id === id);
+    return index === -1 ? doctors.length : index;
+  };
+  return Array.from(summaries.values()).sort((a, b) => rank(a.doctorId) - rank(b.doctorId));
+};
+
+// One entry per date, e.g. "ศ. 14 มี.ค. (บ่าย ICU, ดึก ICU)"
+export const describeChangedCells = (cells: CellChange[], config: ScheduleConfig): string[] => {
+  const byDate = new Map<string, string[]>();
+  cells.forEach(c => {
+    const ward = config.wards.find(w => w.id === c.ward)?.name || c.ward;
+    byDate.set(c.date, [...(byDate.get(c.date) || []), `${getShiftName(config.shifts, c.shift)} ${ward}`]);
+  });
+  return Array.from(byDate, ([date, slots]) => `${format(parseISO(date), 'EEE d MMM', { locale: th })} (${slots.join(', ')})`);
+};
+
+// Plain-text notice for chat groups or e-mail: what each affected doctor now works or no longer works
+export const formatChangeNotice = (
+  changes: CellChange[], doctors: Doctor[], config: ScheduleConfig, title: string
+): string => {
+  if (changes.length === 0) return `${title}\n\nไม่มีการเปลี่ยนแปลง`;
+
+  const nameOf = (id: string) => doctors.find(d => d.id === id)?.name || id;
+  const lines = [title, ''];
+  summarizeChangesByDoctor(changes, doctors).forEach(({ doctorId, gained, lost }) => {
+    lines.push(nameOf(doctorId));
+    if (gained.length > 0) lines.push(`  + อยู่เวรเพิ่ม: ${describeChangedCells(gained, config).join(', ')}`);
+    if (lost.length > 0) lines.push(`  - ไม่ต้องอยู่เวร: ${describeChangedCells(lost, config).join(', ')}`);
+  });
+  lines.push('', `รวมเปลี่ยนแปลง ${changes.length} ช่อง`);
+  return lines.join('\n');
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { scoreSchedule } from './scheduleQuality';
+import { config, day, doctor } from './testFixtures';
+
+const doctors = ['a', 'b', 'c', 'd'].map(id => doctor(id));
+
+// Weekdays 3-7 March with two rest days between duties, both wards filled
+const spaced = [
+  day('2025-03-03', { afternoon: ['a', 'b'], night: ['a', 'b'] }),
+  day('2025-03-04', { afternoon: ['c', 'd'], night: ['c', 'd'] }),
+  day('2025-03-07', { afternoon: ['b', 'a'], night: ['b', 'a'] })
+];
+
+describe('scoreSchedule', () => {
+  it('deducts rest spacing for consecutive duty days', () => {
+    const tired = [...spaced, day('2025-03-08', { morning: ['b', 'a'], afternoon: ['a', 'b'], night: ['a', 'b'] })];
+    const rested = scoreSchedule(spaced, doctors, config);
+    const score = scoreSchedule(tired, doctors, config);
+    expect(score.consecutiveDays).toBeGreaterThan(0);
+    expect(score.restSpacing).toBeLessThan(rested.restSpacing);
+  });
+
+  it('takes hard violations off the total', () => {
+    const doubled = [day('2025-03-03', { afternoon: ['a', 'a'], night: ['a', 'a'] })];
+    const clean = [day('2025-03-03', { afternoon: ['a', 'b'], night: ['a', 'b'] })];
+    const broken = scoreSchedule(doubled, doctors, config);
+    expect(broken.hardViolations).toBeGreaterThan(0);
+    expect(broken.total).toBeLessThan(scoreSchedule(clean, doctors, config).total);
+  });
+
+  it('keeps every score between 0 and 100', () => {
+    const score = scoreSchedule(spaced, doctors, config);
+    [score.total, score.restSpacing, score.holidayDistribution, score.wardBalance].forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(100);
+    });
+  });
+});
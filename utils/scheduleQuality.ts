@@ -0,0 +1,66 @@
+import { DailySchedule, Doctor, QualityScore, ScheduleConfig, ViolationRule } from '../types';
+import { computeDoctorStats } from './scheduleStats';
+import { validateSchedule } from './scheduleValidator';
+
+/**
+ * Schedule Quality
+ * ให้คะแนนตารางเวร 0-100 ตาม OPTIMIZATION GOALS (วันพัก > การกระจายเวรวันหยุด > สมดุลวอร์ด)
+ * และหักคะแนนตามจำนวนการผิด STRICT RULES ใช้เปรียบเทียบตารางหลายแบบที่สร้างจากการกด Generate ครั้งเดียว
+ */
+
+// Points taken off a goal's 100
+const DEDUCTION = {
+  consecutiveDay: 10, // Per consecutive-days violation
+  shortRest: 3,       // Per short-rest violation
+  holidaySpread: 20,  // Per holiday duty day of standard deviation between doctors
+  noHoliday: 10,      // Per doctor without a holiday duty
+  wardImbalance: 10,  // Per doctor off the ward split
+  hard: 10            // Per STRICT RULE violation, from the total
+};
+
+// Same order of importance as the generators
+const GOAL_WEIGHT = { restSpacing: 0.5, holidayDistribution: 0.3, wardBalance: 0.2 };
+
+const clampScore = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+export const scoreSchedule = (
+  schedule: DailySchedule[],
+  doctors: Doctor[],
+  config: ScheduleConfig,
+  context: DailySchedule[] = []
+): QualityScore => {
+  const violations = validateSchedule(schedule, doctors, config, context);
+  const count = (rule: ViolationRule) => violations.filter(v => v.rule === rule).length;
+  const hardViolations = violations.filter(v => v.severity === 'hard').length;
+  const consecutiveDays = count('consecutive-days');
+  const shortRests = count('short-rest');
+  const noHoliday = count('no-holiday');
+  const wardImbalance = count('ward-imbalance');
+
+  const activeIds = new Set(doctors.filter(d => d.active).map(d => d.id));
+  const holidays = computeDoctorStats(schedule, doctors).filter(s => activeIds.has(s.doctorId)).map(s => s.holidayDays);
+  const mean = holidays.length > 0 ? holidays.reduce((sum, n) => sum + n, 0) / holidays.length : 0;
+  const holidaySpread = holidays.length > 0
+    ? Math.sqrt(holidays.reduce((sum, n) => sum + (n - mean) ** 2, 0) / holidays.length)
+    : 0;
+
+  const restSpacing = clampScore(100 - DEDUCTION.consecutiveDay * consecutiveDays - DEDUCTION.shortRest * shortRests);
+  const holidayDistribution = clampScore(100 - DEDUCTION.holidaySpread * holidaySpread - DEDUCTION.noHoliday * noHoliday);
+  const wardBalance = clampScore(100 - DEDUCTION.wardImbalance * wardImbalance);
+  const goals = GOAL_WEIGHT.restSpacing * restSpacing
+    + GOAL_WEIGHT.holidayDistribution * holidayDistribution
+    + GOAL_WEIGHT.wardBalance * wardBalance;
+
+  return {
+    total: clampScore(goals - DEDUCTION.hard * hardViolations),
+    hardViolations,
+    restSpacing,
+    holidayDistribution,
+    wardBalance,
+    consecutiveDays,
+    shortRests,
+    holidaySpread: Math.round(holidaySpread * 100) / 100,
+    noHoliday,
+    wardImbalance
+  };
+};
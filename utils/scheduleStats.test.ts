@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { computeDoctorStats, computePreferenceSummary } from './scheduleStats';
+import { day, doctor } from './testFixtures';
+
+// Saturday pattern, then Monday and Tuesday for a, Wednesday for b
+const schedule = [
+  day('2025-03-01', { morning: ['a', 'b'], afternoon: ['b', 'a'], night: ['b', 'a'] }),
+  day('2025-03-03', { afternoon: ['a', 'c'], night: ['a', 'c'] }),
+  day('2025-03-04', { afternoon: ['c', 'a'], night: ['c', 'a'] }),
+  day('2025-03-05', { afternoon: ['b', 'c'], night: ['b', 'c'] })
+];
+
+describe('computeDoctorStats', () => {
+  const stats = computeDoctorStats(schedule, ['a', 'b', 'c', 'd'].map(id => doctor(id)));
+  const of = (id: string) => stats.find(s => s.doctorId === id)!;
+
+  it('counts shifts per ward and period, and duty days per day type', () => {
+    expect(of('a')).toMatchObject({
+      totalShifts: 7,
+      dutyDays: 3,
+      holidayDays: 1,
+      weekdayDays: 2,
+      wardShifts: { general: 3, icu: 4 },
+      shiftCounts: { morning: 1, afternoon: 3, night: 3 }
+    });
+  });
+
+  it('measures rest gaps and streaks', () => {
+    expect(of('a')).toMatchObject({ minRestGap: 0, longestStreak: 2 });
+    expect(of('b')).toMatchObject({ minRestGap: 3, longestStreak: 1 });
+  });
+
+  it('lists active doctors without a shift', () => {
+    expect(of('d')).toMatchObject({ totalShifts: 0, dutyDays: 0, minRestGap: null, longestStreak: 0 });
+  });
+});
+
+describe('computePreferenceSummary', () => {
+  it('counts the preferred dates of the month the schedule honours', () => {
+    const doctors = [
+      doctor('a', { preferredDates: ['2025-03-03', '2025-03-05', '2025-04-01'], preferredOffDates: ['2025-03-04'] }),
+      doctor('b')
+    ];
+    expect(computePreferenceSummary(schedule, doctors)).toEqual([
+      { doctorId: 'a', name: 'Doctor a', preferredOn: 2, honouredOn: 1, preferredOff: 1, honouredOff: 0 }
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import { DailySchedule, Doctor, DoctorStats, PreferenceSummary } from '../types';
+import { dayNumber, getAssignedCells } from './scheduleCells';
+
+/**
+ * Schedule Statistics
+ * สรุปภาระงานของแพทย์แต่ละคนจากตารางเวรของเดือน (ใช้ดูความเป็นธรรมของการจัดเวร)
+ */
+
+export const computeDoctorStats = (schedule: DailySchedule[], doctors: Doctor[]): DoctorStats[] => {
+  const stats = new Map<string, DoctorStats>();
+  const dutyDates = new Map<string, number[]>();
+
+  const statsOf = (id: string): DoctorStats => {
+    let entry = stats.get(id);
+    if (!entry) {
+      const doctor = doctors.find(d => d.id === id);
+      entry = {
+        doctorId: id,
+        name: doctor?.name || id,
+        color: doctor?.color || '#e5e7eb',
+        totalShifts: 0,
+        dutyDays: 0,
+        wardShifts: {},
+        holidayDays: 0,
+        weekdayDays: 0,
+        shiftCounts: {},
+        minRestGap: null,
+        longestStreak: 0
+      };
+      stats.set(id, entry);
+    }
+    return entry;
+  };
+
+  // Active doctors are listed even without a single shift
+  doctors.filter(d => d.active).forEach(d => statsOf(d.id));
+
+  [...schedule].sort((a, b) => a.date.localeCompare(b.date)).forEach(day => {
+    const onDuty = new Set<string>();
+    getAssignedCells(day).forEach(([shift, ward, id]) => {
+      const entry = statsOf(id);
+      entry.totalShifts++;
+      entry.wardShifts[ward] = (entry.wardShifts[ward] || 0) + 1;
+      entry.shiftCounts[shift] = (entry.shiftCounts[shift] || 0) + 1;
+      onDuty.add(id);
+    });
+
+    onDuty.forEach(id => {
+      const entry = statsOf(id);
+      entry.dutyDays++;
+      if (day.isHoliday) entry.holidayDays++; else entry.weekdayDays++;
+      dutyDates.set(id, [...(dutyDates.get(id) || []), dayNumber(day.date)]);
+    });
+  });
+
+  dutyDates.forEach((days, id) => {
+    const entry = statsOf(id);
+    let streak = 1;
+    entry.longestStreak = 1;
+    for (let k = 1; k < days.length; k++) {
+      const restDays = days[k] - days[k - 1] - 1;
+      entry.minRestGap = entry.minRestGap === null ? restDays : Math.min(entry.minRestGap, restDays);
+      streak = restDays === 0 ? streak + 1 : 1;
+      entry.longestStreak = Math.max(entry.longestStreak, streak);
+    }
+  });
+
+  return Array.from(stats.values());
+};
+
+// How many of each doctor's preferred on/off dates in this month the schedule respects.
+// Only doctors who asked for something are listed.
+export const computePreferenceSummary = (schedule: DailySchedule[], doctors: Doctor[]): PreferenceSummary[] => {
+  const onDuty = new Map<string, Set<string>>();
+  schedule.forEach(day => {
+    onDuty.set(day.date, new Set(getAssignedCells(day).map(([, , id]) => id)));
+  });
+
+  return doctors
+    .map(d => {
+      const preferredOn = (d.preferredDates || []).filter(date => onDuty.has(date));
+      const preferredOff = (d.preferredOffDates || []).filter(date => onDuty.has(date));
+      return {
+        doctorId: d.id,
+        name: d.name,
+        preferredOn: preferredOn.length,
+        honouredOn: preferredOn.filter(date => onDuty.get(date)!.has(d.id)).length,
+        preferredOff: preferredOff.length,
+        honouredOff: preferredOff.filter(date => !onDuty.get(date)!.has(d.id)).length
+      };
+    })
+    .filter(p => p.preferredOn + p.preferredOff > 0);
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { ScheduleViolation } from '../types';
+import { compareViolations, validateSchedule } from './scheduleValidator';
+import { config, day, doctor } from './testFixtures';
+
+const doctors = ['a', 'b', 'c', 'd'].map(id => doctor(id));
+
+// Monday: Afternoon -> Night on each ward
+const weekday = day('2025-03-03', { afternoon: ['a', 'b'], night: ['a', 'b'] });
+// Saturday: Morning General -> Afternoon ICU -> Night ICU, Morning ICU -> Afternoon General -> Night General
+const holiday = day('2025-03-01', { morning: ['c', 'd'], afternoon: ['d', 'c'], night: ['d', 'c'] });
+
+const hardRules = (violations: ScheduleViolation[]) => violations.filter(v => v.severity === 'hard').map(v => v.rule);
+
+describe('validateSchedule', () => {
+  it('accepts days that follow every strict rule', () => {
+    expect(hardRules(validateSchedule([weekday, holiday], doctors, config))).toEqual([]);
+  });
+
+  it('reports an empty cell', () => {
+    const schedule = [day('2025-03-03', { afternoon: ['a', 'b'], night: ['a', null] })];
+    expect(validateSchedule(schedule, doctors, config)).toContainEqual(
+      expect.objectContaining({ severity: 'hard', rule: 'unfilled', date: '2025-03-03', shift: 'night', ward: 'icu' })
+    );
+  });
+
+  it('reports a broken continuity link', () => {
+    const schedule = [day('2025-03-03', { afternoon: ['a', 'b'], night: ['c', 'b'] })];
+    expect(validateSchedule(schedule, doctors, config)).toContainEqual(
+      expect.objectContaining({ rule: 'rotation', shift: 'night', ward: 'general', doctorId: 'c' })
+    );
+  });
+
+  it('reports a broken holiday pattern', () => {
+    const schedule = [day('2025-03-01', { morning: ['c', 'd'], afternoon: ['c', 'd'], night: ['c', 'd'] })];
+    const rotation = validateSchedule(schedule, doctors, config).filter(v => v.rule === 'rotation');
+    expect(rotation.map(v => `${v.shift}/${v.ward}`).sort()).toEqual(['afternoon/general', 'afternoon/icu']);
+  });
+
+  it('reports a doctor on two wards of the same shift', () => {
+    const schedule = [day('2025-03-03', { afternoon: ['a', 'a'], night: ['a', 'a'] })];
+    expect(hardRules(validateSchedule(schedule, doctors, config))).toContain('double-booked');
+  });
+
+  it('reports a weekday morning shift', () => {
+    const schedule = [day('2025-03-03', { morning: ['c', null], afternoon: ['a', 'b'], night: ['a', 'b'] })];
+    expect(validateSchedule(schedule, doctors, config)).toContainEqual(
+      expect.objectContaining({ rule: 'closed-shift', shift: 'morning', ward: 'general', doctorId: 'c' })
+    );
+  });
+
+  it('reports a doctor on duty during their leave', () => {
+    const onLeave = doctors.map(d => (d.id === 'a' ? { ...d, unavailability: [{ id: 'l1', date: '2025-03-03', type: 'sick' as const }] } : d));
+    const unavailable = validateSchedule([weekday], onLeave, config).filter(v => v.rule === 'unavailable');
+    expect(unavailable.map(v => v.shift).sort()).toEqual(['afternoon', 'night']);
+  });
+
+  it('reports a doctor without the tags a ward requires', () => {
+    const icuConfig = { ...config, wards: config.wards.map(w => (w.id === 'icu' ? { ...w, requiredTags: ['ICU'] } : w)) };
+    const tagged = doctors.map(d => (d.id === 'b' ? d : { ...d, qualifications: ['ICU'] }));
+    const unqualified = validateSchedule([weekday], tagged, icuConfig).filter(v => v.rule === 'unqualified');
+    expect(unqualified.map(v => `${v.shift}/${v.ward}/${v.doctorId}`).sort()).toEqual(['afternoon/icu/b', 'night/icu/b']);
+  });
+
+  it('ignores days outside the configured month', () => {
+    const april = day('2025-04-01', { afternoon: [null, null], night: [null, null] });
+    expect(validateSchedule([april], doctors, config)).toEqual([]);
+  });
+});
+
+describe('compareViolations', () => {
+  const violation = (severity: ScheduleViolation['severity']): ScheduleViolation =>
+    ({ severity, rule: severity === 'hard' ? 'unfilled' : 'short-rest', message: '' });
+
+  it('prefers fewer hard violations however many soft ones there are', () => {
+    const oneHard = [violation('hard')];
+    const manySoft = Array.from({ length: 20 }, () => violation('soft'));
+    expect(compareViolations(manySoft, oneHard)).toBeLessThan(0);
+    expect(compareViolations(oneHard, manySoft)).toBeGreaterThan(0);
+  });
+
+  it('breaks ties on hard violations with the soft ones', () => {
+    expect(compareViolations([violation('hard')], [violation('hard'), violation('soft')])).toBeLessThan(0);
+    expect(compareViolations([violation('soft')], [violation('soft')])).toBe(0);
+  });
+});
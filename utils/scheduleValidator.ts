@@ -0,0 +1,276 @@
+import { DailySchedule, Doctor, ScheduleConfig, ScheduleViolation, ShiftPeriod, ViolationSeverity, WardKey } from '../types';
+import { cellKey, dayNumber, fromDayNumber, getAssignedCells, getCell, getLinks, getOpenCells, getPairingBreaches, getRequiredTags, getShiftName, isQualifiedFor, summarizeContext } from './scheduleCells';
+import { describeUnavailability, getUnavailability } from './availability';
+
+/**
+ * Schedule Validator
+ * ตรวจตารางเวร (ทั้งที่สร้างจาก AI และที่แก้ไขเอง) ตามกฎใน Prompt ของ generateScheduleWithGemini
+ * - hard: STRICT RULES (ห้ามผิด)
+ * - soft: OPTIMIZATION GOALS (ควรทำให้ได้)
+ * context = วันที่บันทึกไว้แล้วของเดือนก่อน/เดือนถัดไป ใช้ตรวจวันพักข้ามเดือน (ไม่รายงานปัญหาของเดือนอื่น)
+ * ช่องที่ต้องมีแพทย์และช่องที่ต้องต่อเนื่องกัน มาจากการตั้งค่าวอร์ด ช่วงเวร และกฎการต่อเวร (config.wards, config.shifts, config.rotationRules)
+ */
+
+// Allowed difference between a doctor's shifts on a ward and that ward's share before it is reported
+const WARD_IMBALANCE_TOLERANCE = 1;
+
+export const validateSchedule = (
+  schedule: DailySchedule[],
+  doctors: Doctor[],
+  config: ScheduleConfig,
+  context: DailySchedule[] = []
+): ScheduleViolation[] => {
+  const violations: ScheduleViolation[] = [];
+  const doctorMap = new Map(doctors.map(d => [d.id, d]));
+  const nameOf = (id: string) => doctorMap.get(id)?.name || id;
+  const tagsOf = (id: string) => doctorMap.get(id)?.qualifications || [];
+  const wardMap = new Map(config.wards.map(w => [w.id, w]));
+  const wardLabel = (ward: WardKey) => wardMap.get(ward)?.name || ward;
+  const shiftLabel = (shift: ShiftPeriod) => getShiftName(config.shifts, shift);
+  const slotLabel = (shift: ShiftPeriod, ward: WardKey) => `เวร${shiftLabel(shift)} ${wardLabel(ward)}`;
+
+  const monthDays = schedule
+    .filter(day => {
+      const [y, m] = day.date.split('-').map(Number);
+      return y === config.year && m - 1 === config.month;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Duty dates per doctor for the spacing goals
+  const dutyDays = new Map<string, string[]>();
+  const holidayDuties = new Map<string, number>();
+  const icuDays = new Map<string, number>();
+  const wardCounts = new Map<string, Record<WardKey, number>>();
+  // Shifts to staff per ward over the month, for each ward's share in the balance goal
+  const wardTotals: Record<WardKey, number> = {};
+
+  monthDays.forEach(day => {
+    const date = day.date;
+    const openCells = getOpenCells(day.isHoliday, config);
+    const isOpen = (shift: ShiftPeriod, ward: WardKey) => openCells.some(([s, w]) => s === shift && w === ward);
+    openCells.forEach(([, ward]) => { wardTotals[ward] = (wardTotals[ward] || 0) + 1; });
+
+    // 1. Assignments on a shift the ward does not run that day (e.g. weekday morning)
+    getAssignedCells(day).forEach(([shift, ward, id]) => {
+      if (isOpen(shift, ward)) return;
+      violations.push({
+        severity: 'hard', rule: 'closed-shift', date, shift, ward, doctorId: id,
+        message: `${day.isHoliday ? 'วันหยุด' : 'วันธรรมดา'}ไม่มี${slotLabel(shift, ward)} แต่มีการจัด ${nameOf(id)} ไว้`
+      });
+    });
+
+    // 2. Per-cell checks
+    openCells.forEach(([shift, ward]) => {
+      const id = getCell(day, shift, ward);
+      if (!id) {
+        violations.push({
+          severity: 'hard', rule: 'unfilled', date, shift, ward,
+          message: `${slotLabel(shift, ward)} ยังไม่มีแพทย์`
+        });
+        return;
+      }
+
+      const doctor = doctorMap.get(id);
+      if (!doctor) {
+        violations.push({
+          severity: 'hard', rule: 'unknown-doctor', date, shift, ward, doctorId: id,
+          message: `${slotLabel(shift, ward)} มีรหัสแพทย์ที่ไม่อยู่ในระบบ (${id})`
+        });
+        return;
+      }
+      if (!doctor.active) {
+        violations.push({
+          severity: 'hard', rule: 'inactive-doctor', date, shift, ward, doctorId: id,
+          message: `${doctor.name} ถูกตั้งเป็น Inactive แต่ถูกจัดไว้ที่${slotLabel(shift, ward)}`
+        });
+      }
+      const unavailable = getUnavailability(doctor, date, shift);
+      if (unavailable) {
+        violations.push({
+          severity: 'hard', rule: 'unavailable', date, shift, ward, doctorId: id,
+          message: `${doctor.name} ${describeUnavailability(doctor, unavailable, date)} แต่ถูกจัดไว้ที่${slotLabel(shift, ward)}`
+        });
+      }
+      if (!isQualifiedFor(doctor, config, shift, ward)) {
+        const missing = getRequiredTags(config, shift, ward).filter(tag => !doctor.qualifications?.includes(tag));
+        violations.push({
+          severity: 'hard', rule: 'unqualified', date, shift, ward, doctorId: id,
+          message: `${doctor.name} ไม่มีคุณสมบัติสำหรับ${slotLabel(shift, ward)} (ต้องมี: ${missing.join(', ')})`
+        });
+      }
+    });
+
+    // 3. Separation: a doctor can only be on one ward per shift
+    Object.keys(day.shifts).forEach(shift => {
+      const wardsOf = new Map<string, WardKey[]>();
+      getAssignedCells(day).filter(([s]) => s === shift).forEach(([, ward, id]) => {
+        wardsOf.set(id, [...(wardsOf.get(id) || []), ward]);
+      });
+      wardsOf.forEach((wards, id) => {
+        if (wards.length < 2) return;
+        violations.push({
+          severity: 'hard', rule: 'double-booked', date, shift, doctorId: id,
+          message: `${nameOf(id)} อยู่หลายวอร์ดพร้อมกันในเวร${shiftLabel(shift)} (${wards.map(wardLabel).join(', ')})`
+        });
+      });
+    });
+
+    // 4. Linked cells: every rotation rule of the day type (e.g. Afternoon -> Night on the same ward)
+    getLinks(day.isHoliday, config).forEach(([[fromShift, fromWard], [toShift, toWard]]) => {
+      const from = getCell(day, fromShift, fromWard);
+      const to = getCell(day, toShift, toWard);
+      if (!from || !to || from === to) return;
+      violations.push({
+        severity: 'hard', rule: 'rotation', date, shift: toShift, ward: toWard, doctorId: to,
+        message: fromWard === toWard
+          ? `${wardLabel(toWard)}: เวร${shiftLabel(fromShift)} (${nameOf(from)}) และเวร${shiftLabel(toShift)} (${nameOf(to)}) ต้องเป็นแพทย์คนเดียวกัน`
+          : `แพทย์${slotLabel(fromShift, fromWard)} (${nameOf(from)}) ต้องอยู่${slotLabel(toShift, toWard)}ต่อ`
+      });
+    });
+
+    // 5. Pairing constraints: who may or must share a shift (any ward)
+    Object.keys(day.shifts).forEach(shift => {
+      const onShift = getAssignedCells(day).filter(([s]) => s === shift).map(([, , id]) => id);
+      getPairingBreaches(config.pairingConstraints, tagsOf, day.isHoliday, shift, onShift).forEach(c => {
+        violations.push({
+          severity: 'hard', rule: 'pairing', date, shift, doctorId: c.doctorId,
+          message: c.type === 'must-not-pair'
+            ? `${nameOf(c.doctorId)} และ ${nameOf(c.otherDoctorId!)} ต้องไม่อยู่เวร${shiftLabel(shift)}พร้อมกัน`
+            : `${nameOf(c.doctorId)} อยู่เวร${shiftLabel(shift)}โดยไม่มีแพทย์ที่มีคุณสมบัติ "${c.tag}" อยู่เวรด้วย`
+        });
+      });
+    });
+
+    // Collect tallies for the soft goals
+    const onDuty = new Set<string>();
+    const onIcu = new Set<string>();
+    getAssignedCells(day).forEach(([, ward, id]) => {
+      if (!doctorMap.has(id)) return;
+      onDuty.add(id);
+      if (wardMap.get(ward)?.intensiveCare) onIcu.add(id);
+      const counts = wardCounts.get(id) || {};
+      counts[ward] = (counts[ward] || 0) + 1;
+      wardCounts.set(id, counts);
+    });
+    onDuty.forEach(id => {
+      dutyDays.set(id, [...(dutyDays.get(id) || []), day.date]);
+      if (day.isHoliday) holidayDuties.set(id, (holidayDuties.get(id) || 0) + 1);
+    });
+    onIcu.forEach(id => icuDays.set(id, (icuDays.get(id) || 0) + 1));
+  });
+
+  // 4.1 Quotas: monthly limits set per doctor
+  doctors.filter(d => d.active && d.quota).forEach(d => {
+    const quota = d.quota!;
+    const days = dutyDays.get(d.id)?.length || 0;
+    const limits: [number, number | undefined, string][] = [
+      [days, quota.maxDutyDays, 'วันอยู่เวร'],
+      [holidayDuties.get(d.id) || 0, quota.maxHolidayDays, 'วันอยู่เวรวันหยุด'],
+      [icuDays.get(d.id) || 0, quota.maxIcuDays, 'วันอยู่เวร ICU']
+    ];
+    limits.forEach(([value, max, label]) => {
+      if (max !== undefined && value > max) {
+        violations.push({
+          severity: 'hard', rule: 'quota', doctorId: d.id,
+          message: `${d.name} มี${label} ${value} วัน เกินโควตาสูงสุด ${max} วัน`
+        });
+      }
+    });
+    if (quota.minDutyDays !== undefined && days < quota.minDutyDays) {
+      violations.push({
+        severity: 'hard', rule: 'quota', doctorId: d.id,
+        message: `${d.name} มีวันอยู่เวร ${days} วัน น้อยกว่าโควตาขั้นต่ำ ${quota.minDutyDays} วัน`
+      });
+    }
+  });
+
+  // 5. Spacing: at least 1 (ideally 2) rest days between duty days, also across the month boundary
+  const neighbours = monthDays.length > 0 ? summarizeContext(context, monthDays[0].date) : new Map();
+  dutyDays.forEach((dates, id) => {
+    const duties = neighbours.get(id);
+    const before = duties?.before.length ? [fromDayNumber(Math.max(...duties.before))] : [];
+    const after = duties?.after.length ? [fromDayNumber(Math.min(...duties.after))] : [];
+    const days = [...before, ...dates, ...after];
+    for (let k = 1; k < days.length; k++) {
+      const restDays = dayNumber(days[k]) - dayNumber(days[k - 1]) - 1;
+      // Always report on a date of this month
+      const isAfterMonth = k === days.length - 1 && after.length > 0;
+      const date = isAfterMonth ? days[k - 1] : days[k];
+      if (restDays === 0) {
+        violations.push({
+          severity: 'soft', rule: 'consecutive-days', date, doctorId: id,
+          message: `${nameOf(id)} อยู่เวรติดกัน 2 วัน (${days[k - 1]} และ ${days[k]})`
+        });
+      } else if (restDays === 1) {
+        violations.push({
+          severity: 'soft', rule: 'short-rest', date, doctorId: id,
+          message: isAfterMonth
+            ? `${nameOf(id)} มีวันพักเพียง 1 วันก่อนเวรวันที่ ${days[k]} (เดือนถัดไป)`
+            : `${nameOf(id)} มีวันพักเพียง 1 วันก่อนเวรวันที่ ${date}`
+        });
+      }
+    }
+  });
+
+  // 6. Holiday distribution: everyone should get at least 1 holiday duty if possible
+  const activeDoctors = doctors.filter(d => d.active);
+  const totalHolidayDuties = Array.from(holidayDuties.values()).reduce((sum, n) => sum + n, 0);
+  if (totalHolidayDuties >= activeDoctors.length) {
+    activeDoctors
+      .filter(d => !holidayDuties.get(d.id))
+      .forEach(d => violations.push({
+        severity: 'soft', rule: 'no-holiday', doctorId: d.id,
+        message: `${d.name} ไม่ได้รับเวรวันหยุดเลยในเดือนนี้`
+      }));
+  }
+
+  // 7. Ward balance: each doctor's shifts split like the month's shifts (~50% General / ~50% ICU)
+  const monthShifts = Object.values(wardTotals).reduce((sum, n) => sum + n, 0);
+  wardCounts.forEach((counts, id) => {
+    const shifts = Object.values(counts).reduce((sum, n) => sum + n, 0);
+    const wards = Object.keys(wardTotals);
+    const unbalanced = wards.some(ward =>
+      Math.abs((counts[ward] || 0) - shifts * wardTotals[ward] / monthShifts) > WARD_IMBALANCE_TOLERANCE);
+    if (unbalanced) {
+      violations.push({
+        severity: 'soft', rule: 'ward-imbalance', doctorId: id,
+        message: `${nameOf(id)} ได้เวร ${wards.map(ward => `${wardLabel(ward)} ${counts[ward] || 0} เวร`).join(', ')} (ไม่สมดุล)`
+      });
+    }
+  });
+
+  return violations;
+};
+
+// Compares two attempts (negative = a is better): fewer STRICT RULE violations always wins,
+// the number of missed goals only breaks ties
+export const compareViolations = (a: ScheduleViolation[], b: ScheduleViolation[]): number => {
+  const count = (violations: ScheduleViolation[], severity: ViolationSeverity) => violations.filter(v => v.severity === severity).length;
+  return (count(a, 'hard') - count(b, 'hard')) || (count(a, 'soft') - count(b, 'soft'));
+};
+
+// Map violations onto table cells (key = cellKey) so the table can highlight them.
+// Day-level goals (e.g. consecutive days) mark every cell of that doctor on that date.
+export const mapViolationsToCells = (
+  violations: ScheduleViolation[],
+  schedule: DailySchedule[]
+): Map<string, ScheduleViolation[]> => {
+  const cells = new Map<string, ScheduleViolation[]>();
+  const add = (key: string, v: ScheduleViolation) => cells.set(key, [...(cells.get(key) || []), v]);
+
+  violations.forEach(v => {
+    if (!v.date) return;
+    if (v.shift && v.ward) {
+      add(cellKey(v.date, v.shift, v.ward), v);
+      return;
+    }
+    const day = schedule.find(d => d.date === v.date);
+    if (!day) return;
+    getAssignedCells(day).forEach(([shift, ward, id]) => {
+      if (v.shift && v.shift !== shift) return;
+      if (!v.doctorId || v.doctorId === id) add(cellKey(v.date!, shift, ward), v);
+    });
+  });
+
+  return cells;
+};
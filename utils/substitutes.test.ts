@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { findSubstitutes } from './substitutes';
+import { config, day, doctor } from './testFixtures';
+
+// a holds General on the 4th; b works the day before, d the day after next
+const schedule = [
+  day('2025-03-03', { afternoon: ['b', 'c'], night: ['b', 'c'] }),
+  day('2025-03-04', { afternoon: ['a', 'c'], night: ['a', 'c'] }),
+  day('2025-03-06', { afternoon: ['d', 'c'], night: ['d', 'c'] })
+];
+
+describe('findSubstitutes', () => {
+  it('replaces the whole block the cell belongs to', () => {
+    const { cells } = findSubstitutes(schedule, ['a', 'b', 'c'].map(id => doctor(id)), config, [], '2025-03-04', 'night', 'general');
+    expect(cells).toEqual([['afternoon', 'general'], ['night', 'general']]);
+  });
+
+  it('excludes doctors on duty, on leave or without the required tags, with the reason', () => {
+    const generalTagged = { ...config, wards: config.wards.map(w => (w.id === 'general' ? { ...w, requiredTags: ['GEN'] } : w)) };
+    const doctors = [
+      doctor('a', { qualifications: ['GEN'] }),
+      doctor('c', { qualifications: ['GEN'] }),
+      doctor('e', { qualifications: ['GEN'], unavailability: [{ id: 'l', date: '2025-03-04', type: 'sick' }] }),
+      doctor('f')
+    ];
+    const { candidates, excluded } = findSubstitutes(schedule, doctors, generalTagged, [], '2025-03-04', 'afternoon', 'general');
+    expect(candidates).toEqual([]);
+    expect(excluded.map(e => e.doctorId)).toEqual(['c', 'e', 'f']);
+    expect(excluded.every(e => e.reason.length > 0)).toBe(true);
+  });
+
+  it('ranks rested doctors with a light month first', () => {
+    const doctors = ['a', 'b', 'c', 'd', 'e'].map(id => doctor(id));
+    const { candidates } = findSubstitutes(schedule, doctors, config, [], '2025-03-04', 'afternoon', 'general');
+    // b worked the day before, d has one rest day after, e is free all around
+    expect(candidates.map(c => c.doctorId)).toEqual(['e', 'd', 'b']);
+    expect(candidates[2].reasons).toContainEqual(expect.objectContaining({ tone: 'bad' }));
+  });
+
+  it('finds nothing for an empty cell', () => {
+    expect(findSubstitutes(schedule, [doctor('a')], config, [], '2025-03-05', 'afternoon', 'general').candidates).toEqual([]);
+  });
+});
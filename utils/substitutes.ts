@@ -0,0 +1,159 @@
+import { DailySchedule, Doctor, ExcludedSubstitute, ScheduleConfig, ShiftPeriod, SubstituteCandidate, SubstituteReason, SubstituteTone, WardKey } from '../types';
+import { describeUnavailability, getUnavailability } from './availability';
+import { CellRef, dayNumber, getAssignedCells, getCell, getHeldBlock, getPairingBreaches, getShiftName, isQualifiedFor } from './scheduleCells';
+
+/**
+ * Substitute finder
+ * หาแพทย์มาแทนเวรที่จัดไว้แล้ว (เช่น แพทย์ป่วยกะทันหัน): ตัดแพทย์ที่รับเวรนี้ไม่ได้ออกพร้อมเหตุผล
+ * แล้วเรียงแพทย์ที่เหลือตามวันพักก่อน/หลังเวร ภาระงานของเดือน และความเป็นธรรมของเวรวันหยุด
+ * เวรที่ต่อกัน (เช่น บ่ายต่อดึก หรือรูปแบบวันหยุด) ของแพทย์คนเดิมจะถูกแทนทั้งชุด
+ */
+
+// On the same scale as the local solver's penalties
+const WEIGHT = {
+  consecutiveDay: 100, // Duty the day before or after
+  oneRestDay: 15,      // Only 1 rest day before or after
+  workload: 6,         // Per duty day above (or below) the month's mean
+  holiday: 8,          // Per holiday duty above (or below) the month's mean, on holidays only
+  preference: 20,      // Preferred duty / preferred-off date
+  quota: 400,          // Would go above a monthly maximum
+  pairing: 400         // Would break a pairing constraint
+};
+
+export interface SubstituteSearch {
+  cells: CellRef[]; // Cells the substitute takes over
+  candidates: SubstituteCandidate[]; // Best first
+  excluded: ExcludedSubstitute[];
+}
+
+const reason = (text: string, tone: SubstituteTone): SubstituteReason => ({ text, tone });
+
+// Compared with the mean: clearly fewer is good, clearly more is bad
+const toneAgainst = (value: number, mean: number): SubstituteTone =>
+  value <= mean - 1 ? 'good' : value >= mean + 1 ? 'bad' : 'neutral';
+
+export const findSubstitutes = (
+  schedule: DailySchedule[], doctors: Doctor[], config: ScheduleConfig, context: DailySchedule[],
+  date: string, shift: ShiftPeriod, ward: WardKey
+): SubstituteSearch => {
+  const day = schedule.find(d => d.date === date);
+  const current = day ? getCell(day, shift, ward) : null;
+  if (!day || !current) return { cells: [], candidates: [], excluded: [] };
+
+  const cells = getHeldBlock(day, config, shift, ward);
+  const cellShifts = Array.from(new Set(cells.map(([s]) => s)));
+  const target = dayNumber(date);
+  const active = doctors.filter(d => d.active);
+  const tagsOf = (id: string) => doctors.find(d => d.id === id)?.qualifications || [];
+  const wardName = (id: WardKey) => config.wards.find(w => w.id === id)?.name || id;
+
+  // Other duty days (month and saved neighbours) for rest gaps; month totals for load and holiday fairness
+  const dutyDays = new Map<string, number[]>();
+  const monthDays = new Map<string, number>();
+  const monthHolidays = new Map<string, number>();
+  [...context, ...schedule].forEach(d => {
+    const onDuty = new Set(getAssignedCells(d).map(([, , id]) => id));
+    const inMonth = schedule.includes(d);
+    onDuty.forEach(id => {
+      if (d.date !== date) dutyDays.set(id, [...(dutyDays.get(id) || []), dayNumber(d.date)]);
+      if (!inMonth) return;
+      monthDays.set(id, (monthDays.get(id) || 0) + 1);
+      if (d.isHoliday) monthHolidays.set(id, (monthHolidays.get(id) || 0) + 1);
+    });
+  });
+  const meanOf = (counts: Map<string, number>) =>
+    active.length > 0 ? active.reduce((sum, d) => sum + (counts.get(d.id) || 0), 0) / active.length : 0;
+  const meanDays = meanOf(monthDays);
+  const meanHolidays = meanOf(monthHolidays);
+
+  const candidates: SubstituteCandidate[] = [];
+  const excluded: ExcludedSubstitute[] = [];
+
+  active.filter(d => d.id !== current).forEach(doctor => {
+    // 1. Who cannot take the cells at all
+    const busy = getAssignedCells(day).find(([, , id]) => id === doctor.id);
+    if (busy) {
+      excluded.push({ doctorId: doctor.id, reason: `อยู่เวร${getShiftName(config.shifts, busy[0])} ${wardName(busy[1])} ในวันนี้แล้ว` });
+      return;
+    }
+    const blocked = cellShifts.map(s => getUnavailability(doctor, date, s)).find(r => r !== null);
+    if (blocked) {
+      excluded.push({ doctorId: doctor.id, reason: describeUnavailability(doctor, blocked, date) });
+      return;
+    }
+    if (!cells.every(([s, w]) => isQualifiedFor(doctor, config, s, w))) {
+      excluded.push({ doctorId: doctor.id, reason: 'ไม่มีคุณสมบัติที่เวรนี้กำหนด' });
+      return;
+    }
+
+    // 2. Ranking, with a reason for every part of the score
+    let score = 0;
+    const reasons: SubstituteReason[] = [];
+
+    const days = dutyDays.get(doctor.id) || [];
+    const previous = days.filter(n => n < target);
+    const next = days.filter(n => n > target);
+    const restBefore = previous.length > 0 ? target - Math.max(...previous) - 1 : null;
+    const restAfter = next.length > 0 ? Math.min(...next) - target - 1 : null;
+    [restBefore, restAfter].forEach((rest, i) => {
+      const side = i === 0 ? 'ก่อน' : 'หลัง';
+      if (rest === null) {
+        reasons.push(reason(`ไม่มีเวรใกล้กัน${i === 0 ? 'ก่อนหน้า' : 'หลังจากนี้'}`, 'good'));
+      } else if (rest === 0) {
+        score += WEIGHT.consecutiveDay;
+        reasons.push(reason(`อยู่เวรติดกันกับวัน${i === 0 ? 'ก่อนหน้า' : 'ถัดไป'}`, 'bad'));
+      } else {
+        if (rest === 1) score += WEIGHT.oneRestDay;
+        reasons.push(reason(`พัก${side}เวรนี้ ${rest} วัน`, rest === 1 ? 'neutral' : 'good'));
+      }
+    });
+
+    const load = monthDays.get(doctor.id) || 0;
+    score += WEIGHT.workload * (load - meanDays);
+    reasons.push(reason(`เดือนนี้อยู่เวร ${load} วัน (เฉลี่ย ${meanDays.toFixed(1)})`, toneAgainst(load, meanDays)));
+
+    const holidays = monthHolidays.get(doctor.id) || 0;
+    if (day.isHoliday) {
+      score += WEIGHT.holiday * (holidays - meanHolidays);
+      reasons.push(reason(`เวรวันหยุดเดือนนี้ ${holidays} วัน (เฉลี่ย ${meanHolidays.toFixed(1)})`, toneAgainst(holidays, meanHolidays)));
+    }
+
+    if (doctor.preferredDates?.includes(date)) {
+      score -= WEIGHT.preference;
+      reasons.push(reason('อยากอยู่เวรวันนี้', 'good'));
+    }
+    if (doctor.preferredOffDates?.includes(date)) {
+      score += WEIGHT.preference;
+      reasons.push(reason('ขอไม่อยู่เวรวันนี้', 'bad'));
+    }
+
+    const quota = doctor.quota;
+    if (quota?.maxDutyDays !== undefined && load + 1 > quota.maxDutyDays) {
+      score += WEIGHT.quota;
+      reasons.push(reason(`เกินโควตาสูงสุด ${quota.maxDutyDays} วัน`, 'bad'));
+    }
+    if (day.isHoliday && quota?.maxHolidayDays !== undefined && holidays + 1 > quota.maxHolidayDays) {
+      score += WEIGHT.quota;
+      reasons.push(reason(`เกินโควตาเวรวันหยุด ${quota.maxHolidayDays} วัน`, 'bad'));
+    }
+
+    cellShifts.forEach(s => {
+      const onShift = [
+        ...getAssignedCells(day).filter(([cs, , id]) => cs === s && id !== current).map(([, , id]) => id),
+        doctor.id
+      ];
+      const breaches = getPairingBreaches(config.pairingConstraints, tagsOf, day.isHoliday, s, onShift)
+        .filter(c => c.doctorId === doctor.id || c.otherDoctorId === doctor.id);
+      if (breaches.length > 0) {
+        score += WEIGHT.pairing * breaches.length;
+        reasons.push(reason(`ขัดกับเงื่อนไขการจับคู่แพทย์ในเวร${getShiftName(config.shifts, s)}`, 'bad'));
+      }
+    });
+
+    candidates.push({ doctorId: doctor.id, score: Math.round(score * 10) / 10, reasons });
+  });
+
+  const nameOf = (id: string) => doctors.find(d => d.id === id)?.name || id;
+  candidates.sort((a, b) => a.score - b.score || nameOf(a.doctorId).localeCompare(nameOf(b.doctorId)));
+  return { cells, candidates, excluded };
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { getCell } from './scheduleCells';
+import { applyCellChanges, findIntroducedViolations, getSwapChanges } from './swaps';
+import { config, day, doctor } from './testFixtures';
+
+const doctors = ['a', 'b', 'c', 'd', 'e'].map(id => doctor(id));
+
+const saved = [
+  day('2025-03-01', { morning: ['c', 'd'], afternoon: ['d', 'c'], night: ['d', 'c'] }),
+  day('2025-03-03', { afternoon: ['a', 'b'], night: ['a', 'b'] }),
+  day('2025-03-04', { afternoon: ['c', 'd'], night: ['c', 'd'] })
+];
+
+describe('getSwapChanges', () => {
+  it('gives the whole Afternoon -> Night block away', () => {
+    const { changes, error } = getSwapChanges(saved, { fromDoctorId: 'a', toDoctorId: 'e', date: '2025-03-03', shift: 'night', ward: 'general' }, config);
+    expect(error).toBeUndefined();
+    expect(changes).toEqual([
+      { date: '2025-03-03', shift: 'afternoon', ward: 'general', from: 'a', to: 'e' },
+      { date: '2025-03-03', shift: 'night', ward: 'general', from: 'a', to: 'e' }
+    ]);
+  });
+
+  it('moves the whole holiday pattern of the doctor', () => {
+    const { changes } = getSwapChanges(saved, { fromDoctorId: 'c', toDoctorId: 'e', date: '2025-03-01', shift: 'morning', ward: 'general' }, config);
+    expect(changes.map(c => `${c.shift}/${c.ward}`).sort()).toEqual(['afternoon/icu', 'morning/general', 'night/icu']);
+  });
+
+  it('trades blocks between the two doctors', () => {
+    const { changes } = getSwapChanges(saved, {
+      fromDoctorId: 'a', toDoctorId: 'c', date: '2025-03-03', shift: 'afternoon', ward: 'general',
+      trade: { date: '2025-03-04', shift: 'afternoon', ward: 'general' }
+    }, config);
+    expect(changes).toHaveLength(4);
+    expect(changes.filter(c => c.date === '2025-03-03').every(c => c.from === 'a' && c.to === 'c')).toBe(true);
+    expect(changes.filter(c => c.date === '2025-03-04').every(c => c.from === 'c' && c.to === 'a')).toBe(true);
+  });
+
+  it('refuses cells the doctors no longer hold', () => {
+    expect(getSwapChanges(saved, { fromDoctorId: 'b', toDoctorId: 'e', date: '2025-03-03', shift: 'afternoon', ward: 'general' }, config).error)
+      .toBeDefined();
+    expect(getSwapChanges(saved, {
+      fromDoctorId: 'a', toDoctorId: 'c', date: '2025-03-03', shift: 'afternoon', ward: 'general',
+      trade: { date: '2025-03-04', shift: 'afternoon', ward: 'icu' }
+    }, config).error).toBeDefined();
+  });
+});
+
+describe('applyCellChanges', () => {
+  it('writes the changes and returns untouched days as they were', () => {
+    const after = applyCellChanges(saved, [{ date: '2025-03-03', shift: 'night', ward: 'icu', from: 'b', to: 'e' }]);
+    expect(getCell(after[1], 'night', 'icu')).toBe('e');
+    expect(getCell(saved[1], 'night', 'icu')).toBe('b');
+    expect(after[0]).toBe(saved[0]);
+    expect(after[2]).toBe(saved[2]);
+  });
+
+  it('creates a missing shift slot', () => {
+    const after = applyCellChanges(saved, [{ date: '2025-03-03', shift: 'morning', ward: 'general', from: null, to: 'e' }]);
+    expect(after[1].shifts.morning).toEqual({ assignments: { general: 'e' } });
+  });
+});
+
+describe('findIntroducedViolations', () => {
+  it('is empty for a swap that keeps every rule', () => {
+    const { changes } = getSwapChanges(saved, { fromDoctorId: 'a', toDoctorId: 'e', date: '2025-03-03', shift: 'night', ward: 'general' }, config);
+    expect(findIntroducedViolations(saved, changes, doctors, config)).toEqual([]);
+  });
+
+  it('reports only what the changes break', () => {
+    // Already broken before: an empty cell on another day
+    const withGap = applyCellChanges(saved, [{ date: '2025-03-04', shift: 'night', ward: 'icu', from: 'd', to: null }]);
+    const { changes } = getSwapChanges(withGap, { fromDoctorId: 'a', toDoctorId: 'b', date: '2025-03-03', shift: 'night', ward: 'general' }, config);
+    const introduced = findIntroducedViolations(withGap, changes, doctors, config);
+    expect(introduced.map(v => v.rule)).toEqual(['double-booked', 'double-booked']);
+    expect(introduced.every(v => v.date === '2025-03-03')).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+import { CellChange, DailySchedule, Doctor, ScheduleConfig, ScheduleViolation, ShiftPeriod, SwapRequest, WardKey } from '../types';
+import { RosterLayout, getCell, getHeldBlock, getNeighbourDays, setCell } from './scheduleCells';
+import { validateSchedule } from './scheduleValidator';
+
+/**
+ * Shift swaps
+ * ยก/แลกเวรระหว่างแพทย์: ช่องที่ต่อกันตามกฎการต่อเวร (เช่น บ่ายต่อดึก) ของวันเดียวกันย้ายไปพร้อมกันเสมอ
+ * คำนวณเป็นรายช่อง (CellChange) จากตารางที่บันทึกไว้ แล้วให้ server ตรวจซ้ำก่อนบันทึกในคราวเดียว
+ */
+
+// Moves a doctor's block to another doctor, or null when the cell is no longer theirs
+const moveBlock = (
+  days: DailySchedule[], layout: RosterLayout, date: string, shift: ShiftPeriod, ward: WardKey, from: string, to: string
+): CellChange[] | null => {
+  const day = days.find(d => d.date === date);
+  if (!day || getCell(day, shift, ward) !== from) return null;
+  return getHeldBlock(day, layout, shift, ward).map(([s, w]) => ({ date, shift: s, ward: w, from, to }));
+};
+
+// The cells a request names; a draft being filled in has no id or status yet
+export type SwapCells = Pick<SwapRequest, 'fromDoctorId' | 'toDoctorId' | 'date' | 'shift' | 'ward' | 'trade'>;
+
+export const getSwapChanges = (
+  days: DailySchedule[], request: SwapCells, layout: RosterLayout
+): { changes: CellChange[]; error?: string } => {
+  const given = moveBlock(days, layout, request.date, request.shift, request.ward, request.fromDoctorId, request.toDoctorId);
+  if (!given) return { changes: [], error: 'เวรที่ขอยก/แลกไม่ได้เป็นของแพทย์ผู้ขอแล้ว' };
+  if (!request.trade) return { changes: given };
+
+  const { date, shift, ward } = request.trade;
+  const taken = moveBlock(days, layout, date, shift, ward, request.toDoctorId, request.fromDoctorId);
+  if (!taken) return { changes: [], error: 'เวรที่ขอแลกคืนไม่ได้เป็นของแพทย์อีกฝ่ายแล้ว' };
+  return { changes: [...given, ...taken] };
+};
+
+// Returns the days with the changes applied; days without changes are returned as-is
+export const applyCellChanges = (days: DailySchedule[], changes: CellChange[]): DailySchedule[] =>
+  days.map(day => changes
+    .filter(c => c.date === day.date)
+    .reduce((next, c) => setCell(next, c.shift, c.ward, c.to), day));
+
+// Hard rule breaks the changes would add, checked month by month against the saved schedule
+export const findIntroducedViolations = (
+  saved: DailySchedule[], changes: CellChange[], doctors: Doctor[], config: ScheduleConfig
+): ScheduleViolation[] => {
+  const after = applyCellChanges(saved, changes);
+  const key = (v: ScheduleViolation) => `${v.rule}|${v.date}|${v.shift}|${v.ward}|${v.doctorId}`;
+  const months = Array.from(new Set(changes.map(c => c.date.slice(0, 7))));
+
+  return months.flatMap(yearMonth => {
+    const [year, month] = yearMonth.split('-').map(Number);
+    const monthConfig = { ...config, year, month: month - 1 };
+    const hardOf = (days: DailySchedule[]) => validateSchedule(days, doctors, monthConfig, getNeighbourDays(days, monthConfig))
+      .filter(v => v.severity === 'hard');
+    const before = new Set(hardOf(saved).map(key));
+    return hardOf(after).filter(v => !before.has(key(v)));
+  });
+};
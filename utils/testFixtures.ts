@@ -0,0 +1,25 @@
+import { DailySchedule, Doctor, ScheduleConfig } from '../types';
+import { DEFAULT_ROTATION_RULES, DEFAULT_SHIFTS, DEFAULT_WARDS } from './scheduleCells';
+
+// Shared by the unit tests: March 2025 with the default wards, shifts and rotation rules
+
+export const config: ScheduleConfig = {
+  year: 2025,
+  month: 2, // March 2025
+  customHolidays: [],
+  wards: DEFAULT_WARDS,
+  shifts: DEFAULT_SHIFTS,
+  rotationRules: DEFAULT_ROTATION_RULES,
+  pairingConstraints: [],
+  swapApprovalRequired: true
+};
+
+export const doctor = (id: string, extra: Partial<Doctor> = {}): Doctor =>
+  ({ id, name: `Doctor ${id}`, phone: '', unavailability: [], active: true, color: '#fff', ...extra });
+
+// [general, icu] per shift; weekends are holidays
+export const day = (date: string, shifts: Record<string, [string | null, string | null]>): DailySchedule => ({
+  date,
+  isHoliday: [0, 6].includes(new Date(`${date}T00:00:00`).getDay()),
+  shifts: Object.fromEntries(Object.entries(shifts).map(([shift, [general, icu]]) => [shift, { assignments: { general, icu } }]))
+});